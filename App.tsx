@@ -4,6 +4,12 @@ import { EditorScene } from './components/EditorScene';
 import { Toolbar } from './components/Toolbar';
 import { Sidebar } from './components/Sidebar';
 import { ViewControls } from './components/ViewControls';
+import { SessionsDialog } from './components/SessionsDialog';
+import { MeasurementBox } from './components/MeasurementBox';
+import { DrawingToolbar } from './components/DrawingToolbar';
+import { SchedulePanel } from './components/SchedulePanel';
+import { ComplianceReport } from './components/ComplianceReport';
+import { AttributeLegend } from './components/AttributeLegend';
 import { useStore } from './store';
 import { Eye, EyeOff } from 'lucide-react';
 
@@ -42,12 +48,40 @@ function App() {
              <ViewControls />
           </div>
 
+          {/* Top Center Drawing Tools */}
+          <div className="pointer-events-auto">
+             <DrawingToolbar />
+          </div>
+
+          {/* Bottom Left Measurements Box */}
+          <div className="pointer-events-auto">
+             <MeasurementBox />
+          </div>
+
+          {/* Bottom Left Colour Legend */}
+          <div className="pointer-events-auto">
+             <AttributeLegend />
+          </div>
+
+          {/* Top Left Area Schedule */}
+          <div className="pointer-events-auto">
+             <SchedulePanel />
+          </div>
+
+          {/* Top Right Compliance Report */}
+          <div className="pointer-events-auto">
+             <ComplianceReport />
+          </div>
+
           {/* Branding */}
           <div className="absolute bottom-4 right-4 pointer-events-none opacity-50 z-0 text-right">
             <h1 className="text-xl font-bold text-slate-900 leading-none">ArchMass</h1>
             <p className="text-[10px] text-slate-600 uppercase tracking-widest">Schematic Editor</p>
           </div>
         </div>
+
+        {/* Autosave Recovery */}
+        <SessionsDialog />
       </div>
     </div>
   );
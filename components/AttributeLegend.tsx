@@ -0,0 +1,40 @@
+import React from 'react';
+import { useStore } from '../store';
+import { getAttributeLegend, formatAttributeKey, UNASSIGNED_COLOR } from '../utils/attributes';
+import { Tags, X } from 'lucide-react';
+
+// Key of the colours while the scene is coloured by an attribute
+export const AttributeLegend: React.FC = () => {
+  const { colorByAttribute, setColorByAttribute, shapes } = useStore();
+  if (!colorByAttribute) return null;
+
+  const legend = getAttributeLegend(shapes, colorByAttribute);
+  const swatch = (color: string) => <span className="w-3 h-3 rounded-sm border border-black/10 flex-none" style={{ backgroundColor: color }} />;
+
+  return (
+    <div className="absolute bottom-20 left-4 z-20 w-48 bg-white/95 backdrop-blur-xl rounded-xl border border-slate-200/60 shadow-lg overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-100">
+        <div className="flex items-center gap-1.5">
+          <Tags size={12} className="text-slate-400" />
+          <span className="text-[10px] font-bold uppercase tracking-wider text-slate-600">{formatAttributeKey(colorByAttribute)}</span>
+        </div>
+        <button onClick={() => setColorByAttribute(null)} className="p-0.5 text-slate-400 hover:text-slate-700" title="Back to object colors">
+          <X size={12} />
+        </button>
+      </div>
+      <div className="max-h-56 overflow-y-auto custom-scrollbar py-1">
+        {legend.map(entry => (
+          <div key={entry.value} className="flex items-center gap-2 px-3 py-0.5 text-[11px] text-slate-600">
+            {swatch(entry.color)}
+            <span className="flex-1 truncate" title={entry.value}>{entry.value}</span>
+            <span className="text-[10px] text-slate-400">{entry.count}</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 px-3 py-0.5 text-[11px] text-slate-400 italic">
+          {swatch(UNASSIGNED_COLOR)}
+          <span className="flex-1">Not set</span>
+        </div>
+      </div>
+    </div>
+  );
+};
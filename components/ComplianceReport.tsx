@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../store';
+import { checkCompliance, ComplianceFinding, RuleResult } from '../utils/compliance';
+import { ShieldCheck, CircleCheck, CircleX, CircleMinus, X } from 'lucide-react';
+
+const formatValue = (value: number, unit: string) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}${unit ? ` ${unit}` : ''}`;
+
+const STATUS_ICONS = {
+  pass: <CircleCheck size={14} className="text-green-600 flex-none" />,
+  fail: <CircleX size={14} className="text-red-600 flex-none" />,
+  skipped: <CircleMinus size={14} className="text-slate-400 flex-none" />
+};
+
+const RuleRow: React.FC<{ result: RuleResult; onSelect: (finding: ComplianceFinding) => void }> = ({ result, onSelect }) => {
+  const { rule, allowed, status, measured, findings, note } = result;
+  const comparison = rule.limit === 'max' ? '≤' : '≥';
+
+  return (
+    <div className="border-t border-slate-100 first:border-t-0">
+      <div className="flex items-center gap-2 px-4 py-2">
+        {STATUS_ICONS[status]}
+        <span className="flex-1 text-[11px] font-semibold text-slate-700">{rule.label}</span>
+        <span className="text-[11px] font-mono text-slate-500">
+          {status === 'skipped'
+            ? note
+            : <>
+                <span className={status === 'fail' ? 'text-red-600 font-bold' : 'text-slate-800'}>{measured === null ? '–' : formatValue(measured, rule.unit)}</span>
+                {` ${comparison} ${formatValue(allowed, rule.unit)}`}
+              </>}
+        </span>
+      </div>
+      {findings.length > 0 && (
+        <div className="pb-1.5">
+          {rule.scope === 'scene' && <p className="px-10 pb-1 text-[10px] text-slate-400">Share of each building</p>}
+          {findings.map(finding => (
+            <button
+              key={finding.shapeIds.join()}
+              onClick={() => onSelect(finding)}
+              className="w-full flex items-center gap-2 pl-10 pr-4 py-1 text-[11px] text-left hover:bg-red-50"
+              title="Select"
+            >
+              <span className="flex-1 truncate text-slate-600">{finding.name}</span>
+              <span className="font-mono text-red-600">{formatValue(finding.measured, rule.unit)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Pass/fail report of the scene against the compliance rules
+export const ComplianceReport: React.FC = () => {
+  const { compliancePanelOpen, setCompliancePanelOpen, shapes, complianceRules, siteArea, selectShape } = useStore();
+  const results = useMemo(
+    () => compliancePanelOpen ? checkCompliance(shapes, complianceRules, siteArea) : null,
+    [compliancePanelOpen, shapes, complianceRules, siteArea]
+  );
+
+  if (!compliancePanelOpen || !results) return null;
+
+  const failed = results.filter(r => r.status === 'fail').length;
+  const handleSelect = (finding: ComplianceFinding) =>
+    finding.shapeIds.forEach((id, i) => selectShape(id, i > 0));
+
+  return (
+    <div className="absolute top-4 right-72 z-20 w-[340px] max-h-[60vh] flex flex-col bg-white/95 backdrop-blur-xl rounded-xl border border-slate-200/60 shadow-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-200 bg-slate-50">
+        <div className="flex items-center gap-2">
+          <ShieldCheck size={14} className="text-slate-500" />
+          <span className="text-xs font-bold uppercase tracking-wider text-slate-700">Compliance</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {results.length > 0 && (
+            <span className={`text-[10px] font-bold uppercase ${failed ? 'text-red-600' : 'text-green-600'}`}>
+              {failed ? `${failed} failing` : 'All passing'}
+            </span>
+          )}
+          <button onClick={() => setCompliancePanelOpen(false)} className="p-1 text-slate-400 hover:text-slate-700" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {results.length === 0
+          ? <div className="p-4 text-center text-xs text-slate-400 italic">No rules switched on</div>
+          : results.map(result => <RuleRow key={result.rule.key} result={result} onSelect={handleSelect} />)}
+      </div>
+    </div>
+  );
+};
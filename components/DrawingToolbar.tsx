@@ -0,0 +1,94 @@
+import React from 'react';
+import { useStore } from '../store';
+import { DrawingTool, DRAWING_TOOL_LABELS, DRAWING_TOOL_HINTS, PATH_TOOLS } from '../utils/drawing';
+import { PenTool, Spline, Tangent, Square, RotateCcwSquare, Circle, Hexagon, SquareDashed, Check, X, type LucideIcon } from 'lucide-react';
+
+const TOOL_ICONS: Record<DrawingTool, LucideIcon> = {
+  polyline: PenTool,
+  arc: Spline,
+  'tangent-arc': Tangent,
+  rectangle: Square,
+  'rotated-rectangle': RotateCcwSquare,
+  circle: Circle,
+  polygon: Hexagon
+};
+
+const TOOL_ORDER: DrawingTool[] = ['polyline', 'arc', 'tangent-arc', 'rectangle', 'rotated-rectangle', 'circle', 'polygon'];
+
+// Sketch tool picker, shown while drawing
+export const DrawingToolbar: React.FC = () => {
+  const { isDrawing, drawingTarget, drawingTool, setDrawingTool, polygonSides, setPolygonSides, cutHoles, toggleCutHoles, drawingPoints, finishDrawing, cancelDrawing } = useStore();
+  if (!isDrawing) return null;
+
+  const btnClass = "w-8 h-8 rounded-lg hover:bg-slate-50 text-slate-500 transition-all flex items-center justify-center active:scale-95";
+  const activeClass = "bg-blue-50 text-blue-600 shadow-inner ring-1 ring-blue-100";
+  const isPath = PATH_TOOLS.includes(drawingTool);
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-1">
+      <div className="flex items-center gap-1 p-1.5 bg-white/95 backdrop-blur-xl rounded-xl border border-slate-200/60 shadow-lg">
+        {drawingTarget !== 'mirror' && TOOL_ORDER.map((tool, i) => {
+          const Icon = TOOL_ICONS[tool];
+          return (
+            <React.Fragment key={tool}>
+              {i === PATH_TOOLS.length && <div className="w-[1px] h-6 bg-slate-200 mx-1" />}
+              <button
+                className={`${btnClass} ${drawingTool === tool ? activeClass : ''}`}
+                onClick={() => setDrawingTool(tool)}
+                title={DRAWING_TOOL_LABELS[tool]}
+              >
+                <Icon size={16} />
+              </button>
+            </React.Fragment>
+          );
+        })}
+
+        {drawingTool === 'polygon' && drawingTarget !== 'mirror' && (
+          <label className="flex items-center gap-1 ml-1 text-[10px] font-bold text-slate-400 uppercase">
+            Sides
+            <input
+              type="number"
+              min={3}
+              max={64}
+              value={polygonSides}
+              onChange={(e) => setPolygonSides(parseInt(e.target.value) || 3)}
+              onKeyDown={(e) => e.stopPropagation()}
+              className="w-12 h-7 px-1.5 text-xs font-mono text-slate-700 rounded border border-slate-200 focus:outline-none focus:border-blue-400"
+            />
+          </label>
+        )}
+
+        {drawingTarget !== 'mirror' && <div className="w-[1px] h-6 bg-slate-200 mx-1" />}
+        {drawingTarget === 'mass' && (
+          <button
+            className={`${btnClass} ${cutHoles ? activeClass : ''}`}
+            onClick={toggleCutHoles}
+            title={cutHoles ? 'Outlines inside a footprint cut a courtyard (on)' : 'Outlines inside a footprint cut a courtyard (off)'}
+          >
+            <SquareDashed size={16} />
+          </button>
+        )}
+        {isPath && drawingTarget !== 'mirror' && (
+          <button
+            className={`${btnClass} hover:text-green-600 disabled:opacity-30`}
+            onClick={() => finishDrawing()}
+            disabled={drawingPoints.length < (drawingTarget === 'path' ? 2 : 3)}
+            title="Finish (Enter)"
+          >
+            <Check size={16} />
+          </button>
+        )}
+        <button className={`${btnClass} hover:text-red-500`} onClick={cancelDrawing} title="Cancel (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+      <span className="text-[10px] text-slate-500 bg-white/80 px-2 py-0.5 rounded">
+        {drawingTarget === 'site' && <span className="font-bold text-green-700">Site boundary: </span>}
+        {drawingTarget === 'path' && <span className="font-bold text-blue-700">Array path: </span>}
+        {drawingTarget === 'mirror'
+          ? <><span className="font-bold text-blue-700">Mirror line: </span>Click two points on the line</>
+          : DRAWING_TOOL_HINTS[drawingTool]}
+      </span>
+    </div>
+  );
+};
@@ -19,9 +19,26 @@ import {
 } from '@react-three/drei';
 import * as THREE from 'three';
 import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter';
-import { useStore } from '../store';
-import { ShapeData } from '../types';
+import { useStore, getProjectContent } from '../store';
+import { ShapeData, VertexRef } from '../types';
 import { getSunPosition } from '../utils/solar';
+import { createProjectFile } from '../utils/projectFile';
+import { saveSession, pruneSessions } from '../utils/autosave';
+import { createFootprintShape, getBoxCorners, getDescendantIds, getFootprintLoops, getLocalMatrix, getParentWorldMatrix, getSelectionRoots, getShapeFeatures, getTransformFromMatrix, getWorldMatrix, indexShapes } from '../utils/geometry';
+import { collectReferenceEdges, findInference, projectOnInference, Inference, INFERENCE_COLORS, INFERENCE_LABELS } from '../utils/inference';
+import { collectSnapTargets, findCursorSnap, findMoveSnap, SnapResult, SnapTargets, SNAP_COLORS, SNAP_LABELS, SNAP_RADIUS_PX } from '../utils/snapping';
+import { PushPullFace, pickFace, getFaceFrame, applyPushPull, isSameFace } from '../utils/pushpull';
+import { buildShapeGeometry, evaluateBoolean } from '../utils/csg';
+import { getFloorPlateOutlines } from '../utils/floors';
+import { DEFAULT_TOWER, buildTowerGeometry, getTowerFloors } from '../utils/tower';
+import { buildRoofGeometry } from '../utils/roof';
+import { buildFacadeGeometry, canHaveFacade } from '../utils/facade';
+import { getAttributeColor } from '../utils/attributes';
+import { getArrayOrigin, getArrayTransforms } from '../utils/array';
+import { ShapeUpdates, getSelectionPivot } from '../utils/arrange';
+import { getEnvelopeRings, buildEnvelopeGeometry, getEnvelopeViolations } from '../utils/zoning';
+import { formatLength, measureTransform, MeasurementKind } from '../utils/measurement';
+import { PATH_TOOLS, SHAPE_TOOL_CLICKS, TOOL_MEASUREMENTS, buildShapeOutline, threePointArc, tangentArc } from '../utils/drawing';
 
 // --- CAMERA HANDLER ---
 const CameraHandler: React.FC = () => {
@@ -76,6 +93,57 @@ const CameraHandler: React.FC = () => {
   return null;
 };
 
+// --- AUTOSAVE HANDLER ---
+const AUTOSAVE_DELAY = 1500;
+const THUMBNAIL_WIDTH = 160;
+
+const AutosaveHandler: React.FC = () => {
+  const { gl, scene, camera } = useThree();
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const captureThumbnail = () => {
+      // The drawing buffer is cleared after each frame, so render once more before reading it
+      gl.render(scene, camera);
+      const source = gl.domElement;
+      const thumb = document.createElement('canvas');
+      thumb.width = THUMBNAIL_WIDTH;
+      thumb.height = Math.max(1, Math.round(THUMBNAIL_WIDTH * source.height / source.width));
+      thumb.getContext('2d')?.drawImage(source, 0, 0, thumb.width, thumb.height);
+      return thumb.toDataURL('image/jpeg', 0.7);
+    };
+
+    const save = async () => {
+      const state = useStore.getState();
+      const thumbnail = captureThumbnail();
+      const project = await createProjectFile(getProjectContent(state));
+      await saveSession({ id: state.sessionId, updatedAt: Date.now(), shapeCount: state.shapes.length, thumbnail, project });
+      await pruneSessions();
+    };
+
+    const unsubscribe = useStore.subscribe((state, prev) => {
+      const next = getProjectContent(state);
+      const last = getProjectContent(prev);
+      const changed = next.shapes !== last.shapes
+        || next.sunSettings !== last.sunSettings
+        || (Object.keys(next.scene) as (keyof typeof next.scene)[]).some(k => next.scene[k] !== last.scene[k])
+        || (Object.keys(next.snap) as (keyof typeof next.snap)[]).some(k => next.snap[k] !== last.snap[k]);
+      if (!changed) return;
+
+      clearTimeout(timer);
+      timer = setTimeout(() => save().catch(err => console.error('Autosave failed:', err)), AUTOSAVE_DELAY);
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [gl, scene, camera]);
+
+  return null;
+};
+
 // --- SUN COMPONENT ---
 const SunPathDiagram: React.FC = () => {
   const { sunSettings } = useStore();
@@ -143,30 +211,152 @@ const SunPathDiagram: React.FC = () => {
   );
 };
 
+// --- PUSH/PULL ---
+// Drags a face along its normal until the pointer is released. The pointer movement is measured
+// along the normal as it appears on screen; heights of other objects and the grid attract the face.
+const startPushPullDrag = (shape: ShapeData, face: PushPullFace, pointer: PointerEvent, camera: THREE.Camera, domElement: HTMLElement) => {
+  const state = useStore.getState();
+  const frame = getFaceFrame(shape, face);
+  if (!frame) return;
+
+  const index = indexShapes(state.shapes);
+  const world = getWorldMatrix(shape, index);
+  const center = frame.center.clone().applyMatrix4(world);
+  const normal = frame.normal.clone().applyMatrix3(new THREE.Matrix3().getNormalMatrix(world)).normalize();
+  // World length of one unit of the shape's parent space along the normal
+  const parentNormal = frame.normal.clone().applyMatrix3(new THREE.Matrix3().getNormalMatrix(getLocalMatrix(shape))).normalize();
+  const parentScale = parentNormal.applyMatrix3(new THREE.Matrix3().setFromMatrix4(getParentWorldMatrix(shape, index))).length() || 1;
+
+  const rect = domElement.getBoundingClientRect();
+  const toScreen = (p: THREE.Vector3) => {
+    const ndc = p.clone().project(camera);
+    return new THREE.Vector2((ndc.x * 0.5 + 0.5) * rect.width, (-ndc.y * 0.5 + 0.5) * rect.height);
+  };
+  const origin = toScreen(center);
+  let axis = toScreen(center.clone().add(normal)).sub(origin);
+  if (axis.length() < 5) {
+    // Looking straight along the normal: dragging up the screen pulls the face out
+    const side = Math.abs(normal.y) > 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+    axis = new THREE.Vector2(0, -toScreen(center.clone().add(side)).sub(origin).length());
+  }
+
+  const targets = state.objectSnapEnabled ? collectSnapTargets(state.shapes, getDescendantIds(shape.id, state.shapes)) : null;
+  const startCursor = new THREE.Vector2(pointer.clientX - rect.left, pointer.clientY - rect.top);
+
+  const handleMove = (e: PointerEvent) => {
+    const { snapEnabled, snapGrid, setSnapIndicator, updateShape, setMeasurement } = useStore.getState();
+    const cursor = new THREE.Vector2(e.clientX - rect.left, e.clientY - rect.top);
+    let distance = cursor.sub(startCursor).dot(axis) / axis.lengthSq();
+
+    // Level with the closest vertex or bounds corner of another object, within the snap radius
+    let snap: SnapResult | null = null;
+    if (targets) {
+      let bestPx = SNAP_RADIUS_PX;
+      for (const target of targets.points) {
+        if (target.type === 'edge' || target.type === 'midpoint') continue;
+        const level = target.point.clone().sub(center).dot(normal);
+        const px = Math.abs(level - distance) * axis.length();
+        if (px < bestPx) {
+          bestPx = px;
+          snap = { type: target.type, point: [target.point.x, target.point.y, target.point.z], shapeId: target.shapeId };
+        }
+      }
+      if (snap) distance = new THREE.Vector3(...snap.point).sub(center).dot(normal);
+    }
+    if (!snap && snapEnabled) distance = Math.round(distance / snapGrid) * snapGrid;
+    setSnapIndicator(snap);
+
+    updateShape(shape.id, applyPushPull(shape, face, distance / parentScale));
+    const { measurement } = useStore.getState();
+    if (measurement?.face) setMeasurement({ ...measurement, value: formatLength(distance / parentScale) });
+  };
+
+  const handleUp = () => {
+    window.removeEventListener('pointermove', handleMove);
+    window.removeEventListener('pointerup', handleUp);
+    const { setIsDragging, setSnapIndicator } = useStore.getState();
+    setIsDragging(false);
+    setSnapIndicator(null);
+  };
+  window.addEventListener('pointermove', handleMove);
+  window.addEventListener('pointerup', handleUp);
+};
+
+// Outline of the face push/pull would move
+const FaceHighlight = () => {
+  const { pushPullFace, transformMode, shapes } = useStore();
+  const shape = pushPullFace && transformMode === 'pushpull' ? shapes.find(s => s.id === pushPullFace.shapeId) : undefined;
+  const frame = shape && pushPullFace ? getFaceFrame(shape, pushPullFace) : null;
+  if (!shape || !frame) return null;
+
+  const world = getWorldMatrix(shape, indexShapes(shapes));
+  return (
+    <group>
+      {frame.outline.map((loop, i) => (
+        <Line
+          key={i}
+          points={[...loop, loop[0]].map(p => p.clone().applyMatrix4(world).toArray() as [number, number, number])}
+          color="#f59e0b"
+          lineWidth={3}
+          depthTest={false}
+          renderOrder={10}
+        />
+      ))}
+    </group>
+  );
+};
+
 // --- SHAPE COMPONENTS ---
 const CustomShapeMesh: React.FC<{ points: [number, number, number][], data: ShapeData }> = ({ points, data }) => {
     if (!points || points.length < 3) return null;
-    const shape = useMemo(() => {
-        const s = new THREE.Shape();
-        if (points && points.length > 0) {
-            s.moveTo(points[0][0], points[0][2]);
-            for (let i = 1; i < points.length; i++) {
-                s.lineTo(points[i][0], points[i][2]);
-            }
-            s.closePath();
-        }
-        return s;
-    }, [points]);
-    const extrudeSettings = useMemo(() => ({ depth: -Math.max(0.01, data.extrudeDepth || 0), bevelEnabled: false }), [data.extrudeDepth]);
+    const shape = useMemo(() => createFootprintShape(points, data.holes), [points, data.holes]);
+    const extrudeSettings = useMemo(() => ({ depth: Math.max(0.01, data.extrudeDepth || 0), bevelEnabled: false }), [data.extrudeDepth]);
+    const flat = (data.extrudeDepth || 0) <= 0.01;
+    return (
+        <>
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, 0]} castShadow receiveShadow>
+                {flat ? <shapeGeometry args={[shape]} /> : <extrudeGeometry args={[shape, extrudeSettings]} />}
+                <meshStandardMaterial color={data.color} transparent opacity={data.opacity} wireframe={data.wireframe} side={THREE.DoubleSide} />
+                {data.edges && <Edges threshold={15} color={data.edgeColor} />}
+            </mesh>
+            {data.roof && data.roof.type !== 'flat' && <RoofMesh data={data} top={flat ? 0.01 : 0.01 + data.extrudeDepth!} />}
+        </>
+    );
+};
+
+// Roof on top of the extrusion, part of the mass for shadows and export
+const RoofMesh: React.FC<{ data: ShapeData, top: number }> = ({ data, top }) => {
+    const geometry = useMemo(() => buildRoofGeometry(data), [data.roof, data.points, data.holes]);
+    useEffect(() => () => geometry?.dispose(), [geometry]);
+    if (!geometry) return null;
     return (
-        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, 0]} castShadow receiveShadow>
-            {(data.extrudeDepth || 0) <= 0.01 ? <shapeGeometry args={[shape]} /> : <extrudeGeometry args={[shape, extrudeSettings]} />}
+        <mesh geometry={geometry} position={[0, top, 0]} castShadow receiveShadow>
             <meshStandardMaterial color={data.color} transparent opacity={data.opacity} wireframe={data.wireframe} side={THREE.DoubleSide} />
             {data.edges && <Edges threshold={15} color={data.edgeColor} />}
         </mesh>
     );
 };
 
+// Windows and mullions on the walls of a mass. They are laid out at the mass's real size, so its
+// scale is undone here; clicks go through to the walls behind.
+const GLASS_COLOR = '#93c5fd';
+
+const FacadeMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
+    const geometry = useMemo(() => buildFacadeGeometry(data), [data.facade, data.type, data.points, data.holes, data.extrudeDepth, data.scale]);
+    useEffect(() => () => { geometry?.glass.dispose(); geometry?.mullions.dispose(); }, [geometry]);
+    if (!geometry || data.scale.some(s => s === 0)) return null;
+    return (
+        <group scale={data.scale.map(s => 1 / s) as [number, number, number]}>
+            <mesh geometry={geometry.glass} receiveShadow raycast={() => null}>
+                <meshStandardMaterial color={GLASS_COLOR} metalness={0.4} roughness={0.1} transparent opacity={Math.min(data.opacity, 0.85)} side={THREE.DoubleSide} />
+            </mesh>
+            <mesh geometry={geometry.mullions} castShadow receiveShadow raycast={() => null}>
+                <meshStandardMaterial color={data.color} transparent opacity={data.opacity} />
+            </mesh>
+        </group>
+    );
+};
+
 const TreeMesh: React.FC<{ data: ShapeData }> = ({ data }) => (
     <group>
       <mesh position={[0, 0.5, 0]} castShadow receiveShadow>
@@ -215,10 +405,227 @@ const ModelMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
   return <primitive object={clone} castShadow receiveShadow />;
 };
 
+// Floor plate lines around a mass with floors (line segments, so exports leave them out)
+const FloorPlates: React.FC<{ data: ShapeData }> = ({ data }) => {
+  const geometry = useMemo(() => {
+    const segments: number[] = [];
+    getFloorPlateOutlines(data).forEach(loop => loop.forEach((p, i) => {
+      segments.push(...p, ...loop[(i + 1) % loop.length]);
+    }));
+    return new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute(segments, 3));
+  }, [data]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  return (
+    <lineSegments geometry={geometry} raycast={() => null}>
+      <lineBasicMaterial color={data.edgeColor} transparent opacity={0.45} />
+    </lineSegments>
+  );
+};
+
+// Everything a boolean's result depends on, as a memo key
+const booleanSignature = (id: string, shapes: ShapeData[]) => {
+  const ids = getDescendantIds(id, shapes);
+  return JSON.stringify(shapes.filter(s => ids.has(s.id)));
+};
+
+// Outline of a boolean operand, shown while the boolean or one of its operands is selected.
+// Lines are left out of exports, so only the result mesh ends up in the GLB.
+const OperandGhost: React.FC<{ data: ShapeData, selected: boolean }> = ({ data, selected }) => {
+  const { shapes, selectShape } = useStore();
+  const signature = booleanSignature(data.id, shapes);
+  const geometry = useMemo(() => buildShapeGeometry(data, shapes), [signature]);
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+  if (!geometry || !data.visible) return null;
+  return (
+    <lineSegments
+      position={data.position}
+      rotation={data.rotation}
+      scale={data.scale}
+      renderOrder={1}
+      onClick={(e) => { e.stopPropagation(); selectShape(data.id, e.ctrlKey || e.metaKey || e.shiftKey); }}
+    >
+      <edgesGeometry args={[geometry, 15]} />
+      <lineBasicMaterial color={selected ? '#2563eb' : '#64748b'} transparent opacity={selected ? 1 : 0.6} depthTest={false} />
+    </lineSegments>
+  );
+};
+
+const BooleanMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
+  const { shapes, selectedIds } = useStore();
+  const signature = booleanSignature(data.id, shapes);
+  const geometry = useMemo(() => evaluateBoolean(data, shapes), [signature]);
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+
+  const operands = shapes.filter(s => s.parentId === data.id);
+  const showOperands = selectedIds.some(id => id === data.id || operands.some(o => getDescendantIds(o.id, shapes).has(id)));
+  return (
+    <>
+      {geometry && (
+        <mesh geometry={geometry} castShadow receiveShadow>
+          <meshStandardMaterial color={data.color} transparent opacity={data.opacity} wireframe={data.wireframe} side={THREE.DoubleSide} />
+          {data.edges && <Edges threshold={15} color={data.edgeColor} />}
+        </mesh>
+      )}
+      {showOperands && operands.map(o => <OperandGhost key={o.id} data={o} selected={selectedIds.includes(o.id)} />)}
+    </>
+  );
+};
+
+// --- TOWERS ---
+// Generated from the tower's parameters; the stepped slabs show each floor through the edges
+// The solid has no caps between floors, so floor levels are drawn as lines like FloorPlates
+const TowerMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
+  const geometry = useMemo(() => buildTowerGeometry(data.tower || DEFAULT_TOWER), [data.tower]);
+  const levels = useMemo(() => {
+    const segments: number[] = [];
+    getTowerFloors(data.tower || DEFAULT_TOWER).slice(1).forEach(({ elevation, loop }) => loop.forEach((p, i) => {
+      const q = loop[(i + 1) % loop.length];
+      segments.push(p[0], elevation, p[2], q[0], elevation, q[2]);
+    }));
+    return new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute(segments, 3));
+  }, [data.tower]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => levels.dispose(), [levels]);
+  return (
+    <>
+      <mesh geometry={geometry} castShadow receiveShadow>
+        <meshStandardMaterial color={data.color} transparent opacity={data.opacity} wireframe={data.wireframe} side={THREE.DoubleSide} />
+        {data.edges && <Edges threshold={15} color={data.edgeColor} />}
+      </mesh>
+      {data.edges && (
+        <lineSegments geometry={levels} raycast={() => null}>
+          <lineBasicMaterial color={data.edgeColor} transparent opacity={0.45} />
+        </lineSegments>
+      )}
+    </>
+  );
+};
+
+// --- SITES ---
+const VIOLATION_TINT = '#fca5a5';
+const ENVELOPE_COLOR = '#38bdf8';
+
+// Site boundary on the ground (front edge stronger), the setback line and the buildable envelope.
+// Only the ground fill takes clicks, so masses inside the envelope stay pickable.
+const SiteMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
+  const points = data.points || [];
+  const fill = useMemo(() => createFootprintShape(points), [points]);
+  const rings = useMemo(() => getEnvelopeRings(data), [data]);
+  const envelope = useMemo(() => rings ? buildEnvelopeGeometry(rings) : null, [rings]);
+  useEffect(() => () => envelope?.dispose(), [envelope]);
+  if (points.length < 3) return null;
+
+  const front = Math.min(data.zoning?.frontEdge ?? 0, points.length - 1);
+  const toVectors = (loop: [number, number, number][], y: number) => [...loop, loop[0]].map(p => new THREE.Vector3(p[0], y, p[2]));
+  return (
+    <>
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.005, 0]} receiveShadow>
+        <shapeGeometry args={[fill]} />
+        <meshStandardMaterial color={data.color} transparent opacity={data.opacity * 0.5} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+      {data.edges && <Line points={toVectors(points, 0.02)} color={data.edgeColor} lineWidth={1.5} />}
+      <Line points={[points[front], points[(front + 1) % points.length]].map(p => new THREE.Vector3(p[0], 0.03, p[2]))} color="#f59e0b" lineWidth={3} />
+      {rings && <Line points={toVectors(rings[0].loop, 0.02)} color={ENVELOPE_COLOR} lineWidth={1} dashed dashSize={0.5} gapSize={0.3} />}
+      {envelope && (
+        <mesh geometry={envelope} raycast={() => null} userData={{ noExport: true }}>
+          <meshStandardMaterial color={ENVELOPE_COLOR} transparent opacity={0.12} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      )}
+    </>
+  );
+};
+
+// The parts of masses outside their site's envelope, drawn over the masses (not exported)
+const ZoningViolations = () => {
+  const { shapes } = useStore();
+  const violations = getEnvelopeViolations(shapes);
+  return (
+    <>
+      {violations.map(v => <ViolationMesh key={v.shapeId} geometry={v.geometry} />)}
+    </>
+  );
+};
+
+// The outside part leaves the GPU once it is no longer drawn; if a cached check brings it back,
+// three uploads it again
+const ViolationMesh: React.FC<{ geometry: THREE.BufferGeometry }> = ({ geometry }) => {
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  return (
+    <mesh geometry={geometry} raycast={() => null} renderOrder={2}>
+      <meshBasicMaterial color="#ef4444" transparent opacity={0.65} side={THREE.DoubleSide} polygonOffset polygonOffsetFactor={-2} polygonOffsetUnits={-2} depthWrite={false} />
+    </mesh>
+  );
+};
+
+// --- ARRAY PREVIEW ---
+const ARRAY_PREVIEW_COLOR = '#2563eb';
+const BOX_EDGES = [[0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4], [0, 4], [1, 5], [2, 6], [3, 7]];
+
+// Outlines of what the array tool would make of the selection, with its path or centre.
+// Shapes without edges of their own (spheres, trees) show their bounding box.
+const ArrayPreview = () => {
+  const { arrayDraft, shapes, selectedIds, isDrawing } = useStore();
+  const outlines = useMemo(() => {
+    if (!arrayDraft) return null;
+    const sources = getSelectionRoots(shapes, selectedIds);
+    if (sources.length === 0) return null;
+    const index = indexShapes(shapes);
+    const edges: THREE.Vector3[] = [];
+    sources.forEach(source => getDescendantIds(source.id, shapes).forEach(id => {
+      const shape = index.get(id)!;
+      const features = getShapeFeatures(shape);
+      if (!features) return;
+      const matrix = getWorldMatrix(shape, index);
+      const corners = getBoxCorners(features.bounds);
+      const segments = features.edges.length > 0 ? features.edges : BOX_EDGES.map(([a, b]) => [corners[a], corners[b]]);
+      segments.forEach(([a, b]) => edges.push(a.clone().applyMatrix4(matrix), b.clone().applyMatrix4(matrix)));
+    }));
+
+    const transforms = getArrayTransforms(arrayDraft.settings, getArrayOrigin(sources.map(s => getWorldMatrix(s, index))));
+    const identity = new THREE.Matrix4();
+    const positions: number[] = [];
+    const p = new THREE.Vector3();
+    transforms.filter(t => !t.equals(identity)).forEach(t => edges.forEach(e => {
+      p.copy(e).applyMatrix4(t);
+      positions.push(p.x, p.y, p.z);
+    }));
+    return new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  }, [arrayDraft, shapes, selectedIds]);
+  useEffect(() => () => outlines?.dispose(), [outlines]);
+  if (!arrayDraft || isDrawing) return null;
+
+  const { mode, path, center } = arrayDraft.settings;
+  return (
+    <group>
+      {outlines && (
+        <lineSegments geometry={outlines} raycast={() => null} renderOrder={2}>
+          <lineBasicMaterial color={ARRAY_PREVIEW_COLOR} transparent opacity={0.7} depthTest={false} />
+        </lineSegments>
+      )}
+      {mode === 'path' && path && path.length >= 2 && (
+        <Line points={path.map(q => [q[0], 0.05, q[2]] as [number, number, number])} color={ARRAY_PREVIEW_COLOR} lineWidth={1.5} dashed dashSize={0.3} gapSize={0.2} />
+      )}
+      {mode === 'radial' && (
+        <mesh position={[center[0], center[1] + 0.05, center[2]]} raycast={() => null}>
+          <sphereGeometry args={[0.12]} />
+          <meshBasicMaterial color={ARRAY_PREVIEW_COLOR} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
 // --- RECURSIVE SHAPE MESH ---
 const ShapeMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
-  const { selectShape, transformMode, updateShape, setTransformMode, setIsDragging, snapshot, shapes } = useStore();
+  const { selectShape, transformMode, isDragging, setIsDragging, snapshot, shapes, setMeasurement, setEditingShape, pushPullFace, setPushPullFace, colorByAttribute } = useStore();
+  const { camera, gl } = useThree();
   const userData = useMemo(() => ({ isArchMass: true, shapeData: data }), [data]);
+
+  // Masses sticking out of their site's envelope show in red; colour-by-attribute replaces the
+  // shape's own colour while it is on
+  const violating = getEnvelopeViolations(shapes).some(v => v.shapeId === data.id);
+  const color = violating ? VIOLATION_TINT : colorByAttribute ? getAttributeColor(shapes, data, colorByAttribute) : data.color;
+  const shown = color === data.color ? data : { ...data, color };
   
   // Find children for grouping
   const children = shapes.filter(s => s.parentId === data.id);
@@ -229,15 +636,34 @@ const ShapeMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
     // Support Multi-selection with Ctrl/Shift
     const isMulti = e.ctrlKey || e.metaKey || e.shiftKey;
     
-    if (transformMode === 'pushpull') {
-      e.stopPropagation();
-      selectShape(data.id, false); // PushPull only works on single item
-      snapshot();
-      setIsDragging(true); 
-    } else {
-      e.stopPropagation();
-      selectShape(data.id, isMulti);
-    }
+    e.stopPropagation();
+    selectShape(data.id, isMulti && transformMode !== 'pushpull'); // PushPull only works on single item
+  };
+
+  // --- Push/Pull ---
+  const faceUnderPointer = (e: any) => {
+    const local = e.point.clone().applyMatrix4(getWorldMatrix(data, indexShapes(shapes)).invert());
+    return pickFace(data, local);
+  };
+
+  const handlePushPullHover = (e: any) => {
+    if (transformMode !== 'pushpull' || isDragging || !data.visible || data.locked) return;
+    e.stopPropagation();
+    const face = faceUnderPointer(e);
+    if (!isSameFace(face, pushPullFace)) setPushPullFace(face);
+  };
+
+  const handlePushPullStart = (e: any) => {
+    if (transformMode !== 'pushpull' || e.button !== 0 || !data.visible || data.locked) return;
+    const face = faceUnderPointer(e);
+    if (!face) return;
+    e.stopPropagation();
+    selectShape(data.id, false);
+    snapshot(`Push/Pull ${data.name}`);
+    setMeasurement({ kind: 'offset', value: formatLength(0), shapeId: data.id, start: data, face, historyId: useStore.getState().pendingHistory?.id });
+    setPushPullFace(face);
+    setIsDragging(true);
+    startPushPullDrag(data, face, e.nativeEvent, camera, gl.domElement);
   };
 
   const commonProps = {
@@ -248,6 +674,10 @@ const ShapeMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
       scale: data.scale,
       visible: data.visible,
       onClick: handlePointerDown,
+      onPointerDown: handlePushPullStart,
+      onPointerMove: handlePushPullHover,
+      onPointerOut: () => { if (!isDragging && pushPullFace?.shapeId === data.id) setPushPullFace(null); },
+      onDoubleClick: data.type === 'custom' || data.type === 'site' ? (e: any) => { e.stopPropagation(); setEditingShape(data.id); } : undefined,
   };
 
   if (data.type === 'group') {
@@ -258,13 +688,33 @@ const ShapeMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
       );
   }
 
+  // Operands are drawn as part of the result, not on their own
+  if (data.type === 'boolean') {
+      return (
+          <group {...commonProps}>
+              <BooleanMesh data={shown} />
+          </group>
+      );
+  }
+
+  if (data.type === 'site') {
+      return (
+          <group {...commonProps}>
+              <SiteMesh data={shown} />
+          </group>
+      );
+  }
+
   // --- Render Leaf Nodes ---
   return (
       <group {...commonProps}>
-          {data.type === 'tree' && <TreeMesh data={data} />}
+          {data.type === 'tree' && <TreeMesh data={shown} />}
           {data.type === 'image' && <ImageMesh data={data} />}
           {data.type === 'model' && <ModelMesh data={data} />}
-          {data.type === 'custom' && data.points && <CustomShapeMesh points={data.points} data={data} />}
+          {data.type === 'custom' && data.points && <CustomShapeMesh points={data.points} data={shown} />}
+          {data.type === 'tower' && <TowerMesh data={shown} />}
+          {data.floors && <FloorPlates data={data} />}
+          {data.facade && canHaveFacade(data) && <FacadeMesh data={shown} />}
           
           {['box','sphere','cylinder','cone','plane'].includes(data.type) && (
               <mesh castShadow={data.type !== 'plane'} receiveShadow>
@@ -273,7 +723,7 @@ const ShapeMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
                   {data.type === 'cylinder' && <cylinderGeometry args={[0.5, 0.5, 1, 32]} />}
                   {data.type === 'cone' && <coneGeometry args={[0.5, 1, 32]} />}
                   {data.type === 'plane' && <planeGeometry args={[1, 1]} />}
-                  <meshStandardMaterial color={data.color} transparent opacity={data.opacity} wireframe={data.wireframe} side={THREE.DoubleSide} />
+                  <meshStandardMaterial color={shown.color} transparent opacity={data.opacity} wireframe={data.wireframe} side={THREE.DoubleSide} />
                   {data.edges && <Edges threshold={15} color={data.edgeColor} />}
               </mesh>
           )}
@@ -283,34 +733,155 @@ const ShapeMesh: React.FC<{ data: ShapeData }> = ({ data }) => {
 
 // --- DRAWING PLANE ---
 const DrawingPlane = () => {
-    const { isDrawing, addDrawingPoint, drawingPoints, finishDrawing, snapEnabled, snapGrid } = useStore();
+    const { isDrawing, addDrawingPoint, drawingPoints, finishDrawing, snapEnabled, snapGrid, objectSnapEnabled, shapes, setSnapIndicator, setDrawingCursor, setMeasurement, drawingTool, drawingTarget, polygonSides } = useStore();
+    const { camera, size } = useThree();
     const [mousePos, setMousePos] = useState<[number, number, number] | null>(null);
+    const [arcEnd, setArcEnd] = useState<[number, number, number] | null>(null); // 3-point arc: end placed, waiting for the bulge
+    const [inference, setInference] = useState<Inference | null>(null);
+    const [lockedInference, setLockedInference] = useState<Inference | null>(null);
+
+    const snapTargets = useMemo(
+      () => isDrawing && objectSnapEnabled ? collectSnapTargets(shapes) : null,
+      [isDrawing, objectSnapEnabled, shapes]
+    );
     
     useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
         if (!isDrawing) return;
-        if (e.key === 'Enter') finishDrawing();
+        if (e.key === 'Enter' && PATH_TOOLS.includes(drawingTool)) finishDrawing();
         if (e.key === 'Escape') useStore.getState().cancelDrawing();
+        // Holding Shift keeps the current inference regardless of where the cursor goes
+        if (e.key === 'Shift' && inference && !lockedInference) setLockedInference(inference);
+      };
+      const handleKeyUp = (e: KeyboardEvent) => {
+        if (e.key === 'Shift') setLockedInference(null);
       };
       window.addEventListener('keydown', handleKeyDown);
-      return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [isDrawing, finishDrawing]);
+      window.addEventListener('keyup', handleKeyUp);
+      return () => {
+        window.removeEventListener('keydown', handleKeyDown);
+        window.removeEventListener('keyup', handleKeyUp);
+      };
+    }, [isDrawing, finishDrawing, inference, lockedInference, drawingTool]);
+
+    // A new segment starts from a new point, so forget inferences from the previous one
+    useEffect(() => {
+      setInference(null);
+      setLockedInference(null);
+      setArcEnd(null);
+    }, [drawingPoints.length, isDrawing, drawingTool]);
 
     if (!isDrawing) return null;
 
-    const handlePointerMove = (e: any) => {
-        let { x, y, z } = e.point;
+    // Object snap wins over grid snap; snapped 3D points are projected onto the ground.
+    // From the second point on, the result is constrained by the active (or Shift-locked) inference.
+    const resolvePoint = (e: any): [number, number] => {
+        let snapped: THREE.Vector2 | null = null;
+        if (snapTargets) {
+            const cursor = new THREE.Vector2((e.pointer.x * 0.5 + 0.5) * size.width, (-e.pointer.y * 0.5 + 0.5) * size.height);
+            const snap = findCursorSnap(snapTargets, e.ray, cursor, camera, size);
+            setSnapIndicator(snap);
+            if (snap) snapped = new THREE.Vector2(snap.point[0], snap.point[2]);
+        }
+
+        // Inference only helps where the next click ends a straight edge
+        const usesInference = drawingTool === 'polyline' || drawingTool === 'rotated-rectangle' || (drawingTool === 'arc' && !arcEnd);
+        const last = drawingPoints[drawingPoints.length - 1];
+        if (last && usesInference) {
+            const origin = new THREE.Vector2(last[0], last[2]);
+            const raw = snapped || new THREE.Vector2(e.point.x, e.point.z);
+            const active = lockedInference || (snapped ? null : findInference(origin, raw, collectReferenceEdges(drawingPoints, shapes, raw)));
+            setInference(active);
+            if (active) {
+                const p = projectOnInference(origin, raw, active, !snapped && snapEnabled ? snapGrid : 0);
+                return [p.x, p.y];
+            }
+        }
+
+        if (snapped) return [snapped.x, snapped.y];
+        let { x, z } = e.point;
         if (snapEnabled) { x = Math.round(x / snapGrid) * snapGrid; z = Math.round(z / snapGrid) * snapGrid; }
+        return [x, z];
+    };
+
+    const handlePointerMove = (e: any) => {
+        const [x, z] = resolvePoint(e);
         setMousePos([x, 0.05, z]);
+        setDrawingCursor([x, 0, z]);
+
+        const kind = TOOL_MEASUREMENTS[drawingTool];
+        const from = kind === 'length' ? drawingPoints[drawingPoints.length - 1] : drawingPoints[0];
+        if (!kind || !from) return;
+        const dx = Math.abs(x - from[0]);
+        const dz = Math.abs(z - from[2]);
+        setMeasurement({ kind, value: kind === 'size' ? `${formatLength(dx)}, ${formatLength(dz)}` : formatLength(Math.hypot(dx, dz)) });
     };
     const handleClick = (e: any) => {
         e.stopPropagation();
-        let { x, z } = e.point;
-        if (snapEnabled) { x = Math.round(x / snapGrid) * snapGrid; z = Math.round(z / snapGrid) * snapGrid; }
-        addDrawingPoint([x, 0, z]);
+        const [x, z] = resolvePoint(e);
+        const point: [number, number, number] = [x, 0, z];
+        const last = drawingPoints[drawingPoints.length - 1];
+        const prev = drawingPoints[drawingPoints.length - 2];
+
+        // A mirror line takes two clicks
+        if (drawingTarget === 'mirror') {
+            if (last) finishDrawing([last, point]);
+            else addDrawingPoint(point);
+            return;
+        }
+
+        const shapeClicks = SHAPE_TOOL_CLICKS[drawingTool];
+        if (shapeClicks) {
+            const clicks = [...drawingPoints, point];
+            if (clicks.length >= shapeClicks) finishDrawing(buildShapeOutline(drawingTool, clicks, polygonSides));
+            else addDrawingPoint(point);
+            return;
+        }
+
+        if (drawingTool === 'arc' && last) {
+            if (!arcEnd) setArcEnd(point);
+            else threePointArc(last, arcEnd, point).slice(1).forEach(addDrawingPoint);
+            return;
+        }
+        if (drawingTool === 'tangent-arc' && last && prev) {
+            tangentArc(last, [last[0] - prev[0], last[2] - prev[2]], point).slice(1).forEach(addDrawingPoint);
+            return;
+        }
+        addDrawingPoint(point);
     };
-    const linePoints = [...drawingPoints];
-    if (mousePos) linePoints.push(mousePos);
+
+    // Preview: the path plus the segment or arc under construction, or the shape tool's outline
+    const cursor: [number, number, number] | null = mousePos && [mousePos[0], 0, mousePos[2]];
+    const lift = (pts: [number, number, number][]) => pts.map(p => [p[0], 0.05, p[2]] as [number, number, number]);
+    let linePoints: [number, number, number][] = [...drawingPoints];
+    const previewPrev = drawingPoints[drawingPoints.length - 2];
+    const previewLast = drawingPoints[drawingPoints.length - 1];
+    if (cursor && SHAPE_TOOL_CLICKS[drawingTool]) {
+        const outline = buildShapeOutline(drawingTool, [...drawingPoints, cursor], polygonSides);
+        linePoints = outline.length >= 3 ? [...outline, outline[0]] : outline;
+    } else if (cursor && drawingTool === 'arc' && previewLast && arcEnd) {
+        linePoints.push(...threePointArc(previewLast, arcEnd, cursor).slice(1));
+    } else if (cursor && drawingTool === 'tangent-arc' && previewLast && previewPrev) {
+        linePoints.push(...tangentArc(previewLast, [previewLast[0] - previewPrev[0], previewLast[2] - previewPrev[2]], cursor).slice(1));
+    } else if (cursor) {
+        linePoints.push(cursor);
+    }
+    linePoints = lift(linePoints);
+
+    // Dotted guide through the last point along the inferred direction
+    const last = drawingPoints[drawingPoints.length - 1];
+    let guide: { points: [number, number, number][]; reference?: [number, number, number][] } | null = null;
+    if (inference && last && mousePos) {
+        const reach = Math.hypot(mousePos[0] - last[0], mousePos[2] - last[2]) + 5;
+        const { x: dx, y: dz } = inference.direction;
+        guide = {
+            points: [[last[0] - dx * reach, 0.05, last[2] - dz * reach], [last[0] + dx * reach, 0.05, last[2] + dz * reach]],
+            reference: inference.reference && [
+                [inference.reference.a.x, 0.05, inference.reference.a.y],
+                [inference.reference.b.x, 0.05, inference.reference.b.y]
+            ]
+        };
+    }
 
     return (
         <group>
@@ -318,12 +889,205 @@ const DrawingPlane = () => {
                 <planeGeometry args={[1000, 1000]} />
                 <meshBasicMaterial visible={false} />
             </mesh>
-            {linePoints.length > 0 && <Line points={linePoints} color="#2563eb" lineWidth={2} />}
+            {guide && inference && (
+                <>
+                    <Line points={guide.points} color={INFERENCE_COLORS[inference.kind]} lineWidth={lockedInference ? 2.5 : 1.5} dashed dashSize={0.2} gapSize={0.15} />
+                    {guide.reference && <Line points={guide.reference} color={INFERENCE_COLORS[inference.kind]} lineWidth={3} dashed dashSize={0.2} gapSize={0.15} />}
+                    {mousePos && (
+                        <Html position={mousePos} style={{ pointerEvents: 'none' }}>
+                            <span style={{ marginLeft: 12, whiteSpace: 'nowrap', fontSize: 10, fontWeight: 600, color: INFERENCE_COLORS[inference.kind], background: 'rgba(255, 255, 255, 0.85)', padding: '1px 4px', borderRadius: 3 }}>
+                                {INFERENCE_LABELS[inference.kind]}{lockedInference ? ' (Locked)' : ''}
+                            </span>
+                        </Html>
+                    )}
+                </>
+            )}
+            {linePoints.length > 1 && <Line points={linePoints} color="#2563eb" lineWidth={2} />}
+            {arcEnd && <mesh position={arcEnd}><sphereGeometry args={[0.08]} /><meshBasicMaterial color="#f59e0b" /></mesh>}
             {drawingPoints.map((p, i) => <mesh key={i} position={p}><sphereGeometry args={[0.08]} /><meshBasicMaterial color="#2563eb" /></mesh>)}
         </group>
     );
 };
 
+// --- SNAP MARKER ---
+const SnapMarker = () => {
+  const { snapIndicator } = useStore();
+  if (!snapIndicator) return null;
+  const color = SNAP_COLORS[snapIndicator.type];
+
+  return (
+    <Html position={snapIndicator.point} center style={{ pointerEvents: 'none' }}>
+      <div style={{ position: 'relative', width: 12, height: 12 }}>
+        <div style={{
+          width: 12,
+          height: 12,
+          border: `2px solid ${color}`,
+          borderRadius: snapIndicator.type === 'edge' || snapIndicator.type === 'midpoint' ? '50%' : 2,
+          background: 'rgba(255, 255, 255, 0.6)'
+        }} />
+        <span style={{
+          position: 'absolute',
+          left: 16,
+          top: -4,
+          whiteSpace: 'nowrap',
+          fontSize: 10,
+          fontWeight: 600,
+          color,
+          background: 'rgba(255, 255, 255, 0.85)',
+          padding: '1px 4px',
+          borderRadius: 3
+        }}>
+          {SNAP_LABELS[snapIndicator.type]}
+        </span>
+      </div>
+    </Html>
+  );
+};
+
+// --- VERTEX EDITOR ---
+// Screen-sized handles on the footprint (and courtyards) of the custom shape being edited. Vertices
+// drag in the shape's base plane; edge midpoints insert a vertex and drag it; double-click removes one.
+const VertexEditor = () => {
+  const {
+    editingShapeId, editingVertex, shapes, snapEnabled, snapGrid, objectSnapEnabled,
+    setEditingShape, setEditingVertex, moveVertex, insertVertex, deleteVertex, snapshot, setIsDragging, setSnapIndicator
+  } = useStore();
+  const { camera, gl, size } = useThree();
+  const [dragVertex, setDragVertex] = useState<VertexRef | null>(null);
+
+  const shape = shapes.find(s => s.id === editingShapeId);
+  const matrix = useMemo(() => shape ? getWorldMatrix(shape, indexShapes(shapes)) : null, [shape, shapes]);
+
+  // The shape went away (undo, delete), so there is nothing left to edit
+  useEffect(() => {
+    if (editingShapeId && (!shape || (shape.type !== 'custom' && shape.type !== 'site') || shape.locked)) setEditingShape(null);
+  }, [editingShapeId, shape, setEditingShape]);
+
+  useEffect(() => {
+    if (!editingShapeId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (document.activeElement?.tagName === 'INPUT') return;
+      if (e.key === 'Escape') setEditingShape(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editingShapeId, setEditingShape]);
+
+  useEffect(() => {
+    if (!dragVertex || !shape || !matrix) return;
+    const inverse = matrix.clone().invert();
+    const basePlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0).applyMatrix4(matrix);
+    const targets = objectSnapEnabled ? collectSnapTargets(shapes, new Set([shape.id])) : null;
+    const raycaster = new THREE.Raycaster();
+    const hit = new THREE.Vector3();
+
+    const handleMove = (e: PointerEvent) => {
+      const rect = gl.domElement.getBoundingClientRect();
+      const cursor = new THREE.Vector2(e.clientX - rect.left, e.clientY - rect.top);
+      raycaster.setFromCamera(new THREE.Vector2((cursor.x / rect.width) * 2 - 1, -(cursor.y / rect.height) * 2 + 1), camera);
+      if (!raycaster.ray.intersectPlane(basePlane, hit)) return;
+
+      const snap = targets ? findCursorSnap(targets, raycaster.ray, cursor, camera, size) : null;
+      setSnapIndicator(snap);
+      if (snap) {
+        basePlane.projectPoint(new THREE.Vector3(...snap.point), hit);
+      } else if (snapEnabled) {
+        // Round in world plan, then drop back onto the base plane
+        const down = new THREE.Ray(
+          new THREE.Vector3(Math.round(hit.x / snapGrid) * snapGrid, hit.y + 1000, Math.round(hit.z / snapGrid) * snapGrid),
+          new THREE.Vector3(0, -1, 0)
+        );
+        down.intersectPlane(basePlane, hit);
+      }
+
+      const local = hit.clone().applyMatrix4(inverse);
+      moveVertex(dragVertex, [local.x, 0, local.z]);
+    };
+    const handleUp = () => {
+      setDragVertex(null);
+      setIsDragging(false);
+      setSnapIndicator(null);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+    // Only rebind when a new drag starts; the shape itself changes on every move
+  }, [dragVertex]);
+
+  if (!shape?.points || !matrix) return null;
+
+  const loops = getFootprintLoops(shape);
+  const worldLoops = loops.map(loop => loop.map(p => new THREE.Vector3(p[0], 0, p[2]).applyMatrix4(matrix)));
+
+  const startDrag = (vertex: VertexRef) => {
+    setEditingVertex(vertex);
+    setIsDragging(true);
+    setDragVertex(vertex);
+  };
+
+  const handleStyle = (active: boolean, hole: boolean): React.CSSProperties => ({
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    border: `2px solid ${hole ? '#f59e0b' : '#2563eb'}`,
+    background: active ? (hole ? '#f59e0b' : '#2563eb') : '#ffffff',
+    cursor: 'move'
+  });
+
+  return (
+    <group>
+      {worldLoops.map((world, loop) => (
+        <React.Fragment key={`loop-${loop}`}>
+          <Line
+            points={[...world, world[0]].map(p => [p.x, p.y, p.z] as [number, number, number])}
+            color={loop === 0 ? '#2563eb' : '#f59e0b'}
+            lineWidth={2}
+            depthTest={false}
+            renderOrder={10}
+          />
+          {world.map((p, index) => (
+            <Html key={`v-${loop}-${index}`} position={p} center>
+              <div
+                style={handleStyle(editingVertex?.loop === loop && editingVertex.index === index, loop > 0)}
+                title={loop === 0 ? 'Drag to move, double-click to delete' : 'Courtyard vertex: drag to move, double-click to delete'}
+                onPointerDown={(e) => {
+                  if (e.button !== 0) return;
+                  e.stopPropagation();
+                  snapshot(`Move Vertex in ${shape.name}`);
+                  startDrag({ loop, index });
+                }}
+                onDoubleClick={(e) => { e.stopPropagation(); deleteVertex({ loop, index }); }}
+              />
+            </Html>
+          ))}
+          {world.map((p, index) => {
+            const mid = p.clone().lerp(world[(index + 1) % world.length], 0.5);
+            const a = loops[loop][index];
+            const b = loops[loop][(index + 1) % loops[loop].length];
+            return (
+              <Html key={`m-${loop}-${index}`} position={mid} center>
+                <div
+                  style={{ width: 8, height: 8, borderRadius: '50%', border: `2px solid ${loop === 0 ? '#2563eb' : '#f59e0b'}`, background: 'rgba(255, 255, 255, 0.6)', cursor: 'copy' }}
+                  title="Drag to insert a vertex"
+                  onPointerDown={(e) => {
+                    if (e.button !== 0) return;
+                    e.stopPropagation();
+                    insertVertex({ loop, index }, [(a[0] + b[0]) / 2, 0, (a[2] + b[2]) / 2]);
+                    startDrag({ loop, index: index + 1 });
+                  }}
+                />
+              </Html>
+            );
+          })}
+        </React.Fragment>
+      ))}
+    </group>
+  );
+};
+
 // --- BOX SELECTOR ---
 const BoxSelector = () => {
   const { transformMode, setSelection, shapes, setIsDragging } = useStore();
@@ -360,25 +1124,19 @@ const BoxSelector = () => {
 
        // Threshold to distinguish click from drag
        if (Math.abs(endX - startX) > 5 || Math.abs(endY - startY) > 5) {
+          // Shapes count where their origin is in the world, inside however many groups
+          const index = indexShapes(shapes);
           const newSelection: string[] = [];
-          
           shapes.forEach(shape => {
               if (!shape.visible || shape.locked) return;
-              const pos = new THREE.Vector3(...shape.position);
-              pos.project(camera); 
+              const pos = new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(shape, index));
+              pos.project(camera);
 
+              // Normalized device coordinates (-1 to 1) to CSS pixels; the canvas covers the
+              // viewport, so these compare with the pointer's client coordinates
               const x = (pos.x * 0.5 + 0.5) * size.width;
               const y = (-(pos.y * 0.5) + 0.5) * size.height;
 
-              // Check logic relies on client coordinates being relative to viewport top-left
-              // Assuming canvas covers full screen, e.clientX/Y match projected coordinates (inverted Y)
-              // We need to match the DOM event coordinates with projected coordinates
-              
-              // Project returns normalized device coordinates (-1 to 1)
-              // We convert to CSS pixels (0 to width, 0 to height)
-              
-              // e.clientX/Y are strictly relative to viewport.
-              
               if (x >= startX && x <= endX && y >= startY && y <= endY) {
                 newSelection.push(shape.id);
               }
@@ -427,17 +1185,100 @@ const BoxSelector = () => {
 };
 
 // --- CONTROLS ---
+const TRANSFORM_LABELS: Record<string, string> = { translate: 'Move', rotate: 'Rotate', scale: 'Scale' };
+const TRANSFORM_MEASUREMENTS: Record<string, MeasurementKind> = { translate: 'distance', rotate: 'angle', scale: 'scale' };
+
+// What a multi-selection drag started from: the gizmo's matrix (inverted) and each moving shape's
+// world matrix with the inverse of its parent's
+interface SelectionDrag {
+  pivot: THREE.Vector3;
+  startInverse: THREE.Matrix4;
+  items: { id: string; world: THREE.Matrix4; parentInverse: THREE.Matrix4 }[];
+}
+
+const objectMatrix = (o: THREE.Object3D) => new THREE.Matrix4().compose(o.position, o.quaternion, o.scale);
+
+// Gizmo for several shapes at once. It stands at the pivot; a drag moves, turns or scales every
+// selected shape (with what is inside it) about that point in the world.
+const SelectionControls = () => {
+  const { selectedIds, shapes, transformMode, snapEnabled, snapGrid, pivotMode, customPivot, snapshot, duplicateSelected, updateShapes, setMeasurement } = useStore();
+  const dragRef = useRef<SelectionDrag | null>(null);
+  // Remounted after each drag so the gizmo comes back square and at the pivot
+  const [generation, setGeneration] = useState(0);
+  const pivot = useMemo(
+    () => getSelectionPivot(shapes, selectedIds, pivotMode, customPivot),
+    [shapes, selectedIds, pivotMode, customPivot]
+  );
+  const movable = (list: ShapeData[], ids: string[]) => getSelectionRoots(list, ids).filter(s => s.visible && !s.locked);
+
+  if (movable(shapes, selectedIds).length === 0) return null;
+  // The pivot is held still while dragging: a turned selection has different bounds
+  const at = dragRef.current ? dragRef.current.pivot : pivot;
+
+  return (
+    <TransformControls
+      key={generation}
+      mode={transformMode as any}
+      translationSnap={snapEnabled ? snapGrid : undefined}
+      rotationSnap={snapEnabled ? Math.PI / 4 : undefined}
+      scaleSnap={snapEnabled ? 0.1 : undefined}
+      position={[at.x, at.y, at.z]}
+      onMouseDown={(e: any) => {
+         if (e?.altKey || (window.event as KeyboardEvent)?.altKey) {
+            duplicateSelected(false);
+         }
+         const state = useStore.getState();
+         const items = movable(state.shapes, state.selectedIds);
+         snapshot(`${TRANSFORM_LABELS[transformMode] || 'Transform'} ${items.length} objects`);
+         const index = indexShapes(state.shapes);
+         dragRef.current = {
+           pivot: pivot.clone(),
+           startInverse: e?.target?.object ? objectMatrix(e.target.object).invert() : new THREE.Matrix4(),
+           items: items.map(s => ({ id: s.id, world: getWorldMatrix(s, index), parentInverse: getParentWorldMatrix(s, index).invert() }))
+         };
+         setMeasurement(null);
+      }}
+      onMouseUp={() => {
+         dragRef.current = null;
+         setGeneration(g => g + 1);
+      }}
+      onObjectChange={(e: any) => {
+         const drag = dragRef.current;
+         if (!drag || !e?.target?.object) return;
+         const delta = objectMatrix(e.target.object).multiply(drag.startInverse);
+         const updates: ShapeUpdates = {};
+         drag.items.forEach(({ id, world, parentInverse }) => {
+           const local = parentInverse.clone().multiply(delta).multiply(world);
+           if (transformMode === 'translate') {
+             // Only the position: decomposing would rewrite rotations as equivalent but different angles
+             const position = new THREE.Vector3().setFromMatrixPosition(local);
+             updates[id] = { position: [position.x, position.y, position.z] };
+           } else {
+             updates[id] = getTransformFromMatrix(local);
+           }
+         });
+         updateShapes(updates);
+      }}
+    />
+  );
+};
+
 const Controls = () => {
-  const { selectedIds, updateShape, shapes, transformMode, snapEnabled, snapGrid, objectSnapEnabled, isDrawing, snapshot, duplicateSelected } = useStore();
+  const { selectedIds, updateShape, shapes, transformMode, snapEnabled, snapGrid, objectSnapEnabled, isDrawing, editingShapeId, snapshot, duplicateSelected, setSnapIndicator, setMeasurement } = useStore();
+  const { camera, size } = useThree();
+  const snapTargetsRef = useRef<SnapTargets | null>(null);
   
   // Hide controls in select mode
   if (transformMode === 'select') return null;
 
-  // Only show transformer if exactly one object (or group) is selected
+  if (selectedIds.length > 1) {
+    return isDrawing || editingShapeId || transformMode === 'pushpull' ? null : <SelectionControls />;
+  }
+
   const activeId = selectedIds.length === 1 ? selectedIds[0] : null;
   const activeShape = activeId ? shapes.find(s => s.id === activeId) : null;
 
-  if (isDrawing || !activeShape || !activeShape.visible || activeShape.locked) return null;
+  if (isDrawing || editingShapeId || !activeShape || !activeShape.visible || activeShape.locked) return null;
 
   return (
     <TransformControls
@@ -453,16 +1294,62 @@ const Controls = () => {
          if (e?.altKey || (window.event as KeyboardEvent)?.altKey) {
             duplicateSelected(false); // Duplicate in place
          }
-         snapshot();
+         // One history entry per drag; the gizmo updates the shape continuously until mouse up
+         snapshot(`${TRANSFORM_LABELS[transformMode] || 'Transform'} ${activeShape.name}`);
+         snapTargetsRef.current = objectSnapEnabled && transformMode === 'translate'
+           ? collectSnapTargets(shapes, getDescendantIds(activeShape.id, shapes))
+           : null;
+         // Remember where the drag started so a typed value can replace the dragged one
+         const state = useStore.getState();
+         const start = state.shapes.find(s => s.id === state.selectedIds[0]) || activeShape;
+         const kind = TRANSFORM_MEASUREMENTS[transformMode];
+         if (kind) {
+           setMeasurement({ kind, shapeId: start.id, start, historyId: state.pendingHistory?.id, ...measureTransform(kind, start, start) });
+         }
+      }}
+      onMouseUp={() => {
+         snapTargetsRef.current = null;
+         setSnapIndicator(null);
+         const { measurement, shapes: current } = useStore.getState();
+         const moved = measurement?.start && current.find(s => s.id === measurement.shapeId);
+         if (measurement?.start && moved) {
+           const result = measureTransform(measurement.kind, measurement.start, moved);
+           setMeasurement({ ...measurement, value: result.value, direction: result.direction || measurement.direction });
+         }
       }}
       onObjectChange={(e: any) => {
          if (e?.target?.object) {
            const o = e.target.object;
-           updateShape(activeShape.id, {
-             position: [o.position.x, o.position.y, o.position.z],
+           const position = new THREE.Vector3(o.position.x, o.position.y, o.position.z);
+
+           if (snapTargetsRef.current) {
+             // Snap the moved shape's own features (vertices, corners, face centers) onto the scene's
+             const moved: ShapeData = { ...activeShape, position: [position.x, position.y, position.z] };
+             const current = shapes.map(s => s.id === moved.id ? moved : s);
+             const movingIds = getDescendantIds(moved.id, current);
+             const moving = collectSnapTargets(current, new Set(current.filter(s => !movingIds.has(s.id)).map(s => s.id)));
+             const movingPoints = moving.points.filter(p => p.type !== 'midpoint').map(p => p.point);
+             const result = findMoveSnap(snapTargetsRef.current, movingPoints, camera, size);
+             setSnapIndicator(result ? result.snap : null);
+
+             if (result) {
+               const parentMatrix = getParentWorldMatrix(moved, indexShapes(current));
+               const world = position.clone().applyMatrix4(parentMatrix).add(result.offset);
+               position.copy(world.applyMatrix4(parentMatrix.clone().invert()));
+             }
+           }
+
+           const transform: Pick<ShapeData, 'position' | 'rotation' | 'scale'> = {
+             position: [position.x, position.y, position.z],
              rotation: [o.rotation.x, o.rotation.y, o.rotation.z],
              scale: [o.scale.x, o.scale.y, o.scale.z]
-           });
+           };
+           updateShape(activeShape.id, transform);
+
+           const { measurement } = useStore.getState();
+           if (measurement?.start && measurement.shapeId === activeShape.id) {
+             setMeasurement({ ...measurement, value: measureTransform(measurement.kind, measurement.start, transform).value });
+           }
          }
       }}
     />
@@ -472,7 +1359,7 @@ const Controls = () => {
 const SceneContent = () => {
   const { 
     shapes, selectedIds, backgroundColor, gridVisible, selectShape, isDrawing, 
-    gridSpacing, gridColor, gridSectionColor, sunSettings, exportRequested, transformMode, isDragging 
+    gridSpacing, gridColor, gridSectionColor, sunSettings, exportRequested, transformMode, isDragging, editingShapeId 
   } = useStore();
   const exportGroupRef = useRef<THREE.Group>(null);
 
@@ -490,10 +1377,11 @@ const SceneContent = () => {
            sunSettings
        };
 
+       // Guides (lines, zoning envelopes) and hidden objects stay out of the file
        const toRemove: THREE.Object3D[] = [];
        sceneClone.traverse((child) => {
            const c = child as any;
-           if (c.isLine || c.isLineSegments || !child.visible) toRemove.push(child);
+           if (c.isLine || c.isLineSegments || c.isLine2 || c.isLineSegments2 || c.userData.noExport || !child.visible) toRemove.push(child);
        });
        toRemove.forEach(c => c.parent?.remove(c));
        
@@ -519,6 +1407,7 @@ const SceneContent = () => {
   return (
     <>
       <CameraHandler />
+      <AutosaveHandler />
       <color attach="background" args={[backgroundColor]} />
       {!sunSettings.enabled && <directionalLight position={[10, 20, 10]} intensity={1.2} castShadow />}
       <SunPathDiagram />
@@ -528,10 +1417,15 @@ const SceneContent = () => {
       {gridVisible && <Grid infiniteGrid fadeDistance={60} cellColor={gridColor} sectionColor={gridSectionColor} cellSize={gridSpacing} sectionSize={gridSpacing * 5} />}
       <Environment preset="city" />
       <DrawingPlane />
+      <SnapMarker />
+      <VertexEditor />
+      <FaceHighlight />
+      <ZoningViolations />
+      <ArrayPreview />
       
       <BoxSelector />
 
-      <group ref={exportGroupRef} onPointerMissed={() => !isDrawing && transformMode !== 'select' && selectShape(null)}>
+      <group ref={exportGroupRef} onPointerMissed={() => !isDrawing && !editingShapeId && transformMode !== 'select' && selectShape(null)}>
         {shapes.filter(s => !s.parentId).map((shape) => (
           <ShapeMesh key={shape.id} data={shape} />
         ))}
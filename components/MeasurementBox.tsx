@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { MEASUREMENT_LABELS, MEASUREMENT_HINTS } from '../utils/measurement';
+import { Ruler } from 'lucide-react';
+
+// Keys that type a value without clicking into the box first. They only open the box while a
+// line is being drawn; otherwise it has to be open already (after a gizmo or push/pull drag, or
+// through OPEN_KEY), so the toolbar shortcuts keep working with a shape selected.
+const VALUE_KEY = /^[0-9.,;-]$/;
+const OPEN_KEY = 'Tab';
+
+export const MeasurementBox: React.FC = () => {
+  const { measurement, beginMeasurement, applyMeasurement } = useStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+  const focusRequested = useRef(false);
+
+  // Capture phase on document so the keystroke never reaches the toolbar shortcuts (1-4 add shapes)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const active = document.activeElement?.tagName;
+      if (active === 'INPUT' || active === 'TEXTAREA' || active === 'SELECT') return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const opening = e.key === OPEN_KEY;
+      if (!opening && !VALUE_KEY.test(e.key)) return;
+
+      const { isDrawing, drawingPoints } = useStore.getState();
+      if (opening || (isDrawing && drawingPoints.length > 0)) beginMeasurement();
+      if (!useStore.getState().measurement) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      // The box may only mount with this keystroke, so focus it after the next render
+      focusRequested.current = true;
+      setDraft(opening ? '' : e.key);
+      setInvalid(false);
+    };
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [beginMeasurement]);
+
+  useEffect(() => {
+    if (focusRequested.current && inputRef.current) {
+      focusRequested.current = false;
+      inputRef.current.focus();
+    }
+  });
+
+  // The operation being measured ended (new selection, tool change, drawing finished)
+  useEffect(() => {
+    if (!measurement) {
+      setDraft(null);
+      setInvalid(false);
+    }
+  }, [measurement]);
+
+  if (!measurement) return null;
+
+  const commit = () => {
+    if (draft === null) return;
+    if (applyMeasurement(draft)) {
+      setDraft(null);
+      setInvalid(false);
+      inputRef.current?.blur();
+    } else {
+      setInvalid(true);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep Enter/Escape away from the drawing and toolbar shortcuts
+    e.stopPropagation();
+    if (e.key === 'Enter') commit();
+    if (e.key === 'Escape') {
+      setDraft(null);
+      setInvalid(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="absolute bottom-6 left-4 z-20 flex items-center gap-2 p-1.5 pl-2.5 bg-white/95 backdrop-blur-xl rounded-xl border border-slate-200/60 shadow-lg">
+      <Ruler size={14} className="text-slate-400" />
+      <span className="text-[10px] font-bold text-slate-500 uppercase w-14">{MEASUREMENT_LABELS[measurement.kind]}</span>
+      <input
+        ref={inputRef}
+        type="text"
+        value={draft ?? measurement.value}
+        placeholder={MEASUREMENT_HINTS[measurement.kind]}
+        onFocus={() => { if (draft === null) setDraft(''); }}
+        onBlur={() => { setDraft(null); setInvalid(false); }}
+        onChange={(e) => { setDraft(e.target.value); setInvalid(false); }}
+        onKeyDown={handleKeyDown}
+        className={`w-32 h-7 px-2 text-xs font-mono rounded border bg-white focus:outline-none ${invalid ? 'border-red-400 text-red-600' : 'border-slate-200 text-slate-700 focus:border-blue-400'}`}
+        title={`Type ${MEASUREMENT_HINTS[measurement.kind]} and press Enter`}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../store';
+import { buildSchedule, getFloorAreaRatio, scheduleToCsv, AreaMetrics } from '../utils/metrics';
+import { downloadBlob } from '../utils/download';
+import { Sheet, Download, X } from 'lucide-react';
+
+const formatNumber = (value: number, digits = 1) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+const COLUMNS: { key: keyof AreaMetrics; label: string; title: string }[] = [
+  { key: 'floors', label: 'Fl', title: 'Floors (~ estimated at the default floor height)' },
+  { key: 'footprint', label: 'Footprint', title: 'Footprint area (m²)' },
+  { key: 'gfa', label: 'GFA', title: 'Gross floor area (m²)' },
+  { key: 'facade', label: 'Facade', title: 'Facade area (m²)' },
+  { key: 'volume', label: 'Volume', title: 'Volume (m³)' }
+];
+
+const MetricCells: React.FC<{ metrics: AreaMetrics }> = ({ metrics }) => (
+  <>
+    {COLUMNS.map(({ key }) => (
+      <td key={key} className="px-2 py-1 text-right font-mono tabular-nums">
+        {key === 'floors'
+          ? `${metrics.floorsEstimated ? '~' : ''}${metrics.floors}`
+          : formatNumber(metrics[key] as number, key === 'volume' ? 0 : 1)}
+      </td>
+    ))}
+  </>
+);
+
+// Area and volume schedule of the scene, per mass, per group and in total
+export const SchedulePanel: React.FC = () => {
+  const { schedulePanelOpen, setSchedulePanelOpen, shapes, selectedIds, selectShape, siteArea, setSiteArea } = useStore();
+  const schedule = useMemo(() => schedulePanelOpen ? buildSchedule(shapes) : null, [schedulePanelOpen, shapes]);
+
+  if (!schedulePanelOpen || !schedule) return null;
+
+  const far = getFloorAreaRatio(schedule.total.gfa, siteArea);
+
+  const handleExportCsv = () => {
+    downloadBlob(new Blob([scheduleToCsv(schedule, siteArea)], { type: 'text/csv' }), 'schedule.csv');
+  };
+
+  return (
+    <div className="absolute top-4 left-20 z-20 w-[460px] max-h-[60vh] flex flex-col bg-white/95 backdrop-blur-xl rounded-xl border border-slate-200/60 shadow-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-200 bg-slate-50">
+        <div className="flex items-center gap-2">
+          <Sheet size={14} className="text-slate-500" />
+          <span className="text-xs font-bold uppercase tracking-wider text-slate-700">Schedule</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={handleExportCsv} className="p-1 text-slate-400 hover:text-blue-600" title="Export CSV">
+            <Download size={14} />
+          </button>
+          <button onClick={() => setSchedulePanelOpen(false)} className="p-1 text-slate-400 hover:text-slate-700" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {schedule.rows.length === 0 ? (
+          <div className="p-4 text-center text-xs text-slate-400 italic">No masses in the scene</div>
+        ) : (
+          <table className="w-full text-[11px] text-slate-600">
+            <thead className="sticky top-0 bg-white text-[10px] font-bold text-slate-400 uppercase">
+              <tr>
+                <th className="px-3 py-1.5 text-left">Name</th>
+                {COLUMNS.map(c => <th key={c.key} className="px-2 py-1.5 text-right" title={c.title}>{c.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {schedule.rows.map(row => (
+                <tr
+                  key={row.id}
+                  onClick={(e) => selectShape(row.id, e.ctrlKey || e.metaKey || e.shiftKey)}
+                  className={`cursor-pointer border-t border-slate-100 ${selectedIds.includes(row.id) ? 'bg-blue-50 text-blue-700' : 'hover:bg-slate-50'} ${row.isGroup ? 'font-semibold' : ''}`}
+                >
+                  <td className="px-3 py-1 truncate max-w-[140px]" style={{ paddingLeft: `${row.depth * 12 + 12}px` }} title={row.name}>{row.name}</td>
+                  <MetricCells metrics={row.metrics} />
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="sticky bottom-0 bg-slate-50 font-bold text-slate-700">
+              <tr className="border-t border-slate-200">
+                <td className="px-3 py-1.5">Total</td>
+                <MetricCells metrics={schedule.total} />
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 px-4 py-2 border-t border-slate-200 bg-slate-50">
+        <label className="flex items-center gap-2 text-[11px] text-slate-500 font-medium">
+          Site area
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={siteArea || ''}
+            placeholder="m²"
+            onChange={(e) => setSiteArea(parseFloat(e.target.value) || 0)}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="w-24 h-6 px-1.5 text-[11px] font-mono text-right text-slate-700 bg-white rounded border border-slate-200 focus:outline-none focus:border-blue-400"
+          />
+          m²
+        </label>
+        <span className="text-[11px] text-slate-500" title="Floor-area ratio: total GFA over site area">
+          FAR <span className="font-mono font-bold text-slate-800">{far === null ? '–' : formatNumber(far, 2)}</span>
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../store';
+import { listSessions, loadSession, deleteSession, AutosaveSummary } from '../utils/autosave';
+import { readProjectFile } from '../utils/projectFile';
+import { History, Trash2, X } from 'lucide-react';
+
+const formatTimestamp = (time: number) => new Date(time).toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+export const SessionsDialog: React.FC = () => {
+  const { sessionsDialogOpen, setSessionsDialogOpen, sessionId, loadProject } = useStore();
+  const [sessions, setSessions] = useState<AutosaveSummary[]>([]);
+
+  // Offer recovery on startup when there is something to recover
+  useEffect(() => {
+    listSessions()
+      .then(list => { if (list.length > 0) setSessionsDialogOpen(true); })
+      .catch(err => console.warn('Autosave unavailable:', err));
+  }, [setSessionsDialogOpen]);
+
+  useEffect(() => {
+    if (!sessionsDialogOpen) return;
+    listSessions()
+      .then(list => setSessions(list.filter(s => s.id !== sessionId)))
+      .catch(err => console.error(err));
+  }, [sessionsDialogOpen, sessionId]);
+
+  if (!sessionsDialogOpen) return null;
+
+  const handleRestore = async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session) throw new Error('Session no longer exists.');
+      // Keep writing to the restored session instead of forking a new one
+      loadProject(readProjectFile(session.project), id);
+      setSessionsDialogOpen(false);
+    } catch (err) {
+      console.error("Error restoring session:", err);
+      alert(`Could not restore session: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setSessions(list => list.filter(s => s.id !== id));
+    } catch (err) {
+      console.error("Error deleting session:", err);
+      alert(`Could not delete session: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm pointer-events-auto">
+      <div className="w-[420px] max-h-[80vh] flex flex-col bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 bg-slate-50">
+          <div className="flex items-center gap-2">
+            <History size={14} className="text-slate-500" />
+            <span className="text-xs font-bold uppercase tracking-wider text-slate-700">Recover Session</span>
+          </div>
+          <button onClick={() => setSessionsDialogOpen(false)} className="p-1 text-slate-400 hover:text-slate-700" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {sessions.length === 0 ? (
+            <p className="text-center text-[11px] text-slate-400 py-8 italic">No autosaved sessions</p>
+          ) : sessions.map((session, i) => (
+            <div key={session.id} className="group flex items-center gap-3 p-2 rounded-lg hover:bg-slate-50 transition-colors">
+              <div className="w-20 h-12 flex-none rounded border border-slate-200 bg-slate-100 overflow-hidden">
+                {session.thumbnail && <img src={session.thumbnail} alt="" className="w-full h-full object-cover" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-semibold text-slate-700">
+                  {formatTimestamp(session.updatedAt)}
+                  {i === 0 && <span className="ml-2 text-[9px] font-bold uppercase text-blue-500">Latest</span>}
+                </p>
+                <p className="text-[10px] text-slate-400">{session.shapeCount} objects</p>
+              </div>
+              <button
+                onClick={() => handleDelete(session.id)}
+                className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Discard"
+              >
+                <Trash2 size={12} />
+              </button>
+              <button
+                onClick={() => handleRestore(session.id)}
+                className="px-2.5 py-1 text-[11px] font-semibold rounded bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end px-4 py-3 border-t border-slate-200">
+          <button
+            onClick={() => setSessionsDialogOpen(false)}
+            className="px-3 py-1.5 text-[11px] font-semibold rounded border border-slate-200 text-slate-600 hover:bg-slate-50"
+          >
+            Start Fresh
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,25 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { useStore } from '../store';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useStore, getHistoryEntries, getShapeHeight, canHoldShapes } from '../store';
 import { getDateFromDayOfYear, getSunPosition, toDeg, toRad } from '../utils/solar';
-import { ShapeData } from '../types';
+import { ShapeData, ShapeType, LayerPlacement, BooleanOperation, FloorSettings, ZoningSettings, TowerBase, TowerSettings, RoofSettings, RoofType, FacadeSettings, ArrayMode, ArraySettings } from '../types';
+import { BOOLEAN_LABELS } from '../utils/csg';
+import { canHaveFloors, clampFloorCount, fitFloors, getFloorsTotalHeight, DEFAULT_FLOOR_HEIGHT, MIN_FLOOR_HEIGHT } from '../utils/floors';
+import { formatLength } from '../utils/measurement';
+import { DEFAULT_ZONING, getEnvelopeRings, getEnvelopeViolations } from '../utils/zoning';
+import { planArea } from '../utils/drawing';
+import { RULE_DEFINITIONS, complianceToJson, parseComplianceJson } from '../utils/compliance';
+import { downloadBlob } from '../utils/download';
+import { OffsetJoin, OFFSET_JOIN_LABELS } from '../utils/offset';
+import { getDescendantIds, getSelectionRoots, offsetShapeFootprint } from '../utils/geometry';
+import { DEFAULT_TOWER, MAX_TOWER_FLOORS, TOWER_BASE_LABELS, getTowerFloors } from '../utils/tower';
+import { DEFAULT_ROOF, ROOF_TYPE_LABELS, getGableEdges, getRoofHeight } from '../utils/roof';
+import { DEFAULT_FACADE, ORIENTATIONS, canHaveFacade, getGlazingReport } from '../utils/facade';
+import { ARRAY_MODE_LABELS, getArrayItemCount } from '../utils/array';
+import { ALIGN_EDGE_LABELS, AlignEdge, AlignTarget, DistributeMode, PIVOT_MODE_LABELS, PivotMode, getSelectionPivot } from '../utils/arrange';
+import { PROGRAMMES, PROGRAMME_KEY, getAttributeKeys, getSharedAttribute, formatAttributeKey } from '../utils/attributes';
 import { 
-  Layers, Box, Settings, Eye, EyeOff, Lock, Unlock, Sun, ChevronDown, ChevronRight,
+  Layers, Box, Settings, Eye, EyeOff, Lock, Unlock, Sun, ChevronDown, ChevronRight, History, Spline, Ungroup, Building2, Plus, X, Tags, TriangleAlert, ShieldCheck, LandPlot, FileUp, FileDown, SquareSquare, Building, LayoutGrid, Grid3x3, Route, Search,
   type LucideIcon,
 } from 'lucide-react';
 
@@ -55,6 +70,11 @@ const PropertyRow: React.FC<PropertyRowProps> = ({ label, children }) => (
   </div>
 );
 
+// Small option buttons, blue while their option is chosen
+const toggleButtonClass = (active = false) => `h-6 rounded border text-[11px] font-medium transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+  active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600'
+}`;
+
 interface NumberInputProps {
   value: number;
   onChange: (v: number) => void;
@@ -124,14 +144,17 @@ interface ColorInputProps {
   value: string;
   onChange: (v: string) => void;
   onSnapshot: () => void;
+  mixed?: boolean; // Stands for shapes of different colors: the field starts empty
 }
 
-const ColorInput: React.FC<ColorInputProps> = ({ value, onChange, onSnapshot }) => {
-  const [localValue, setLocalValue] = useState(value);
+const MIXED_SWATCH = 'repeating-linear-gradient(45deg, #e2e8f0 0 4px, #ffffff 4px 8px)';
+
+const ColorInput: React.FC<ColorInputProps> = ({ value, onChange, onSnapshot, mixed = false }) => {
+  const [localValue, setLocalValue] = useState(mixed ? '' : value);
 
   useEffect(() => {
-    setLocalValue(value);
-  }, [value]);
+    setLocalValue(mixed ? '' : value);
+  }, [value, mixed]);
 
   const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setLocalValue(e.target.value);
@@ -149,15 +172,16 @@ const ColorInput: React.FC<ColorInputProps> = ({ value, onChange, onSnapshot })
       <input 
         type="text" 
         value={localValue}
-        onFocus={onSnapshot}
+        placeholder={mixed ? 'Mixed' : undefined}
+        onFocus={() => onSnapshot()}
         onChange={handleTextChange}
         onKeyDown={handleKeyDown}
         className="w-16 text-[10px] font-mono border border-slate-200 rounded px-1 py-0.5 text-slate-700 bg-white uppercase focus:border-blue-400 outline-none"
       />
       <div 
         className="relative w-6 h-6 rounded border border-slate-200 overflow-hidden shadow-sm hover:scale-105 transition-transform cursor-pointer"
-        style={{ backgroundColor: value }}
-        onPointerDown={onSnapshot}
+        style={{ background: mixed ? MIXED_SWATCH : value }}
+        onPointerDown={() => onSnapshot()}
       >
         <input 
           type="color" 
@@ -174,23 +198,54 @@ const ColorInput: React.FC<ColorInputProps> = ({ value, onChange, onSnapshot })
 };
 
 // --- RECURSIVE LAYER ITEM ---
+// The tree as shown: children by parent ('' for the top level) and, with a search or type filter,
+// the matches and the groups leading to them. `dragging` holds what is being dragged and
+// everything inside it, where nothing can be dropped.
+interface LayerTree {
+  children: Map<string, ShapeData[]>;
+  shown: Set<string> | null;
+  matches: Set<string> | null;
+  dragging: Set<string> | null;
+  dropAt: LayerDrop | null;
+  onDragStart: (ids: string[]) => void;
+  onDragOver: (drop: LayerDrop) => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+interface LayerDrop {
+  id: string | null; // null: the end of the top level
+  placement: LayerPlacement;
+}
+
+const DROP_CLASSES: Record<LayerPlacement, string> = {
+  before: 'shadow-[inset_0_2px_0_0_#3b82f6]',
+  after: 'shadow-[inset_0_-2px_0_0_#3b82f6]',
+  inside: 'ring-1 ring-inset ring-blue-400'
+};
+
 interface LayerItemProps {
   shape: ShapeData;
+  tree: LayerTree;
   depth?: number;
 }
 
-const LayerItem: React.FC<LayerItemProps> = ({ shape, depth = 0 }) => {
-  const { selectedIds, selectShape, toggleShapeVisibility, toggleShapeLock, shapes, updateShape, toggleGroupCollapse, snapshot } = useStore();
+const LayerItem: React.FC<LayerItemProps> = ({ shape, tree, depth = 0 }) => {
+  const { selectedIds, selectShape, toggleShapeVisibility, toggleShapeLock, updateShape, toggleGroupCollapse, snapshot } = useStore();
   const [isRenaming, setIsRenaming] = useState(false);
   const [nameVal, setNameVal] = useState(shape.name);
 
   const isSelected = selectedIds.includes(shape.id);
-  const isGroup = shape.type === 'group';
-  const children = shapes.filter(s => s.parentId === shape.id);
-  
+  const isGroup = shape.type === 'group' || shape.type === 'boolean';
+  const children = (tree.children.get(shape.id) || []).filter(s => !tree.shown || tree.shown.has(s.id));
+  // Filtering opens the groups on the way to a match; groups shown only for that are dimmed
+  const expanded = !shape.collapsed || !!tree.shown;
+  const dimmed = tree.matches && !tree.matches.has(shape.id);
+  const drop = tree.dropAt?.id === shape.id ? tree.dropAt.placement : null;
+
   const handleRename = () => {
      if (nameVal.trim() !== "") {
-        snapshot();
+        snapshot(`Rename ${shape.name}`);
         updateShape(shape.id, { name: nameVal });
      } else {
         setNameVal(shape.name);
@@ -207,14 +262,40 @@ const LayerItem: React.FC<LayerItemProps> = ({ shape, depth = 0 }) => {
      e.stopPropagation();
   };
 
+  // Dragging a selected item drags the whole selection
+  const handleDragStart = (e: React.DragEvent) => {
+     e.stopPropagation();
+     e.dataTransfer.effectAllowed = 'move';
+     e.dataTransfer.setData('text/plain', shape.name);
+     tree.onDragStart(isSelected ? selectedIds : [shape.id]);
+  };
+
+  // Near the top or bottom edge drops beside the item; over the middle of a group, into it
+  const handleDragOver = (e: React.DragEvent) => {
+     if (!tree.dragging || tree.dragging.has(shape.id)) return;
+     e.preventDefault();
+     e.stopPropagation();
+     const box = e.currentTarget.getBoundingClientRect();
+     const at = (e.clientY - box.top) / box.height;
+     const placement: LayerPlacement = canHoldShapes(shape)
+       ? (at < 0.25 ? 'before' : at > 0.75 ? 'after' : 'inside')
+       : (at < 0.5 ? 'before' : 'after');
+     if (drop !== placement) tree.onDragOver({ id: shape.id, placement });
+  };
+
   return (
     <>
       <div 
+        draggable={!isRenaming}
+        onDragStart={handleDragStart}
+        onDragOver={handleDragOver}
+        onDrop={(e) => { e.preventDefault(); e.stopPropagation(); tree.onDrop(); }}
+        onDragEnd={tree.onDragEnd}
         onClick={(e) => {
            e.stopPropagation();
            selectShape(shape.id, e.ctrlKey || e.metaKey || e.shiftKey);
         }}
-        className={`group flex items-center gap-2 pr-3 py-1.5 text-xs cursor-pointer select-none transition-colors border-l-2 ${isSelected ? 'bg-blue-50 text-blue-700 font-medium border-blue-500' : 'text-slate-600 hover:bg-slate-50 border-transparent'}`}
+        className={`group flex items-center gap-2 pr-3 py-1.5 text-xs cursor-pointer select-none transition-colors border-l-2 ${isSelected ? 'bg-blue-50 text-blue-700 font-medium border-blue-500' : 'text-slate-600 hover:bg-slate-50 border-transparent'} ${drop ? DROP_CLASSES[drop] : ''} ${tree.dragging?.has(shape.id) ? 'opacity-50' : ''}`}
         style={{ paddingLeft: `${depth * 16 + 12}px` }}
       >
         {/* Expand/Collapse for Groups */}
@@ -223,7 +304,7 @@ const LayerItem: React.FC<LayerItemProps> = ({ shape, depth = 0 }) => {
              onClick={(e) => { e.stopPropagation(); toggleGroupCollapse(shape.id); }}
              className="p-0.5 text-slate-400 hover:text-slate-600"
            >
-             {shape.collapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+             {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
            </button>
         ) : (
            <div className="w-4" /> 
@@ -244,7 +325,7 @@ const LayerItem: React.FC<LayerItemProps> = ({ shape, depth = 0 }) => {
         ) : (
            <span 
              onDoubleClick={(e) => { e.stopPropagation(); setIsRenaming(true); }}
-             className={`flex-1 truncate ${shape.locked ? 'opacity-70 italic' : ''}`}
+             className={`flex-1 truncate ${shape.locked ? 'opacity-70 italic' : ''} ${dimmed ? 'text-slate-400' : ''}`}
            >
              {shape.name}
            </span>
@@ -270,13 +351,1074 @@ const LayerItem: React.FC<LayerItemProps> = ({ shape, depth = 0 }) => {
       </div>
 
       {/* Render Children Recursively */}
-      {isGroup && !shape.collapsed && children.map(child => (
-         <LayerItem key={child.id} shape={child} depth={depth + 1} />
+      {isGroup && expanded && children.map(child => (
+         <LayerItem key={child.id} shape={child} tree={tree} depth={depth + 1} />
       ))}
     </>
   );
 };
 
+// --- LAYERS PANEL ---
+const LAYER_TYPE_LABELS: Record<ShapeType, string> = {
+  box: 'Box',
+  sphere: 'Sphere',
+  cylinder: 'Cylinder',
+  cone: 'Cone',
+  plane: 'Plane',
+  tree: 'Tree',
+  custom: 'Custom',
+  image: 'Image',
+  model: 'Model',
+  group: 'Group',
+  boolean: 'Boolean',
+  site: 'Site',
+  tower: 'Tower'
+};
+
+// The layer tree with a name search and type filters; items drag to reorder, onto a group to go
+// into it, or below the list to leave their group
+const LayersPanel: React.FC = () => {
+  const { shapes, moveLayers } = useStore();
+  const [query, setQuery] = useState('');
+  const [types, setTypes] = useState<ShapeType[]>([]);
+  const [dragIds, setDragIds] = useState<string[] | null>(null);
+  const [dropAt, setDropAt] = useState<LayerDrop | null>(null);
+
+  const presentTypes = useMemo(
+    () => (Object.keys(LAYER_TYPE_LABELS) as ShapeType[]).filter(type => shapes.some(s => s.type === type)),
+    [shapes]
+  );
+
+  const children = useMemo(() => {
+    const map = new Map<string, ShapeData[]>();
+    shapes.forEach(s => map.set(s.parentId || '', [...(map.get(s.parentId || '') || []), s]));
+    return map;
+  }, [shapes]);
+
+  const matches = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    if (!text && types.length === 0) return null;
+    return new Set(shapes
+      .filter(s => (!text || s.name.toLowerCase().includes(text)) && (types.length === 0 || types.includes(s.type)))
+      .map(s => s.id));
+  }, [shapes, query, types]);
+
+  const shown = useMemo(() => {
+    if (!matches) return null;
+    const index = new Map(shapes.map(s => [s.id, s]));
+    const ids = new Set<string>();
+    matches.forEach(id => {
+      for (let s = index.get(id); s && !ids.has(s.id); s = s.parentId ? index.get(s.parentId) : undefined) ids.add(s.id);
+    });
+    return ids;
+  }, [shapes, matches]);
+
+  const dragging = useMemo(() => {
+    if (!dragIds) return null;
+    const ids = new Set<string>();
+    dragIds.forEach(id => getDescendantIds(id, shapes).forEach(d => ids.add(d)));
+    return ids;
+  }, [shapes, dragIds]);
+
+  const endDrag = () => {
+    setDragIds(null);
+    setDropAt(null);
+  };
+
+  const tree: LayerTree = {
+    children,
+    shown,
+    matches,
+    dragging,
+    dropAt,
+    onDragStart: setDragIds,
+    onDragOver: setDropAt,
+    onDrop: () => {
+      if (dragIds && dropAt) moveLayers(dragIds, dropAt.id, dropAt.placement);
+      endDrag();
+    },
+    onDragEnd: endDrag
+  };
+
+  const toggleType = (type: ShapeType) =>
+    setTypes(types.includes(type) ? types.filter(t => t !== type) : [...types, type]);
+
+  const roots = (children.get('') || []).filter(s => !shown || shown.has(s.id));
+
+  return (
+    <div className="p-1">
+      {shapes.length === 0 ? (
+        <p className="text-center text-[10px] text-slate-400 mt-4 italic">Empty scene</p>
+      ) : (
+        <>
+          <div className="px-2 pt-1 pb-2 space-y-1.5">
+            <div className="flex items-center gap-1 bg-white border border-slate-200 rounded px-1.5 focus-within:border-blue-400">
+              <Search size={12} className="text-slate-400 shrink-0" />
+              <input
+                type="text"
+                value={query}
+                placeholder="Search layers"
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') setQuery(''); e.stopPropagation(); }}
+                className="flex-1 min-w-0 bg-transparent text-[11px] py-1 outline-none text-slate-700"
+              />
+              {query && (
+                <button onClick={() => setQuery('')} className="text-slate-400 hover:text-slate-600" title="Clear search">
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+            {presentTypes.length > 1 && (
+              <div className="flex flex-wrap gap-1">
+                {presentTypes.map(type => (
+                  <button
+                    key={type}
+                    onClick={() => toggleType(type)}
+                    className={`px-1.5 h-5 rounded border text-[10px] font-medium transition-colors ${
+                      types.includes(type) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-blue-400 hover:text-blue-600'
+                    }`}
+                  >
+                    {LAYER_TYPE_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+            )}
+            {matches && <p className="text-[10px] text-slate-400">{matches.size} of {shapes.length} shown</p>}
+          </div>
+
+          <div className="space-y-[1px]">
+            {/* Only render top-level items here; recursion handles the rest */}
+            {roots.map(shape => (
+              <LayerItem key={shape.id} shape={shape} tree={tree} />
+            ))}
+          </div>
+
+          {/* Dropping below the list takes items out of their groups */}
+          <div
+            onDragOver={(e) => {
+              if (!dragging) return;
+              e.preventDefault();
+              if (dropAt?.id !== null) setDropAt({ id: null, placement: 'inside' });
+            }}
+            onDrop={(e) => { e.preventDefault(); tree.onDrop(); }}
+            className={`h-8 rounded ${dragging && dropAt?.id === null ? 'shadow-[inset_0_2px_0_0_#3b82f6]' : ''}`}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+// --- HISTORY PANEL ---
+const formatTime = (time: number) => new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC = () => {
+  const jumpToHistory = useStore(state => state.jumpToHistory);
+  const { entries, index } = useStore(getHistoryEntries);
+
+  const rowClass = (active: boolean, undone: boolean) =>
+    `w-full flex items-center justify-between gap-2 px-4 py-1 text-left text-[11px] transition-colors border-l-2 ${
+      active ? 'bg-blue-50 text-blue-700 font-medium border-blue-500' : `border-transparent hover:bg-slate-50 ${undone ? 'text-slate-300 italic' : 'text-slate-600'}`
+    }`;
+
+  return (
+    <div className="max-h-48 overflow-y-auto custom-scrollbar">
+      <button onClick={() => jumpToHistory(0)} className={rowClass(index === 0, false)}>
+        <span className="truncate">Initial state</span>
+      </button>
+      {entries.map((entry, i) => (
+        <button key={entry.id} onClick={() => jumpToHistory(i + 1)} className={rowClass(index === i + 1, i >= index)}>
+          <span className="truncate">{entry.label}</span>
+          <span className="text-[9px] text-slate-400 flex-none">{formatTime(entry.timestamp)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// --- TOWER PANEL ---
+// Parameters of a tower; every edit regenerates it
+const TowerPanel: React.FC<{ shape: ShapeData }> = ({ shape }) => {
+  const { updateShape, snapshot } = useStore();
+  const tower = shape.tower || DEFAULT_TOWER;
+  const floors = getTowerFloors(tower);
+  const height = floors.reduce((sum, f) => sum + f.height, 0) * shape.scale[1];
+
+  const onSnapshot = () => snapshot(`Change tower ${shape.name}`);
+  const update = (changes: Partial<TowerSettings>) => updateShape(shape.id, { tower: { ...tower, ...changes } });
+  const updateSetback = (i: number, changes: Partial<TowerSettings['setbacks'][number]>) =>
+    update({ setbacks: tower.setbacks.map((s, j) => j === i ? { ...s, ...changes } : s) });
+
+  return (
+    <div className="px-4 mb-3">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-bold text-slate-400 uppercase">Tower</span>
+        <span className="text-[10px] text-slate-500">
+          <span className="font-mono font-semibold text-slate-700">{formatLength(height)}</span>, {floors.length} floors
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1.5 mb-1.5">
+        {(Object.keys(TOWER_BASE_LABELS) as TowerBase[]).map(base => (
+          <button
+            key={base}
+            onClick={() => { if (tower.base !== base) { onSnapshot(); update({ base }); } }}
+            disabled={base === 'footprint' && !tower.outline}
+            className={toggleButtonClass(tower.base === base)}
+            title={base === 'footprint' && !tower.outline ? 'Make a tower from a drawn surface to use its footprint' : undefined}
+          >
+            {TOWER_BASE_LABELS[base]}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-1.5">
+        {tower.base !== 'footprint' && (
+          <>
+            <NumberInput label="W" value={tower.width} onSnapshot={onSnapshot} onChange={(v) => update({ width: Math.max(0.1, v) })} />
+            <NumberInput label="D" value={tower.depth} onSnapshot={onSnapshot} onChange={(v) => update({ depth: Math.max(0.1, v) })} />
+          </>
+        )}
+        <NumberInput label="Floors" step="1" value={tower.floorCount} onSnapshot={onSnapshot} onChange={(v) => update({ floorCount: Math.min(MAX_TOWER_FLOORS, Math.max(1, Math.round(v))) })} />
+        <NumberInput label="F-F" value={tower.floorHeight} onSnapshot={onSnapshot} onChange={(v) => update({ floorHeight: Math.max(MIN_FLOOR_HEIGHT, v) })} />
+        <NumberInput label="Top %" step="5" value={tower.taper * 100} onSnapshot={onSnapshot} onChange={(v) => update({ taper: Math.max(0, v) / 100 })} />
+        <NumberInput label="Twist°" value={tower.twist} onSnapshot={onSnapshot} onChange={(v) => update({ twist: v })} />
+      </div>
+
+      {/* Setbacks: from a floor up the footprint steps in */}
+      {tower.setbacks.map((setback, i) => (
+        <div key={i} className="flex items-center gap-1.5 mt-1.5">
+          <NumberInput label="From" step="1" value={setback.floor} onSnapshot={onSnapshot} onChange={(v) => updateSetback(i, { floor: Math.max(1, Math.round(v)) })} />
+          <NumberInput label="Inset" value={setback.inset} onSnapshot={onSnapshot} onChange={(v) => updateSetback(i, { inset: Math.max(0, v) })} />
+          <button
+            onClick={() => { onSnapshot(); update({ setbacks: tower.setbacks.filter((_, j) => j !== i) }); }}
+            className="p-0.5 text-slate-400 hover:text-red-500"
+            title="Remove setback"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => {
+          onSnapshot();
+          const last = tower.setbacks.reduce((max, s) => Math.max(max, s.floor), 0);
+          update({ setbacks: [...tower.setbacks, { floor: Math.min(tower.floorCount - 1, last + Math.max(1, Math.floor(tower.floorCount / 3))), inset: 2 }] });
+        }}
+        className="mt-2 w-full h-7 flex items-center justify-center gap-1 rounded border text-[11px] font-medium bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+        title="Step the footprint in from a given floor up"
+      >
+        <Plus size={12} />
+        Setback
+      </button>
+      {floors.length < tower.floorCount && (
+        <p className="mt-1 text-[11px] text-red-600">Nothing is left of the tower above level {floors.length}.</p>
+      )}
+    </div>
+  );
+};
+
+// --- ROOF PANEL ---
+// Gable ends can be picked by hand on footprints with few enough edges to list
+const MAX_GABLE_EDGE_BUTTONS = 24;
+
+const RoofPanel: React.FC<{ shape: ShapeData }> = ({ shape }) => {
+  const { updateShape, snapshot } = useStore();
+  const roof = shape.roof || DEFAULT_ROOF;
+  const edgeCount = shape.points?.length || 0;
+  const height = useMemo(() => getRoofHeight(shape) * shape.scale[1], [shape]);
+  const gables = useMemo(() => roof.type === 'gable' ? getGableEdges(shape) : [], [shape, roof.type]);
+
+  const onSnapshot = () => snapshot(`Change roof of ${shape.name}`);
+  const update = (changes: Partial<RoofSettings>) => updateShape(shape.id, { roof: { ...roof, ...changes } });
+  const toggleGable = (edge: number) => {
+    onSnapshot();
+    update({ gableEdges: gables.includes(edge) ? gables.filter(e => e !== edge) : [...gables, edge].sort((a, b) => a - b) });
+  };
+
+  return (
+    <div className="px-4 mb-3">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-bold text-slate-400 uppercase">Roof</span>
+        {roof.type !== 'flat' && (
+          <span className="text-[10px] text-slate-500">
+            Ridge <span className="font-mono font-semibold text-slate-700">+{formatLength(height)}</span>
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-1.5 mb-1.5">
+        {(Object.keys(ROOF_TYPE_LABELS) as RoofType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => { if (roof.type !== type) { onSnapshot(); update({ type }); } }}
+            className={toggleButtonClass(roof.type === type)}
+          >
+            {ROOF_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+      {roof.type !== 'flat' && (
+        <div className="grid grid-cols-2 gap-1.5">
+          <NumberInput label="Pitch°" value={roof.pitch} onSnapshot={onSnapshot} onChange={(v) => update({ pitch: Math.min(89, Math.max(1, v)) })} />
+          <NumberInput label="Eaves" value={roof.overhang} onSnapshot={onSnapshot} onChange={(v) => update({ overhang: Math.max(0, v) })} />
+          {roof.type === 'shed' && (
+            <NumberInput
+              label="Low Edge"
+              step="1"
+              value={roof.shedEdge + 1}
+              onSnapshot={onSnapshot}
+              onChange={(v) => update({ shedEdge: Math.min(edgeCount, Math.max(1, Math.round(v))) - 1 })}
+            />
+          )}
+          {roof.type === 'mansard' && (
+            <>
+              <NumberInput label="Break" value={roof.mansardBreak} onSnapshot={onSnapshot} onChange={(v) => update({ mansardBreak: Math.max(0.1, v) })} />
+              <NumberInput label="Upper°" value={roof.mansardPitch} onSnapshot={onSnapshot} onChange={(v) => update({ mansardPitch: Math.min(89, Math.max(1, v)) })} />
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Gable ends: picked from the footprint until set by hand */}
+      {roof.type === 'gable' && (
+        <div className="mt-1.5">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[10px] text-slate-500">Gable ends</span>
+            <button
+              onClick={() => { onSnapshot(); update({ gableEdges: undefined }); }}
+              disabled={!roof.gableEdges}
+              className="text-[10px] text-blue-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+              title="Pick the gable ends from the footprint"
+            >
+              {roof.gableEdges ? 'Reset to auto' : 'Auto'}
+            </button>
+          </div>
+          {edgeCount <= MAX_GABLE_EDGE_BUTTONS && (
+            <div className="flex flex-wrap gap-1">
+              {Array.from({ length: edgeCount }, (_, edge) => (
+                <button key={edge} onClick={() => toggleGable(edge)} className={`w-6 ${toggleButtonClass(gables.includes(edge))}`} title={`Edge ${edge + 1}`}>
+                  {edge + 1}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- FACADE PANEL ---
+const FacadePanel: React.FC<{ shape: ShapeData }> = ({ shape }) => {
+  const { shapes, updateShape, snapshot } = useStore();
+  const facade = shape.facade;
+  const report = useMemo(() => getGlazingReport(shape, shapes), [shape, shapes]);
+  const glazed = ORIENTATIONS.reduce((sum, o) => sum + report.areas[o], 0);
+
+  const onSnapshot = () => snapshot(`Change facade of ${shape.name}`);
+  const update = (changes: Partial<FacadeSettings>) => updateShape(shape.id, { facade: { ...facade!, ...changes } });
+
+  return (
+    <div className="px-4 mb-3">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-bold text-slate-400 uppercase">Facade</span>
+        {facade && report.wallArea > 0 && (
+          <span className="text-[10px] text-slate-500">
+            Glazed <span className="font-mono font-semibold text-slate-700">{Math.round(glazed / report.wallArea * 100)}%</span>
+          </span>
+        )}
+      </div>
+      {facade ? (
+        <>
+          <div className="grid grid-cols-2 gap-1.5">
+            <NumberInput label="WWR %" step="5" value={facade.windowToWall * 100} onSnapshot={onSnapshot} onChange={(v) => update({ windowToWall: Math.min(100, Math.max(0, v)) / 100 })} />
+            <NumberInput label="Bay" value={facade.bayWidth} onSnapshot={onSnapshot} onChange={(v) => update({ bayWidth: Math.max(0.5, v) })} />
+            <NumberInput label="Sill" value={facade.sillHeight} onSnapshot={onSnapshot} onChange={(v) => update({ sillHeight: Math.max(0, v) })} />
+            <NumberInput label="Mullion" value={facade.mullionDepth} onSnapshot={onSnapshot} onChange={(v) => update({ mullionDepth: Math.max(0, v) })} />
+            <NumberInput label="F-F" value={facade.floorHeight} onSnapshot={onSnapshot} onChange={(v) => update({ floorHeight: Math.max(MIN_FLOOR_HEIGHT, v) })} />
+          </div>
+
+          {/* Glass area by the way the walls face */}
+          <div className="grid grid-cols-4 gap-1 mt-2">
+            {ORIENTATIONS.map(o => (
+              <div key={o} className="flex flex-col items-center rounded bg-slate-50 py-1" title={`Glazing facing ${o}`}>
+                <span className="text-[10px] font-bold text-slate-400">{o}</span>
+                <span className="text-[11px] font-mono font-semibold text-slate-700">{report.areas[o].toFixed(1)}</span>
+              </div>
+            ))}
+          </div>
+          <p className="mt-1 text-[10px] text-slate-400 text-right">m² of glazing, {glazed.toFixed(1)} m² in all</p>
+
+          <button
+            onClick={() => { onSnapshot(); updateShape(shape.id, { facade: undefined }); }}
+            className="mt-2 w-full h-7 flex items-center justify-center gap-1 rounded border text-[11px] font-medium bg-white border-slate-200 text-slate-600 hover:border-red-300 hover:text-red-500 transition-colors"
+            title="Show plain walls"
+          >
+            <X size={12} />
+            Remove
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={() => {
+            onSnapshot();
+            updateShape(shape.id, { facade: { ...DEFAULT_FACADE, floorHeight: shape.floors?.height || DEFAULT_FACADE.floorHeight } });
+          }}
+          className="w-full h-7 flex items-center justify-center gap-1.5 rounded border text-[11px] font-medium bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+          title="Put windows on every wall, storey by storey"
+        >
+          <LayoutGrid size={12} />
+          Add Facade
+        </button>
+      )}
+    </div>
+  );
+};
+
+// --- OFFSET PANEL ---
+// Parallel copies of a footprint or site boundary: setbacks, balconies, podium overhangs
+const OffsetPanel: React.FC<{ shape: ShapeData }> = ({ shape }) => {
+  const { offsetSelected } = useStore();
+  const [inward, setInward] = useState(shape.type === 'site');
+  const [distance, setDistance] = useState(shape.type === 'site' ? 3 : 1);
+  const [join, setJoin] = useState<OffsetJoin>('miter');
+  const signed = inward ? -distance : distance;
+  const pieces = useMemo(() => offsetShapeFootprint(shape, signed, join).length, [shape, signed, join]);
+
+  return (
+    <div className="border-t border-slate-100 mt-2 pt-2 mb-2">
+      <span className="px-4 text-[10px] font-bold text-slate-400 uppercase mb-1 block">Offset</span>
+      <div className="px-4 py-1 flex gap-1.5">
+        <button onClick={() => setInward(true)} className={`flex-1 ${toggleButtonClass(inward)}`}>Inward</button>
+        <button onClick={() => setInward(false)} className={`flex-1 ${toggleButtonClass(!inward)}`}>Outward</button>
+      </div>
+      <PropertyRow label="Distance">
+        <NumberInput value={distance} onChange={(v) => setDistance(Math.abs(v))} />
+      </PropertyRow>
+      <PropertyRow label="Corners">
+        <div className="flex gap-1.5 w-28">
+          {(Object.keys(OFFSET_JOIN_LABELS) as OffsetJoin[]).map(j => (
+            <button key={j} onClick={() => setJoin(j)} className={`flex-1 ${toggleButtonClass(join === j)}`}>{OFFSET_JOIN_LABELS[j]}</button>
+          ))}
+        </div>
+      </PropertyRow>
+      <div className="px-4 mt-1">
+        <button
+          onClick={() => offsetSelected(signed, join)}
+          disabled={pieces === 0 || distance === 0}
+          className="w-full h-7 flex items-center justify-center gap-1.5 rounded border border-slate-200 bg-white text-[11px] font-medium text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          title="Create the offset as a new footprint"
+        >
+          <SquareSquare size={12} />
+          {pieces > 1 ? `Create ${pieces} Offsets` : 'Create Offset'}
+        </button>
+        {pieces === 0 && <p className="mt-1 text-[11px] text-red-600">Nothing is left at this distance.</p>}
+      </div>
+    </div>
+  );
+};
+
+// --- ARRAY ---
+const pathLength = (path: [number, number, number][]) =>
+  path.slice(1).reduce((sum, p, i) => sum + Math.hypot(p[0] - path[i][0], p[2] - path[i][2]), 0);
+
+// Count and spacing of an array, shared by the array tool and array groups
+const ArrayLayoutFields: React.FC<{ settings: ArraySettings; onChange: (changes: Partial<ArraySettings>) => void; onSnapshot?: () => void }> = ({ settings, onChange, onSnapshot }) => {
+  const { mode, spacing } = settings;
+  const setSpacing = (axis: number, value: number) => onChange({ spacing: spacing.map((s, i) => i === axis ? value : s) as [number, number, number] });
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-1.5">
+        <NumberInput label={mode === 'grid' ? 'Cols' : 'Count'} step="1" value={settings.count} onSnapshot={onSnapshot} onChange={(v) => onChange({ count: Math.max(1, Math.round(v)) })} />
+        {mode === 'grid' && <NumberInput label="Rows" step="1" value={settings.rows} onSnapshot={onSnapshot} onChange={(v) => onChange({ rows: Math.max(1, Math.round(v)) })} />}
+        {mode === 'radial' && <NumberInput label="Angle°" step="15" value={settings.angle} onSnapshot={onSnapshot} onChange={(v) => onChange({ angle: Math.min(360, Math.max(-360, v)) })} />}
+      </div>
+      {mode === 'linear' && (
+        <div className="grid grid-cols-3 gap-1.5 mt-1.5">
+          {['X', 'Y', 'Z'].map((axis, i) => (
+            <NumberInput key={axis} label={axis} value={spacing[i]} onSnapshot={onSnapshot} onChange={(v) => setSpacing(i, v)} />
+          ))}
+        </div>
+      )}
+      {mode === 'grid' && (
+        <div className="grid grid-cols-2 gap-1.5 mt-1.5">
+          <NumberInput label="X" value={spacing[0]} onSnapshot={onSnapshot} onChange={(v) => setSpacing(0, v)} />
+          <NumberInput label="Z" value={spacing[2]} onSnapshot={onSnapshot} onChange={(v) => setSpacing(2, v)} />
+        </div>
+      )}
+      {(mode === 'radial' || mode === 'path') && (
+        <label className="flex items-center justify-between mt-1.5 text-[11px] text-slate-500 font-medium">
+          {mode === 'radial' ? 'Turn items round the centre' : 'Turn items with the path'}
+          <input type="checkbox" checked={settings.rotateItems} onChange={(e) => { onSnapshot?.(); onChange({ rotateItems: e.target.checked }); }} className="accent-blue-600 h-3.5 w-3.5" />
+        </label>
+      )}
+    </>
+  );
+};
+
+// Array tool: copies of the selection laid out as previewed in the viewport
+const ArrayToolPanel: React.FC = () => {
+  const { shapes, selectedIds, arrayDraft, setArrayDraft, createArray, setIsDrawing, isDrawing, drawingTarget } = useStore();
+  if (!arrayDraft) return null;
+  const { settings, parametric } = arrayDraft;
+  const sources = getSelectionRoots(shapes, selectedIds);
+  const items = getArrayItemCount(settings);
+  const update = (changes: Partial<ArraySettings>) => setArrayDraft({ ...arrayDraft, settings: { ...settings, ...changes } });
+  // A grid without a row step would stack its rows; start it square
+  const setMode = (mode: ArrayMode) =>
+    update(mode === 'grid' && settings.spacing[2] === 0 ? { mode, spacing: [settings.spacing[0], 0, settings.spacing[0]] } : { mode });
+  const needsPath = settings.mode === 'path' && !settings.path;
+  const drawingPath = isDrawing && drawingTarget === 'path';
+
+  return (
+    <div className="px-4 py-2">
+      <div className="grid grid-cols-4 gap-1 mb-2">
+        {(Object.keys(ARRAY_MODE_LABELS) as ArrayMode[]).map(mode => (
+          <button key={mode} onClick={() => setMode(mode)} className={toggleButtonClass(settings.mode === mode)}>{ARRAY_MODE_LABELS[mode]}</button>
+        ))}
+      </div>
+      <ArrayLayoutFields settings={settings} onChange={update} />
+
+      {settings.mode === 'radial' && (
+        <div className="grid grid-cols-2 gap-1.5 mt-1.5">
+          <NumberInput label="Cx" value={settings.center[0]} onChange={(v) => update({ center: [v, settings.center[1], settings.center[2]] })} />
+          <NumberInput label="Cz" value={settings.center[2]} onChange={(v) => update({ center: [settings.center[0], settings.center[1], v] })} />
+        </div>
+      )}
+      {settings.mode === 'path' && (
+        <div className="mt-1.5">
+          <button
+            onClick={() => setIsDrawing(!drawingPath, 'path')}
+            disabled={sources.length === 0}
+            className={`w-full flex items-center justify-center gap-1.5 ${toggleButtonClass(drawingPath)}`}
+            title="Draw the path in plan; the items are spread along it end to end"
+          >
+            <Route size={12} />
+            {drawingPath ? 'Drawing Path…' : settings.path ? 'Redraw Path' : 'Draw Path'}
+          </button>
+          {settings.path && (
+            <p className="mt-1 text-[10px] text-slate-500">
+              Path <span className="font-mono font-semibold text-slate-700">{formatLength(pathLength(settings.path))}</span>, {settings.path.length} points
+            </p>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center justify-between mt-2 text-[11px] text-slate-500 font-medium" title="Keep the items in an array group whose count and spacing can be changed later">
+        Keep editable
+        <input type="checkbox" checked={parametric} onChange={(e) => setArrayDraft({ ...arrayDraft, parametric: e.target.checked })} className="accent-blue-600 h-3.5 w-3.5" />
+      </label>
+
+      <div className="flex gap-1.5 mt-2">
+        <button
+          onClick={createArray}
+          disabled={sources.length === 0 || items < 2 || needsPath || drawingPath}
+          className="flex-1 h-7 flex items-center justify-center gap-1.5 rounded border border-slate-200 bg-white text-[11px] font-medium text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Grid3x3 size={12} />
+          Create {items} Items
+        </button>
+        <button
+          onClick={() => setArrayDraft(null)}
+          className="h-7 px-2 rounded border border-slate-200 bg-white text-[11px] font-medium text-slate-600 hover:border-red-400 hover:text-red-600 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+      {sources.length === 0 && <p className="mt-1 text-[11px] text-slate-400">Select the shapes to copy.</p>}
+      {sources.length > 0 && needsPath && !drawingPath && <p className="mt-1 text-[11px] text-slate-400">Draw the path to spread the items along.</p>}
+    </div>
+  );
+};
+
+// Layout of an array group; its copies are made again from the originals on every change
+const ArrayPanel: React.FC<{ shape: ShapeData }> = ({ shape }) => {
+  const { updateArray, snapshot } = useStore();
+  const settings = shape.array!;
+
+  return (
+    <div className="px-4 mb-3">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-bold text-slate-400 uppercase">{ARRAY_MODE_LABELS[settings.mode]} Array</span>
+        <span className="text-[10px] text-slate-500">
+          <span className="font-mono font-semibold text-slate-700">{getArrayItemCount(settings)}</span> items
+        </span>
+      </div>
+      <ArrayLayoutFields settings={settings} onSnapshot={() => snapshot(`Change array ${shape.name}`)} onChange={(changes) => updateArray(shape.id, changes)} />
+    </div>
+  );
+};
+
+// --- ARRANGE ---
+const AXES = ['X', 'Y', 'Z'];
+const ALIGN_EDGES: AlignEdge[] = ['min', 'center', 'max'];
+const PIVOT_MODES: PivotMode[] = ['center', 'first', 'custom'];
+
+// Flip about the selection's centre, or across a line clicked in plan
+const MirrorButtons: React.FC = () => {
+  const { mirrorSelected, setIsDrawing, cancelDrawing, isDrawing, drawingTarget } = useStore();
+  const drawingLine = isDrawing && drawingTarget === 'mirror';
+
+  return (
+    <div className="grid grid-cols-3 gap-1">
+      <button onClick={() => mirrorSelected([1, 0, 0])} className={toggleButtonClass()} title="Mirror left to right about the centre">Flip X</button>
+      <button onClick={() => mirrorSelected([0, 0, 1])} className={toggleButtonClass()} title="Mirror front to back about the centre">Flip Z</button>
+      <button onClick={() => drawingLine ? cancelDrawing() : setIsDrawing(true, 'mirror')} className={toggleButtonClass(drawingLine)} title="Mirror across a line clicked in plan">
+        Line
+      </button>
+    </div>
+  );
+};
+
+// Align, distribute and mirror a multi-selection by its world bounding boxes
+const ArrangePanel: React.FC = () => {
+  const { shapes, selectedIds, alignSelected, distributeSelected } = useStore();
+  const [alignTo, setAlignTo] = useState<AlignTarget>('selection');
+  const [distributeBy, setDistributeBy] = useState<DistributeMode>('centers');
+  const items = getSelectionRoots(shapes, selectedIds);
+  const key = items[0];
+
+  return (
+    <>
+      <div className="px-4 mb-3">
+        <span className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Align</span>
+        <div className="flex gap-1 mb-1.5">
+          <button onClick={() => setAlignTo('selection')} className={`flex-1 ${toggleButtonClass(alignTo === 'selection')}`}>To Selection</button>
+          <button onClick={() => setAlignTo('key')} className={`flex-1 ${toggleButtonClass(alignTo === 'key')}`} title="The first selected stays put">To Key Object</button>
+        </div>
+        {AXES.map((axis, i) => (
+          <div key={axis} className="flex items-center gap-1 mb-1">
+            <span className="w-4 text-[10px] font-bold text-slate-400">{axis}</span>
+            {ALIGN_EDGES.map(edge => (
+              <button key={edge} onClick={() => alignSelected(i, edge, alignTo)} disabled={items.length < 2} className={`flex-1 ${toggleButtonClass()}`}>
+                {ALIGN_EDGE_LABELS[i][edge]}
+              </button>
+            ))}
+          </div>
+        ))}
+        {alignTo === 'key' && key && <p className="text-[10px] text-slate-400">Key object: <span className="font-semibold text-slate-600">{key.name}</span></p>}
+      </div>
+
+      <div className="px-4 mb-3">
+        <span className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Distribute</span>
+        <div className="flex gap-1 mb-1.5">
+          <button onClick={() => setDistributeBy('centers')} className={`flex-1 ${toggleButtonClass(distributeBy === 'centers')}`}>Centers</button>
+          <button onClick={() => setDistributeBy('gaps')} className={`flex-1 ${toggleButtonClass(distributeBy === 'gaps')}`}>Gaps</button>
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          {AXES.map((axis, i) => (
+            <button key={axis} onClick={() => distributeSelected(i, distributeBy)} disabled={items.length < 3} className={toggleButtonClass()} title={items.length < 3 ? 'Select at least three objects' : undefined}>
+              {axis}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="px-4">
+        <span className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Mirror</span>
+        <MirrorButtons />
+      </div>
+    </>
+  );
+};
+
+// What the gizmo turns and scales a multi-selection about. A custom pivot starts where the
+// pivot was and stays put while the selection moves.
+const PivotPanel: React.FC = () => {
+  const { shapes, selectedIds, pivotMode, customPivot, setPivotMode, setCustomPivot } = useStore();
+
+  const choose = (mode: PivotMode) => {
+    if (mode === 'custom' && pivotMode !== 'custom') {
+      setCustomPivot(getSelectionPivot(shapes, selectedIds, pivotMode, customPivot).toArray() as [number, number, number]);
+    }
+    setPivotMode(mode);
+  };
+
+  return (
+    <div className="px-4 mb-3">
+      <span className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Pivot</span>
+      <div className="flex gap-1">
+        {PIVOT_MODES.map(mode => (
+          <button key={mode} onClick={() => choose(mode)} className={`flex-1 ${toggleButtonClass(pivotMode === mode)}`} title={mode === 'first' ? 'Origin of the first selected' : undefined}>
+            {PIVOT_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      {pivotMode === 'custom' && (
+        <div className="flex gap-1 mt-1.5">
+          {AXES.map((axis, i) => (
+            <NumberInput key={axis} label={axis} value={customPivot[i]} onChange={(v) => setCustomPivot(customPivot.map((c, k) => k === i ? v : c) as [number, number, number])} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Group the selection lives in. Moving it to another keeps everything where it is in the world;
+// booleans and array groups show but can't be picked, as they manage their own contents.
+const MIXED_PARENT = '__mixed__';
+
+const ParentSelect: React.FC = () => {
+  const { shapes, selectedIds, moveToGroup } = useStore();
+  const roots = getSelectionRoots(shapes, selectedIds);
+  if (roots.length === 0) return null;
+  const inside = new Set(roots.flatMap(s => [...getDescendantIds(s.id, shapes)]));
+  const groups = shapes.filter(s => canHoldShapes(s) && !inside.has(s.id));
+  const current = roots.every(s => s.parentId === roots[0].parentId) ? roots[0].parentId || '' : MIXED_PARENT;
+  const fixedParent = current && current !== MIXED_PARENT && !groups.some(g => g.id === current) ? shapes.find(s => s.id === current) : undefined;
+
+  return (
+    <PropertyRow label="Group">
+      <select
+        value={current}
+        onChange={(e) => moveToGroup(selectedIds, e.target.value || null)}
+        className="w-28 text-[11px] border border-slate-200 rounded px-1 py-0.5 text-slate-700 bg-white focus:border-blue-400 outline-none"
+      >
+        {current === MIXED_PARENT && <option value={MIXED_PARENT} disabled>Mixed</option>}
+        <option value="">None</option>
+        {fixedParent && <option value={fixedParent.id} disabled>{fixedParent.name}</option>}
+        {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+      </select>
+    </PropertyRow>
+  );
+};
+
+// Checkbox for several shapes: a dash when they disagree
+const MixedCheckbox: React.FC<{ values: boolean[]; onChange: (v: boolean) => void }> = ({ values, onChange }) => {
+  const ref = useRef<HTMLInputElement>(null);
+  const checked = values.length > 0 && values.every(Boolean);
+  const mixed = !checked && values.some(Boolean);
+
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = mixed;
+  }, [mixed]);
+
+  return <input ref={ref} type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-blue-600 h-3.5 w-3.5" />;
+};
+
+// Style of everything selected, groups standing for what is inside them. Values the shapes don't
+// share show as mixed until set, which sets them on all.
+const MultiStylePanel: React.FC = () => {
+  const { shapes, selectedIds, snapshot, updateShapes } = useStore();
+  const targets = useMemo(() => {
+    const ids = new Set<string>();
+    getSelectionRoots(shapes, selectedIds).forEach(root => getDescendantIds(root.id, shapes).forEach(id => ids.add(id)));
+    return shapes.filter(s => ids.has(s.id) && !s.locked && s.type !== 'group');
+  }, [shapes, selectedIds]);
+  if (targets.length === 0) return null;
+
+  const shared = <K extends keyof ShapeData>(key: K): ShapeData[K] | undefined =>
+    targets.every(s => s[key] === targets[0][key]) ? targets[0][key] : undefined;
+  const snapshotTargets = (action: string) => () => snapshot(`${action} ${targets.length} objects`);
+  const setAll = (changes: Partial<ShapeData>) => updateShapes(Object.fromEntries(targets.map(s => [s.id, changes])));
+  const color = shared('color');
+  const opacity = shared('opacity');
+  const edgeColor = shared('edgeColor');
+  const edged = targets.filter(s => s.edges);
+
+  return (
+    <div className="border-t border-slate-100 pt-2">
+      <PropertyRow label="Color">
+        <ColorInput value={color ?? targets[0].color} mixed={color === undefined} onSnapshot={snapshotTargets('Recolor')} onChange={(c) => setAll({ color: c })} />
+      </PropertyRow>
+
+      <PropertyRow label="Opacity">
+        <div className="flex items-center gap-2 w-full justify-end">
+          <input
+            type="range" min="0" max="1" step="0.1"
+            value={opacity ?? targets[0].opacity}
+            onPointerDown={snapshotTargets('Change opacity of')}
+            onChange={(e) => setAll({ opacity: parseFloat(e.target.value) })}
+            className="w-16 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          />
+          <span className="text-[10px] text-slate-500 w-8 text-right">{opacity === undefined ? 'Mixed' : `${Math.round(opacity * 100)}%`}</span>
+        </div>
+      </PropertyRow>
+
+      <PropertyRow label="Wireframe">
+        <MixedCheckbox values={targets.map(s => s.wireframe)} onChange={(v) => { snapshotTargets('Toggle wireframe on')(); setAll({ wireframe: v }); }} />
+      </PropertyRow>
+
+      <PropertyRow label="Show Edges">
+        <MixedCheckbox values={targets.map(s => s.edges)} onChange={(v) => { snapshotTargets('Toggle edges on')(); setAll({ edges: v }); }} />
+      </PropertyRow>
+
+      {edged.length > 0 && (
+        <PropertyRow label="Edge Color">
+          <ColorInput
+            value={edgeColor ?? edged[0].edgeColor}
+            mixed={edgeColor === undefined}
+            onSnapshot={snapshotTargets('Change edge color of')}
+            onChange={(c) => setAll({ edgeColor: c })}
+          />
+        </PropertyRow>
+      )}
+    </div>
+  );
+};
+
+// --- ZONING PANEL ---
+// Setbacks, height limit and sky-exposure plane of a site, and the masses breaking them
+const ZoningPanel: React.FC<{ site: ShapeData }> = ({ site }) => {
+  const { shapes, updateShape, snapshot, selectShape, setSiteArea, editingShapeId, setEditingShape } = useStore();
+  const zoning = { ...DEFAULT_ZONING, ...site.zoning };
+  const points = site.points || [];
+  const violations = getEnvelopeViolations(shapes).filter(v => v.siteId === site.id);
+  const buildable = !!getEnvelopeRings(site);
+  const area = Math.abs(planArea(points)) * Math.abs(site.scale[0] * site.scale[2]);
+
+  const onSnapshot = () => snapshot(`Change zoning of ${site.name}`);
+  const update = (changes: Partial<ZoningSettings>) => updateShape(site.id, { zoning: { ...zoning, ...changes } });
+  const field = (label: string, key: keyof ZoningSettings, min = 0) => (
+    <PropertyRow label={label}>
+      <NumberInput value={zoning[key] as number} onSnapshot={onSnapshot} onChange={(v) => update({ [key]: Math.max(min, v) })} />
+    </PropertyRow>
+  );
+  const checkbox = (label: string, key: 'skyPlane' | 'skyPlaneAllSides') => (
+    <PropertyRow label={label}>
+      <input type="checkbox" checked={zoning[key]} onChange={(e) => { onSnapshot(); update({ [key]: e.target.checked }); }} className="accent-blue-600 h-3.5 w-3.5" />
+    </PropertyRow>
+  );
+
+  return (
+    <div className="border-t border-slate-100 mt-2 pt-2 mb-2">
+      <span className="px-4 text-[10px] font-bold text-slate-400 uppercase mb-1 block">Zoning</span>
+      <PropertyRow label="Site Area">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-mono font-semibold text-slate-700">{area.toFixed(1)} m²</span>
+          <button onClick={() => setSiteArea(area)} className="text-[10px] text-blue-600 hover:underline" title="Use as the site area of the floor-area ratio">Use for FAR</button>
+        </div>
+      </PropertyRow>
+      <PropertyRow label="Front Edge">
+        <NumberInput
+          value={zoning.frontEdge + 1}
+          step="1"
+          onSnapshot={onSnapshot}
+          onChange={(v) => update({ frontEdge: Math.min(points.length, Math.max(1, Math.round(v))) - 1 })}
+        />
+      </PropertyRow>
+      {field('Front Setback', 'frontSetback')}
+      {field('Side Setback', 'sideSetback')}
+      {field('Rear Setback', 'rearSetback')}
+      {field('Max Height', 'maxHeight')}
+      {checkbox('Sky Plane', 'skyPlane')}
+      {zoning.skyPlane && (
+        <>
+          {field('Plane Base', 'skyPlaneBaseHeight')}
+          {field('Plane Angle', 'skyPlaneAngle', 1)}
+          {checkbox('All Sides', 'skyPlaneAllSides')}
+        </>
+      )}
+
+      <div className="px-4 mt-2 space-y-1.5">
+        <button
+          onClick={() => setEditingShape(editingShapeId === site.id ? null : site.id)}
+          className={`w-full h-7 flex items-center justify-center gap-1.5 rounded border text-[11px] font-medium transition-colors ${
+            editingShapeId === site.id ? 'bg-blue-600 border-blue-600 text-white hover:bg-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600'
+          }`}
+        >
+          <Spline size={12} />
+          {editingShapeId === site.id ? 'Done Editing' : 'Edit Boundary'}
+        </button>
+
+        {!buildable && <p className="text-[11px] text-red-600">The setbacks leave nothing to build on.</p>}
+        {buildable && violations.length === 0 && <p className="text-[11px] text-green-700">All masses on this site fit the envelope.</p>}
+        {violations.map(v => (
+          <button
+            key={v.shapeId}
+            onClick={() => selectShape(v.shapeId)}
+            className="w-full flex items-center gap-1.5 px-2 py-1 rounded bg-red-50 text-[11px] text-red-700 hover:bg-red-100 text-left"
+          >
+            <TriangleAlert size={12} className="flex-none" />
+            <span className="flex-1 truncate">{shapes.find(s => s.id === v.shapeId)?.name}</span>
+            <span className="font-mono">{v.volume.toFixed(1)} m³</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// --- COMPLIANCE SETTINGS ---
+// Site area, site boundaries and the rule set the compliance report checks against
+const ComplianceSettings: React.FC = () => {
+  const {
+    shapes, siteArea, setSiteArea, complianceRules, setComplianceRules, importCompliance,
+    compliancePanelOpen, setCompliancePanelOpen, selectShape, setIsDrawing
+  } = useStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sites = shapes.filter(s => s.type === 'site');
+
+  const handleExport = () => {
+    downloadBlob(new Blob([complianceToJson(shapes, complianceRules, siteArea)], { type: 'application/json' }), 'rules.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      importCompliance(parseComplianceJson(await file.text()));
+    } catch (err) {
+      console.error("Error importing rules:", err);
+      alert(`Could not import rules: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const buttonClass = "flex-1 h-7 flex items-center justify-center gap-1.5 rounded border text-[11px] font-medium transition-colors";
+  const idleClass = "bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600";
+
+  return (
+    <>
+      <PropertyRow label="Site Area">
+        <NumberInput value={siteArea} onChange={setSiteArea} onSnapshot={() => {}} step="10" />
+      </PropertyRow>
+      <PropertyRow label="Boundary">
+        <div className="flex flex-wrap items-center justify-end gap-1">
+          {sites.map(site => (
+            <button key={site.id} onClick={() => selectShape(site.id)} className="text-[11px] text-green-700 hover:underline">{site.name}</button>
+          ))}
+          <button onClick={() => setIsDrawing(true, 'site')} className="p-0.5 text-slate-400 hover:text-blue-600" title="Draw Site Boundary">
+            <LandPlot size={13} />
+          </button>
+        </div>
+      </PropertyRow>
+
+      <div className="h-[1px] bg-slate-100 my-1 mx-4" />
+
+      {RULE_DEFINITIONS.map(rule => {
+        const value = complianceRules[rule.key];
+        return (
+          <PropertyRow key={rule.key} label={rule.unit ? `${rule.label} (${rule.unit})` : rule.label}>
+            <div className="flex items-center justify-end gap-2">
+              {value !== null && (
+                <div className="w-16">
+                  <NumberInput value={value} onChange={(v) => setComplianceRules({ [rule.key]: Math.max(0, v) })} onSnapshot={() => {}} />
+                </div>
+              )}
+              <input
+                type="checkbox"
+                checked={value !== null}
+                onChange={(e) => setComplianceRules({ [rule.key]: e.target.checked ? rule.defaultValue : null })}
+                className="accent-blue-600 h-3.5 w-3.5 flex-none"
+                title={value !== null ? 'Switch off' : 'Switch on'}
+              />
+            </div>
+          </PropertyRow>
+        );
+      })}
+
+      <div className="px-4 py-2 flex gap-1.5">
+        <button
+          onClick={() => setCompliancePanelOpen(!compliancePanelOpen)}
+          className={`${buttonClass} ${compliancePanelOpen ? 'bg-blue-600 border-blue-600 text-white hover:bg-blue-700' : idleClass}`}
+        >
+          <ShieldCheck size={12} />
+          Report
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} ${idleClass}`} title="Import rules and site area, adding the file's site boundaries (JSON)">
+          <FileUp size={12} />
+          Import
+        </button>
+        <button onClick={handleExport} className={`${buttonClass} ${idleClass}`} title="Export rules, site area and boundaries (JSON)">
+          <FileDown size={12} />
+          Export
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+    </>
+  );
+};
+
+// --- ATTRIBUTES PANEL ---
+// Edits every selected (unlocked) shape at once; fields where they differ show as mixed
+const AttributesPanel: React.FC = () => {
+  const { shapes, selectedIds, setAttribute } = useStore();
+  const [newKey, setNewKey] = useState('');
+
+  const selected = shapes.filter(s => selectedIds.includes(s.id) && !s.locked);
+  const ids = selected.map(s => s.id);
+  const keys = getAttributeKeys(selected);
+  const programme = getSharedAttribute(selected, PROGRAMME_KEY);
+  if (selected.length === 0) return <p className="px-4 py-2 text-[11px] text-slate-400 italic">Selection is locked</p>;
+
+
+  const handleAddKey = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    // Starts out empty so it shows up for editing
+    if (!keys.includes(key)) setAttribute(ids, key, '');
+    setNewKey('');
+  };
+
+  return (
+    <div className="py-1">
+      {selected.length > 1 && <p className="px-4 pb-1 text-[10px] text-slate-400">Editing {selected.length} objects</p>}
+
+      {/* Programme palette */}
+      <div className="px-4 py-1.5">
+        <span className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Programme</span>
+        <div className="grid grid-cols-5 gap-1 mb-1.5">
+          {PROGRAMMES.map(p => (
+            <button
+              key={p.name}
+              onClick={() => setAttribute(ids, PROGRAMME_KEY, programme === p.name ? null : p.name)}
+              className={`h-5 rounded border transition-transform hover:scale-105 ${programme === p.name ? 'ring-2 ring-blue-500 ring-offset-1 border-transparent' : 'border-slate-200'}`}
+              style={{ backgroundColor: p.color }}
+              title={p.name}
+            />
+          ))}
+        </div>
+      </div>
+
+      {keys.map(key => {
+        const value = getSharedAttribute(selected, key);
+        return (
+          <PropertyRow key={key} label={formatAttributeKey(key)}>
+            <div className="flex items-center gap-1 w-full justify-end">
+              <input
+                type="text"
+                value={value ?? ''}
+                placeholder={value === null ? 'Mixed' : ''}
+                list={key === PROGRAMME_KEY ? 'programme-names' : undefined}
+                onChange={(e) => setAttribute(ids, key, e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+                className="w-28 text-[11px] border border-slate-200 rounded px-1.5 py-0.5 text-slate-700 bg-white focus:border-blue-400 outline-none placeholder:italic"
+              />
+              <button
+                onClick={() => setAttribute(ids, key, null)}
+                className="p-0.5 text-slate-300 hover:text-red-500"
+                title={`Remove ${formatAttributeKey(key)}`}
+              >
+                <X size={12} />
+              </button>
+            </div>
+          </PropertyRow>
+        );
+      })}
+      <datalist id="programme-names">
+        {PROGRAMMES.map(p => <option key={p.name} value={p.name} />)}
+      </datalist>
+
+      <div className="flex items-center gap-1.5 px-4 py-1.5">
+        <input
+          type="text"
+          value={newKey}
+          placeholder="New attribute"
+          onChange={(e) => setNewKey(e.target.value)}
+          onKeyDown={(e) => { e.stopPropagation(); if (e.key === 'Enter') handleAddKey(); }}
+          className="flex-1 min-w-0 text-[11px] border border-slate-200 rounded px-1.5 py-0.5 text-slate-700 bg-white focus:border-blue-400 outline-none"
+        />
+        <button onClick={handleAddKey} disabled={!newKey.trim()} className="p-1 rounded text-slate-400 hover:text-blue-600 disabled:opacity-30" title="Add attribute">
+          <Plus size={12} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export const Sidebar: React.FC = () => {
   const { 
     shapes, selectedIds, updateShape,
@@ -288,11 +1430,24 @@ export const Sidebar: React.FC = () => {
     gridSectionColor, setGridSectionColor,
     objectSnapEnabled, toggleObjectSnap,
     sunSettings, setSunSettings,
+    editingShapeId, setEditingShape, ungroupSelected, makeTowerFromSelected, arrayDraft,
+    colorByAttribute, setColorByAttribute,
     snapshot
   } = useStore();
 
   const selectedShape = selectedIds.length === 1 ? shapes.find(s => s.id === selectedIds[0]) : null;
   const isMultiSelect = selectedIds.length > 1;
+  const selectedViolation = selectedShape ? getEnvelopeViolations(shapes).find(v => v.shapeId === selectedShape.id) : undefined;
+
+  // Opens a labelled history entry for an edit of the selected shape
+  const snapshotSelected = (action: string) => () => {
+    if (selectedShape) snapshot(`${action} ${selectedShape.name}`);
+  };
+
+  // Edits the floor stack of the selected shape; the store re-derives its height
+  const updateFloors = (floors: Partial<FloorSettings>) => {
+    if (selectedShape?.floors) updateShape(selectedShape.id, { floors: { ...selectedShape.floors, ...floors } });
+  };
 
   // Helper for Dimensions (Scale)
   const handleDimensionChange = (axis: number, value: number) => {
@@ -375,6 +1530,19 @@ export const Sidebar: React.FC = () => {
           <PropertyRow label="Object Snap">
              <input type="checkbox" checked={objectSnapEnabled} onChange={toggleObjectSnap} className="accent-blue-600 h-3.5 w-3.5" />
           </PropertyRow>
+
+          <div className="h-[1px] bg-slate-100 my-1 mx-4" />
+
+          <PropertyRow label="Color By">
+            <select
+              value={colorByAttribute || ''}
+              onChange={(e) => setColorByAttribute(e.target.value || null)}
+              className="w-28 text-[11px] border border-slate-200 rounded px-1 py-0.5 text-slate-700 bg-white focus:border-blue-400 outline-none"
+            >
+              <option value="">Object color</option>
+              {getAttributeKeys(shapes).map(key => <option key={key} value={key}>{formatAttributeKey(key)}</option>)}
+            </select>
+          </PropertyRow>
       </CollapsibleSection>
 
        {/* --- ENVIRONMENT / SUN --- */}
@@ -472,6 +1640,11 @@ export const Sidebar: React.FC = () => {
           )}
       </CollapsibleSection>
 
+      {/* --- COMPLIANCE --- */}
+      <CollapsibleSection title="Compliance" icon={ShieldCheck} defaultOpen={false}>
+        <ComplianceSettings />
+      </CollapsibleSection>
+
       {/* --- SELECTED OBJECT PROPERTIES --- */}
       <CollapsibleSection title="Properties" icon={Box}>
         {selectedShape ? (
@@ -481,7 +1654,7 @@ export const Sidebar: React.FC = () => {
               <input 
                 type="text" 
                 value={selectedShape.name}
-                onFocus={snapshot}
+                onFocus={snapshotSelected('Rename')}
                 onKeyDown={(e) => e.stopPropagation()} 
                 onChange={(e) => updateShape(selectedShape.id, { name: e.target.value })}
                 className="w-full text-sm font-semibold text-slate-800 bg-transparent border-b border-dashed border-slate-300 focus:border-blue-500 outline-none pb-1 placeholder-slate-400"
@@ -489,6 +1662,10 @@ export const Sidebar: React.FC = () => {
               />
             </div>
 
+            <div className="mb-2">
+              <ParentSelect />
+            </div>
+
             {/* Transform Group */}
             <div className="px-4 mb-2">
               <span className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Transform</span>
@@ -498,7 +1675,7 @@ export const Sidebar: React.FC = () => {
                     key={`pos-${axis}`} 
                     label={axis} 
                     value={selectedShape.position[i]}
-                    onSnapshot={snapshot}
+                    onSnapshot={snapshotSelected('Move')}
                     onChange={(v) => {
                       const p = [...selectedShape.position] as [number, number, number];
                       p[i] = v;
@@ -518,7 +1695,7 @@ export const Sidebar: React.FC = () => {
                     key={`rot-${axis}`} 
                     label={axis} 
                     value={toDegrees(selectedShape.rotation[i])}
-                    onSnapshot={snapshot}
+                    onSnapshot={snapshotSelected('Rotate')}
                     onChange={(v) => handleRotationChange(i, v)} 
                   />
                 ))}
@@ -529,26 +1706,190 @@ export const Sidebar: React.FC = () => {
             <div className="px-4 mb-3">
               <span className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Dimensions</span>
               <div className="grid grid-cols-3 gap-1.5">
-                <NumberInput label="W" value={selectedShape.scale[0]} onSnapshot={snapshot} onChange={(v) => handleDimensionChange(0, v)} />
-                <NumberInput label="H" value={selectedShape.scale[1]} onSnapshot={snapshot} onChange={(v) => handleDimensionChange(1, v)} />
-                <NumberInput label="D" value={selectedShape.scale[2]} onSnapshot={snapshot} onChange={(v) => handleDimensionChange(2, v)} />
+                <NumberInput label="W" value={selectedShape.scale[0]} onSnapshot={snapshotSelected('Resize')} onChange={(v) => handleDimensionChange(0, v)} />
+                <NumberInput label="H" value={selectedShape.scale[1]} onSnapshot={snapshotSelected('Resize')} onChange={(v) => handleDimensionChange(1, v)} />
+                <NumberInput label="D" value={selectedShape.scale[2]} onSnapshot={snapshotSelected('Resize')} onChange={(v) => handleDimensionChange(2, v)} />
               </div>
               {selectedShape.type === 'custom' && (
                 <div className="mt-2">
-                  <NumberInput 
-                    label="Extrude" 
-                    value={selectedShape.extrudeDepth || 0}
-                    onSnapshot={snapshot}
-                    onChange={(v) => updateShape(selectedShape.id, { extrudeDepth: v })} 
-                  />
+                  {!selectedShape.floors && (
+                    <NumberInput 
+                      label="Extrude" 
+                      value={selectedShape.extrudeDepth || 0}
+                      onSnapshot={snapshotSelected('Extrude')}
+                      onChange={(v) => updateShape(selectedShape.id, { extrudeDepth: v })} 
+                    />
+                  )}
+                  <button
+                    onClick={() => setEditingShape(editingShapeId === selectedShape.id ? null : selectedShape.id)}
+                    className={`mt-2 w-full h-7 flex items-center justify-center gap-1.5 rounded border text-[11px] font-medium transition-colors ${
+                      editingShapeId === selectedShape.id ? 'bg-blue-600 border-blue-600 text-white hover:bg-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600'
+                    }`}
+                    title="Drag vertices, drag edge midpoints to insert, double-click or Delete to remove"
+                  >
+                    <Spline size={12} />
+                    {editingShapeId === selectedShape.id ? 'Done Editing' : 'Edit Vertices'}
+                  </button>
+                  <button
+                    onClick={makeTowerFromSelected}
+                    className="mt-1.5 w-full h-7 flex items-center justify-center gap-1.5 rounded border text-[11px] font-medium bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+                    title="Replace the surface with a parametric tower on its footprint"
+                  >
+                    <Building size={12} />
+                    Make Tower
+                  </button>
+                </div>
+              )}
+              {selectedShape.type === 'boolean' && (
+                <div className="mt-2">
+                  <div className="grid grid-cols-3 gap-1.5">
+                    {(Object.keys(BOOLEAN_LABELS) as BooleanOperation[]).map(op => (
+                      <button
+                        key={op}
+                        onClick={() => {
+                          if ((selectedShape.booleanOperation || 'union') === op) return;
+                          snapshot(`${BOOLEAN_LABELS[op]} ${selectedShape.name}`);
+                          updateShape(selectedShape.id, { booleanOperation: op });
+                        }}
+                        className={`h-7 rounded border text-[11px] font-medium transition-colors ${
+                          (selectedShape.booleanOperation || 'union') === op ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600'
+                        }`}
+                      >
+                        {BOOLEAN_LABELS[op]}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    onClick={ungroupSelected}
+                    className="mt-2 w-full h-7 flex items-center justify-center gap-1.5 rounded border text-[11px] font-medium bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+                    title="Release the operands as separate shapes (Ctrl+Shift+G)"
+                  >
+                    <Ungroup size={12} />
+                    Separate
+                  </button>
                 </div>
               )}
             </div>
 
+            <div className="px-4 mb-3">
+              <span className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Mirror</span>
+              <MirrorButtons />
+            </div>
+
+            {(selectedShape.type === 'custom' || selectedShape.type === 'site') && selectedShape.points && (
+              <OffsetPanel key={selectedShape.id} shape={selectedShape} />
+            )}
+            {selectedShape.type === 'site' && <ZoningPanel site={selectedShape} />}
+            {selectedViolation && (
+              <div className="mx-4 mb-3 flex items-start gap-1.5 px-2 py-1.5 rounded bg-red-50 text-[11px] text-red-700">
+                <TriangleAlert size={12} className="flex-none mt-0.5" />
+                <span>
+                  Exceeds the envelope of {shapes.find(s => s.id === selectedViolation.siteId)?.name} by <span className="font-mono font-semibold">{selectedViolation.volume.toFixed(1)} m³</span>
+                </span>
+              </div>
+            )}
+
+            {selectedShape.array && <ArrayPanel shape={selectedShape} />}
+            {selectedShape.type === 'tower' && <TowerPanel shape={selectedShape} />}
+            {selectedShape.type === 'custom' && selectedShape.points && <RoofPanel shape={selectedShape} />}
+
+            {/* Floors Group */}
+            {canHaveFloors(selectedShape) && (
+              <div className="px-4 mb-3">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-[10px] font-bold text-slate-400 uppercase">Floors</span>
+                  {selectedShape.floors && (
+                    <span className="text-[10px] text-slate-500">
+                      Total height <span className="font-mono font-semibold text-slate-700">{formatLength(getFloorsTotalHeight(selectedShape.floors))}</span>
+                    </span>
+                  )}
+                </div>
+                {selectedShape.floors ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-1.5">
+                      <NumberInput label="Floors" step="1" value={selectedShape.floors.count} onSnapshot={snapshotSelected('Change floors of')} onChange={(v) => updateFloors({ count: clampFloorCount(v) })} />
+                      <NumberInput label="F-F" value={selectedShape.floors.height} onSnapshot={snapshotSelected('Change floor height of')} onChange={(v) => updateFloors({ height: Math.max(MIN_FLOOR_HEIGHT, v) })} />
+                    </div>
+
+                    {/* Per-floor heights, e.g. a taller ground floor or podium */}
+                    {Object.entries(selectedShape.floors.overrides || {})
+                      .map(([floor, height]) => [Number(floor), height] as [number, number])
+                      .sort((a, b) => a[0] - b[0])
+                      .map(([floor, height]) => (
+                        <div key={floor} className={`flex items-center gap-1.5 mt-1.5 ${floor >= selectedShape.floors!.count ? 'opacity-40' : ''}`}>
+                          <span className="flex-1 text-[11px] text-slate-500 font-medium">{floor === 0 ? 'Ground' : `Level ${floor}`}</span>
+                          <NumberInput
+                            label="F-F"
+                            value={height}
+                            onSnapshot={snapshotSelected('Change floor height of')}
+                            onChange={(v) => updateFloors({ overrides: { ...selectedShape.floors!.overrides, [floor]: Math.max(MIN_FLOOR_HEIGHT, v) } })}
+                          />
+                          <button
+                            onClick={() => {
+                              snapshotSelected('Change floor height of')();
+                              const { [floor]: _, ...overrides } = selectedShape.floors!.overrides || {};
+                              updateFloors({ overrides });
+                            }}
+                            className="p-0.5 text-slate-400 hover:text-red-500"
+                            title="Use the typical floor height"
+                          >
+                            <X size={12} />
+                          </button>
+                        </div>
+                      ))}
+
+                    <div className="grid grid-cols-2 gap-1.5 mt-2">
+                      <button
+                        onClick={() => {
+                          // Next floor up from the ground without its own height
+                          const floors = selectedShape.floors!;
+                          let floor = 0;
+                          while (floors.overrides?.[floor] !== undefined) floor++;
+                          if (floor >= floors.count) return;
+                          snapshotSelected('Change floor height of')();
+                          updateFloors({ overrides: { ...floors.overrides, [floor]: floors.height } });
+                        }}
+                        className="h-7 flex items-center justify-center gap-1 rounded border text-[11px] font-medium bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+                        title="Give the lowest floor without one its own floor-to-floor height"
+                      >
+                        <Plus size={12} />
+                        Floor Height
+                      </button>
+                      <button
+                        onClick={() => {
+                          snapshotSelected('Remove floors from')();
+                          updateShape(selectedShape.id, { floors: undefined });
+                        }}
+                        className="h-7 flex items-center justify-center gap-1 rounded border text-[11px] font-medium bg-white border-slate-200 text-slate-600 hover:border-red-300 hover:text-red-500 transition-colors"
+                        title="Keep the current height without floors"
+                      >
+                        <X size={12} />
+                        Remove
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => {
+                      snapshotSelected('Add floors to')();
+                      updateShape(selectedShape.id, { floors: fitFloors({ count: 1, height: DEFAULT_FLOOR_HEIGHT }, getShapeHeight(selectedShape)) });
+                    }}
+                    className="w-full h-7 flex items-center justify-center gap-1.5 rounded border text-[11px] font-medium bg-white border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+                    title={`Split the mass into ${formatLength(DEFAULT_FLOOR_HEIGHT)} floors; its height then follows the floor count`}
+                  >
+                    <Building2 size={12} />
+                    Add Floors
+                  </button>
+                )}
+              </div>
+            )}
+
+            {canHaveFacade(selectedShape) && <FacadePanel shape={selectedShape} />}
+
             {/* Style Group */}
             <div className="border-t border-slate-100 mt-2 pt-2">
               <PropertyRow label={selectedShape.type === 'tree' ? "Foliage Color" : "Color"}>
-                <ColorInput value={selectedShape.color} onSnapshot={snapshot} onChange={(c) => updateShape(selectedShape.id, { color: c })} />
+                <ColorInput value={selectedShape.color} onSnapshot={snapshotSelected('Recolor')} onChange={(c) => updateShape(selectedShape.id, { color: c })} />
               </PropertyRow>
 
               {/* Trunk Color for Trees */}
@@ -556,7 +1897,7 @@ export const Sidebar: React.FC = () => {
                 <PropertyRow label="Trunk Color">
                   <ColorInput 
                     value={selectedShape.secondaryColor || '#5d4037'} 
-                    onSnapshot={snapshot}
+                    onSnapshot={snapshotSelected('Recolor')}
                     onChange={(c) => updateShape(selectedShape.id, { secondaryColor: c })} 
                   />
                 </PropertyRow>
@@ -567,7 +1908,7 @@ export const Sidebar: React.FC = () => {
                   <input 
                     type="range" min="0" max="1" step="0.1" 
                     value={selectedShape.opacity}
-                    onPointerDown={snapshot} 
+                    onPointerDown={snapshotSelected('Change opacity of')} 
                     onChange={(e) => updateShape(selectedShape.id, { opacity: parseFloat(e.target.value) })}
                     className="w-16 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600" 
                   />
@@ -576,52 +1917,64 @@ export const Sidebar: React.FC = () => {
               </PropertyRow>
 
               <PropertyRow label="Wireframe">
-                <input type="checkbox" checked={selectedShape.wireframe} onChange={(e) => { snapshot(); updateShape(selectedShape.id, { wireframe: e.target.checked }); }} className="accent-blue-600 h-3.5 w-3.5" />
+                <input type="checkbox" checked={selectedShape.wireframe} onChange={(e) => { snapshotSelected('Toggle wireframe on')(); updateShape(selectedShape.id, { wireframe: e.target.checked }); }} className="accent-blue-600 h-3.5 w-3.5" />
               </PropertyRow>
               
               <PropertyRow label="Show Edges">
-                <input type="checkbox" checked={selectedShape.edges} onChange={(e) => { snapshot(); updateShape(selectedShape.id, { edges: e.target.checked }); }} className="accent-blue-600 h-3.5 w-3.5" />
+                <input type="checkbox" checked={selectedShape.edges} onChange={(e) => { snapshotSelected('Toggle edges on')(); updateShape(selectedShape.id, { edges: e.target.checked }); }} className="accent-blue-600 h-3.5 w-3.5" />
               </PropertyRow>
 
               {selectedShape.edges && (
                 <PropertyRow label="Edge Color">
-                  <ColorInput value={selectedShape.edgeColor} onSnapshot={snapshot} onChange={(c) => updateShape(selectedShape.id, { edgeColor: c })} />
+                  <ColorInput value={selectedShape.edgeColor} onSnapshot={snapshotSelected('Change edge color of')} onChange={(c) => updateShape(selectedShape.id, { edgeColor: c })} />
                 </PropertyRow>
               )}
             </div>
           </div>
+        ) : isMultiSelect ? (
+          <div className="py-2">
+            <div className="px-4 mb-2 flex items-center gap-2 text-xs text-slate-500">
+              <Layers size={14} className="opacity-40" />
+              <span>{selectedIds.length} items selected</span>
+            </div>
+            <div className="mb-2">
+              <ParentSelect />
+            </div>
+            <PivotPanel />
+            <ArrangePanel />
+            <MultiStylePanel />
+          </div>
         ) : (
           <div className="h-24 flex flex-col items-center justify-center text-slate-400 text-xs">
-            {isMultiSelect ? (
-              <>
-                 <Layers size={24} className="mb-2 opacity-20" />
-                 <p>{selectedIds.length} items selected</p>
-              </>
-            ) : (
-              <>
-                <Box size={24} className="mb-2 opacity-20" />
-                <p>No selection</p>
-              </>
-            )}
+            <Box size={24} className="mb-2 opacity-20" />
+            <p>No selection</p>
           </div>
         )}
       </CollapsibleSection>
 
+      {/* --- ARRAY TOOL --- */}
+      {arrayDraft && (
+        <CollapsibleSection title="Array" icon={Grid3x3}>
+          <ArrayToolPanel />
+        </CollapsibleSection>
+      )}
+
+      {/* --- ATTRIBUTES --- */}
+      {selectedIds.length > 0 && (
+        <CollapsibleSection title="Attributes" icon={Tags} defaultOpen={false}>
+          <AttributesPanel />
+        </CollapsibleSection>
+      )}
+
+      {/* --- HISTORY --- */}
+      <CollapsibleSection title="History" icon={History} defaultOpen={false}>
+        <HistoryPanel />
+      </CollapsibleSection>
+
       {/* --- LAYERS --- */}
       <div className="flex-1 overflow-y-auto custom-scrollbar flex flex-col min-h-0">
         <CollapsibleSection title="Layers" icon={Layers}>
-          <div className="p-1">
-            {shapes.length === 0 ? (
-              <p className="text-center text-[10px] text-slate-400 mt-4 italic">Empty scene</p>
-            ) : (
-              <div className="space-y-[1px]">
-                {/* Only render top-level items here; recursion handles the rest */}
-                {shapes.filter(s => !s.parentId).map(shape => (
-                  <LayerItem key={shape.id} shape={shape} />
-                ))}
-              </div>
-            )}
-          </div>
+          <LayersPanel />
         </CollapsibleSection>
       </div>
 
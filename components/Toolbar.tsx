@@ -2,32 +2,57 @@
 import React, { useRef, useEffect, useCallback } from 'react';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
 import * as THREE from 'three';
-import { useStore } from '../store';
+import { useStore, getProjectContent, getHistoryEntries } from '../store';
 import { ShapeData } from '../types';
+import { downloadProject, parseProjectBlob, PROJECT_EXTENSION } from '../utils/projectFile';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   Box, Circle, Cylinder, Trees, 
   Move, RotateCw, Scaling, Trash2, 
   Magnet, PenTool,
   Image as ImageIcon, Undo, Redo, Sun,
-  FolderOpen, Save, FilePlus, MousePointer2
+  FolderOpen, Save, FilePlus, MousePointer2, Import, Download, ArchiveRestore,
+  SquaresUnite, SquaresSubtract, SquaresIntersect, Sheet, LandPlot, ShieldCheck, Building, Grid3x3
 } from 'lucide-react';
+import { canCombine } from '../utils/csg';
+import { createArrayDraft } from '../utils/array';
 
 export const Toolbar: React.FC = () => {
   const { 
     addShape, addShapes, transformMode, setTransformMode, 
     snapEnabled, toggleSnap, deleteSelected, selectedIds,
-    isDrawing, setIsDrawing,
+    isDrawing, setIsDrawing, drawingTarget,
     undo, redo, copy, paste,
     sunSettings, setSunSettings,
-    triggerExport, groupSelected, ungroupSelected,
-    history,
-    resetScene,
-    setBackgroundColor, setGridVisible, setGridSpacing, setGridColor, setGridSectionColor
+    triggerExport, groupSelected, ungroupSelected, booleanSelected, shapes,
+    resetScene, loadProject, setSessionsDialogOpen, schedulePanelOpen, setSchedulePanelOpen, compliancePanelOpen, setCompliancePanelOpen,
+    setBackgroundColor, setGridVisible, setGridSpacing, setGridColor, setGridSectionColor,
+    arrayDraft, setArrayDraft
   } = useStore();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const modelInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSaveProject = useCallback(() => {
+    downloadProject(getProjectContent(useStore.getState())).catch((err) => {
+      console.error("Error saving project:", err);
+      alert("Could not save project.");
+    });
+  }, []);
+
+  const handleProjectOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      parseProjectBlob(file)
+        .then(loadProject)
+        .catch((err) => {
+          console.error("Error opening project:", err);
+          alert(`Could not open project: ${err instanceof Error ? err.message : String(err)}`);
+        });
+    }
+    if (e.target) e.target.value = '';
+  };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -124,7 +149,7 @@ export const Toolbar: React.FC = () => {
   }
 
   const handleNewFile = useCallback(() => {
-     if (window.confirm("Start a new file? All unsaved changes will be lost.")) {
+     if (window.confirm("Start a new file? The current scene can still be recovered from autosave.")) {
         resetScene();
      }
   }, [resetScene]);
@@ -139,6 +164,7 @@ export const Toolbar: React.FC = () => {
       if (e.key === '2') addShape('sphere');
       if (e.key === '3') addShape('cylinder');
       if (e.key === '4') addShape('tree');
+      if (e.key === '5') addShape('tower');
       if (e.key.toLowerCase() === 'p') setIsDrawing(!isDrawing);
       if (e.key.toLowerCase() === 'v') setTransformMode('select');
 
@@ -173,7 +199,10 @@ export const Toolbar: React.FC = () => {
       
       // Delete
       if (e.key === 'Delete' || e.key === 'Backspace') {
-          deleteSelected();
+          // In vertex edit mode the key removes the selected vertex, never the shape
+          const { editingShapeId, editingVertex, deleteVertex } = useStore.getState();
+          if (!editingShapeId) deleteSelected();
+          else if (editingVertex !== null) deleteVertex(editingVertex);
       }
 
       // Group (Ctrl+G)
@@ -186,14 +215,19 @@ export const Toolbar: React.FC = () => {
          }
       }
 
-      // Import/Export/New
+      // Open/Save/Import/Export/New
       if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'o') {
+          e.preventDefault();
+          projectInputRef.current?.click();
+      }
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'i') {
           e.preventDefault();
           modelInputRef.current?.click();
       }
       if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
           e.preventDefault();
-          triggerExport();
+          if (e.shiftKey) triggerExport();
+          else handleSaveProject();
       }
       if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'n') {
           e.preventDefault();
@@ -202,7 +236,11 @@ export const Toolbar: React.FC = () => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo, redo, deleteSelected, groupSelected, ungroupSelected, copy, paste, addShape, setIsDrawing, isDrawing, setTransformMode, toggleSnap, triggerExport, handleNewFile]);
+  }, [undo, redo, deleteSelected, groupSelected, ungroupSelected, copy, paste, addShape, setIsDrawing, isDrawing, setTransformMode, toggleSnap, triggerExport, handleNewFile, handleSaveProject]);
+
+  const { entries: historyEntries, index: historyIndex } = useStore(getHistoryEntries);
+  const canUndo = historyIndex > 0;
+  const canRedo = historyIndex < historyEntries.length;
 
   const btnClass = "w-10 h-10 rounded-lg hover:bg-slate-50 text-slate-500 transition-all flex items-center justify-center active:scale-95";
   const activeClass = "bg-blue-50 text-blue-600 shadow-inner ring-1 ring-blue-100";
@@ -232,14 +270,24 @@ export const Toolbar: React.FC = () => {
       <button className={btnClass} onClick={() => addShape('tree')} title="Block Tree (4)">
         <Trees size={20} />
       </button>
+      <button className={btnClass} onClick={() => addShape('tower')} title="Tower (5)">
+        <Building size={20} />
+      </button>
       
       <button 
-        className={`${btnClass} ${isDrawing ? activeClass : ''}`}
-        onClick={() => setIsDrawing(!isDrawing)}
+        className={`${btnClass} ${isDrawing && drawingTarget === 'mass' ? activeClass : ''}`}
+        onClick={() => setIsDrawing(!(isDrawing && drawingTarget === 'mass'))}
         title="Draw Surface (P)"
       >
         <PenTool size={20} />
       </button>
+      <button 
+        className={`${btnClass} ${isDrawing && drawingTarget === 'site' ? activeClass : ''}`}
+        onClick={() => setIsDrawing(!(isDrawing && drawingTarget === 'site'), 'site')}
+        title="Draw Site Boundary"
+      >
+        <LandPlot size={20} />
+      </button>
 
       {separator}
       
@@ -248,9 +296,28 @@ export const Toolbar: React.FC = () => {
         <FilePlus size={20} />
       </button>
 
-      <button className={btnClass} onClick={() => modelInputRef.current?.click()} title="Import 3D (Ctrl+O)">
+      <button className={btnClass} onClick={() => projectInputRef.current?.click()} title="Open Project (Ctrl+O)">
         <FolderOpen size={20} />
       </button>
+      <input 
+        ref={projectInputRef} 
+        type="file" 
+        accept={`${PROJECT_EXTENSION},application/json`} 
+        className="hidden" 
+        onChange={handleProjectOpen} 
+      />
+
+      <button className={btnClass} onClick={handleSaveProject} title="Save Project (Ctrl+S)">
+        <Save size={20} />
+      </button>
+
+      <button className={btnClass} onClick={() => setSessionsDialogOpen(true)} title="Recover Autosave">
+        <ArchiveRestore size={20} />
+      </button>
+
+      <button className={btnClass} onClick={() => modelInputRef.current?.click()} title="Import 3D (Ctrl+I)">
+        <Import size={20} />
+      </button>
       <input 
         ref={modelInputRef} 
         type="file" 
@@ -259,8 +326,8 @@ export const Toolbar: React.FC = () => {
         onChange={handleModelUpload} 
       />
 
-      <button className={btnClass} onClick={() => triggerExport()} title="Export 3D (Ctrl+S)">
-        <Save size={20} />
+      <button className={btnClass} onClick={() => triggerExport()} title="Export 3D (Ctrl+Shift+S)">
+        <Download size={20} />
       </button>
 
       <button className={btnClass} onClick={() => fileInputRef.current?.click()} title="Import Image">
@@ -298,22 +365,29 @@ export const Toolbar: React.FC = () => {
       >
         <Scaling size={20} />
       </button>
+      <button 
+        className={`${btnClass} ${arrayDraft ? activeClass : ''}`}
+        onClick={() => setArrayDraft(arrayDraft ? null : createArrayDraft(shapes, selectedIds))}
+        title="Array: copies of the selection in a row, grid, circle or along a path"
+      >
+        <Grid3x3 size={20} />
+      </button>
 
       {separator}
 
       {/* History & Modifiers */}
       <button 
-        className={`${btnClass} ${history.past.length === 0 ? 'opacity-30 cursor-not-allowed' : ''}`}
+        className={`${btnClass} ${!canUndo ? 'opacity-30 cursor-not-allowed' : ''}`}
         onClick={undo}
-        disabled={history.past.length === 0}
+        disabled={!canUndo}
         title="Undo (Ctrl+Z)"
       >
         <Undo size={20} />
       </button>
       <button 
-        className={`${btnClass} ${history.future.length === 0 ? 'opacity-30 cursor-not-allowed' : ''}`}
+        className={`${btnClass} ${!canRedo ? 'opacity-30 cursor-not-allowed' : ''}`}
         onClick={redo}
-        disabled={history.future.length === 0}
+        disabled={!canRedo}
         title="Redo (Ctrl+Shift+Z)"
       >
         <Redo size={20} />
@@ -346,7 +420,38 @@ export const Toolbar: React.FC = () => {
       >
         <Sun size={20} />
       </button>
+
+      <button 
+        className={`${btnClass} ${schedulePanelOpen ? activeClass : ''}`}
+        onClick={() => setSchedulePanelOpen(!schedulePanelOpen)}
+        title="Area Schedule"
+      >
+        <Sheet size={20} />
+      </button>
+
+      <button 
+        className={`${btnClass} ${compliancePanelOpen ? activeClass : ''}`}
+        onClick={() => setCompliancePanelOpen(!compliancePanelOpen)}
+        title="Compliance Report"
+      >
+        <ShieldCheck size={20} />
+      </button>
       
+      {canCombine(shapes, selectedIds) && (
+        <>
+          {separator}
+          <button className={btnClass} onClick={() => booleanSelected('union')} title="Union">
+            <SquaresUnite size={20} />
+          </button>
+          <button className={btnClass} onClick={() => booleanSelected('subtract')} title="Subtract from first selected">
+            <SquaresSubtract size={20} />
+          </button>
+          <button className={btnClass} onClick={() => booleanSelected('intersect')} title="Intersect">
+            <SquaresIntersect size={20} />
+          </button>
+        </>
+      )}
+
       {selectedIds.length > 0 && (
         <button 
           className={`${btnClass} text-red-500 hover:bg-red-50 hover:text-red-600`}
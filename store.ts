@@ -1,7 +1,22 @@
 
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
-import { ShapeData, ShapeType, ViewMode, SunSettings } from './types';
+import { ShapeData, ShapeType, ViewMode, SunSettings, SceneSettings, SnapSettings, VertexRef, BooleanOperation, ComplianceRules, ArraySettings, LayerPlacement } from './types';
+import { ProjectContent } from './utils/projectFile';
+import { SnapResult } from './utils/snapping';
+import { MeasurementContext, parseMeasurement, pointAtDistance, formatLength, formatAngle, formatFactor } from './utils/measurement';
+import { DrawingTool, DrawingTarget, SELECTION_TARGETS, PATH_TOOLS, TOOL_MEASUREMENTS, buildShapeOutline, planArea } from './utils/drawing';
+import { getDescendantIds, getFootprintLoops, getLocalMatrix, getParentWorldMatrix, getSelectionRoots, getTransformFromMatrix, getTransformInParent, getWorldMatrix, indexShapes, loopInsideLoop, loopsDisjoint, offsetShapeFootprint } from './utils/geometry';
+import { PushPullFace, applyPushPull } from './utils/pushpull';
+import { BOOLEAN_LABELS, canCombine } from './utils/csg';
+import { canHaveFloors, fitFloors, getFloorsTotalHeight } from './utils/floors';
+import { DEFAULT_ZONING } from './utils/zoning';
+import { DEFAULT_TOWER } from './utils/tower';
+import { ComplianceFile, DEFAULT_COMPLIANCE_RULES } from './utils/compliance';
+import { OffsetJoin } from './utils/offset';
+import { ArrayDraft, getArrayOrigin, getArrayTransforms } from './utils/array';
+import { AlignEdge, AlignTarget, DistributeMode, PivotMode, ShapeUpdates, getAlignUpdates, getDistributeUpdates, getMirrorUpdates, getSelectionCenter } from './utils/arrange';
+import { DocumentState, HistoryCommand, diffDocuments, applyCommand, estimateCommandSize, trimToBudget } from './utils/history';
 import * as THREE from 'three';
 
 export interface CameraRequest {
@@ -9,6 +24,14 @@ export interface CameraRequest {
   type: 'iso' | 'axo' | 'top' | 'front' | 'right' | 'left' | 'back' | 'bottom';
 }
 
+interface PendingCommand {
+  id: string;
+  label: string;
+  coalesceKey?: string;
+  touchedAt: number;
+  base: DocumentState;
+}
+
 interface AppState {
   shapes: ShapeData[];
   selectedIds: string[]; // Changed from selectedId string | null
@@ -16,12 +39,21 @@ interface AppState {
   
   // UI State
   uiVisible: boolean;
+  sessionsDialogOpen: boolean;
+  schedulePanelOpen: boolean;
+  compliancePanelOpen: boolean;
+  colorByAttribute: string | null; // Attribute key the viewport colours shapes by
+
+  // Autosave session the current document is written to
+  sessionId: string;
 
   // History
   history: {
-    past: ShapeData[][];
-    future: ShapeData[][];
+    past: HistoryCommand[];
+    future: HistoryCommand[];
   };
+  // Command opened by snapshot() and recorded once the next history action happens
+  pendingHistory: PendingCommand | null;
 
   // Scene Settings
   backgroundColor: string;
@@ -35,16 +67,33 @@ interface AppState {
   gridSpacing: number;
   gridColor: string;
   gridSectionColor: string;
+
+  // Site
+  siteArea: number;
+  complianceRules: ComplianceRules;
   
   // Tool Settings
   transformMode: 'translate' | 'rotate' | 'scale' | 'pushpull' | 'select';
   isDrawing: boolean;
   isDragging: boolean; 
-  drawingPoints: [number, number, number][];
+  drawingPoints: [number, number, number][]; // Path so far, or the clicks of a shape tool
+  drawingTool: DrawingTool;
+  drawingTarget: DrawingTarget;
+  polygonSides: number;
+  cutHoles: boolean; // Closed outlines drawn inside a footprint become courtyards
+  drawingCursor: [number, number, number] | null; // Rubber band end while drawing
+  measurement: MeasurementContext | null; // What the measurements box currently edits
+  arrayDraft: ArrayDraft | null; // Array tool, while open: the layout previewed on the selection
+  pivotMode: PivotMode; // What the gizmo of a multi-selection turns and scales about
+  customPivot: [number, number, number];
+  editingShapeId: string | null; // Custom shape whose footprint vertices are being edited
+  editingVertex: VertexRef | null; // Selected vertex of that footprint
+  pushPullFace: PushPullFace | null; // Face under the cursor (or being dragged) in push/pull mode
   
   snapEnabled: boolean;
   objectSnapEnabled: boolean;
   snapGrid: number;
+  snapIndicator: SnapResult | null; // Object snap currently under the cursor
   
   // View Settings
   viewMode: ViewMode;
@@ -53,11 +102,17 @@ interface AppState {
   
   // Actions
   toggleUi: () => void;
+  setSessionsDialogOpen: (open: boolean) => void;
+  setSchedulePanelOpen: (open: boolean) => void;
+  setCompliancePanelOpen: (open: boolean) => void;
+  setColorByAttribute: (key: string | null) => void;
   resetScene: () => void;
+  loadProject: (content: ProjectContent, sessionId?: string) => void;
 
-  snapshot: () => void;
+  snapshot: (label?: string, coalesceKey?: string) => void;
   undo: () => void;
   redo: () => void;
+  jumpToHistory: (index: number) => void;
   
   copy: () => void;
   paste: () => void;
@@ -72,30 +127,65 @@ interface AppState {
   setSelection: (ids: string[]) => void;
 
   updateShape: (id: string, updates: Partial<ShapeData>) => void;
+  updateShapes: (updates: ShapeUpdates) => void; // Several shapes at once, each as updateShape would
   toggleShapeVisibility: (id: string) => void;
   toggleShapeLock: (id: string) => void; 
+  setAttribute: (ids: string[], key: string, value: string | null) => void;
   deleteSelected: () => void;
   
   groupSelected: () => void;
   ungroupSelected: () => void;
+  moveToGroup: (ids: string[], groupId: string | null) => void; // Reparents, keeping world placement; null for the top level
+  moveLayers: (ids: string[], targetId: string | null, placement: LayerPlacement) => void; // Layers drag and drop; a null target is the end of the top level
+  booleanSelected: (operation: BooleanOperation) => void;
+  offsetSelected: (distance: number, join: OffsetJoin) => void; // Parallel footprints of the selected custom shape or site
+  makeTowerFromSelected: () => void; // Turns the selected custom shape into a tower standing on its footprint
+  setPivotMode: (mode: PivotMode) => void;
+  setCustomPivot: (point: [number, number, number]) => void;
+  setArrayDraft: (draft: ArrayDraft | null) => void; // Opens, edits or closes the array tool
+  createArray: () => void; // Copies the selection as the array tool lays it out
+  updateArray: (id: string, settings: Partial<ArraySettings>) => void; // Edits an array group and regenerates its copies
+  alignSelected: (axis: number, edge: AlignEdge, target: AlignTarget) => void;
+  distributeSelected: (axis: number, mode: DistributeMode) => void;
+  mirrorSelected: (normal: [number, number, number], through?: [number, number, number]) => void; // Across the vertical plane with this plan normal, through the selection's centre unless given
   toggleGroupCollapse: (id: string) => void;
 
   setTransformMode: (mode: 'translate' | 'rotate' | 'scale' | 'pushpull' | 'select') => void;
-  setIsDrawing: (isDrawing: boolean) => void;
+  setIsDrawing: (isDrawing: boolean, target?: DrawingTarget) => void;
   setIsDragging: (isDragging: boolean) => void;
   addDrawingPoint: (point: [number, number, number]) => void;
-  finishDrawing: () => void;
+  finishDrawing: (outline?: [number, number, number][]) => void;
   cancelDrawing: () => void;
+  setDrawingCursor: (point: [number, number, number] | null) => void;
+  setDrawingTool: (tool: DrawingTool) => void;
+  setPolygonSides: (sides: number) => void;
+  toggleCutHoles: () => void;
+
+  setMeasurement: (measurement: MeasurementContext | null) => void;
+  beginMeasurement: () => void;
+  applyMeasurement: (input: string) => boolean;
+
+  setPushPullFace: (face: PushPullFace | null) => void;
+
+  setEditingShape: (id: string | null) => void;
+  setEditingVertex: (vertex: VertexRef | null) => void;
+  moveVertex: (vertex: VertexRef, point: [number, number, number]) => void;
+  insertVertex: (edgeStart: VertexRef, point: [number, number, number]) => void;
+  deleteVertex: (vertex: VertexRef) => void;
 
   toggleSnap: () => void;
   toggleObjectSnap: () => void;
   setSnapGrid: (val: number) => void;
+  setSnapIndicator: (snap: SnapResult | null) => void;
   
   setBackgroundColor: (color: string) => void;
   setGridVisible: (visible: boolean) => void;
   setGridSpacing: (spacing: number) => void;
   setGridColor: (color: string) => void;
   setGridSectionColor: (color: string) => void;
+  setSiteArea: (area: number) => void;
+  setComplianceRules: (rules: Partial<ComplianceRules>) => void;
+  importCompliance: (file: ComplianceFile) => void; // Replaces the rules and the site area; adds the file's sites to the scene
   
   setSunSettings: (settings: Partial<SunSettings>) => void;
 
@@ -103,6 +193,273 @@ interface AppState {
   requestCameraView: (type: CameraRequest['type']) => void;
 }
 
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  backgroundColor: '#f1f5f9',
+  gridVisible: true,
+  shadowsEnabled: true,
+  gridSpacing: 1,
+  gridColor: '#cbd5e1',
+  gridSectionColor: '#94a3b8',
+  siteArea: 0,
+  complianceRules: DEFAULT_COMPLIANCE_RULES,
+};
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  snapEnabled: true,
+  objectSnapEnabled: false,
+  snapGrid: 0.5,
+};
+
+export const DEFAULT_SUN_SETTINGS: SunSettings = {
+  enabled: false,
+  showPath: true,
+  latitude: 40.7128, // NYC default
+  longitude: -74.0060,
+  date: 172, // Summer Solstice approx
+  time: 12, // Noon UTC-ish reference
+  radius: 20,
+  sunColor: '#fcd34d',
+  pathColor: '#94a3b8',
+  shadowColor: '#000000'
+};
+
+// Everything that makes up a saved document (see utils/projectFile.ts)
+export const getProjectContent = (state: AppState): ProjectContent => ({
+  shapes: state.shapes,
+  scene: {
+    backgroundColor: state.backgroundColor,
+    gridVisible: state.gridVisible,
+    shadowsEnabled: state.shadowsEnabled,
+    gridSpacing: state.gridSpacing,
+    gridColor: state.gridColor,
+    gridSectionColor: state.gridSectionColor,
+    siteArea: state.siteArea,
+    complianceRules: state.complianceRules,
+  },
+  snap: {
+    snapEnabled: state.snapEnabled,
+    objectSnapEnabled: state.objectSnapEnabled,
+    snapGrid: state.snapGrid,
+  },
+  sunSettings: state.sunSettings,
+});
+
+export const getDocumentState = (state: AppState): DocumentState => {
+  const { shapes, scene, sunSettings } = getProjectContent(state);
+  return { shapes, scene, sunSettings };
+};
+
+// Snapshots with the same coalesce key within this window merge into one history entry
+const COALESCE_WINDOW = 1000;
+
+const hasPendingChanges = (state: AppState) => {
+  const pending = state.pendingHistory;
+  return !!pending && !!diffDocuments(pending.base, getDocumentState(state));
+};
+
+interface HistoryEntries {
+  entries: { id: string; label: string; timestamp: number }[];
+  index: number; // Entries before this one are done, the rest undone
+}
+
+// What the entries depend on: the history and, through the pending snapshot, the document
+const getHistoryInputs = (state: AppState) =>
+  [state.history, state.pendingHistory, state.shapes, state.sunSettings, ...Object.values(getProjectContent(state).scene)];
+let lastHistoryEntries: { inputs: unknown[]; result: HistoryEntries } | null = null;
+
+// Past commands plus the pending one (if it changed anything), followed by the redo stack. The
+// same object comes back until an input changes, so it works as a store selector.
+export const getHistoryEntries = (state: AppState): HistoryEntries => {
+  const inputs = getHistoryInputs(state);
+  if (lastHistoryEntries && inputs.every((input, i) => input === lastHistoryEntries!.inputs[i])) return lastHistoryEntries.result;
+
+  const past = state.history.past.map(c => ({ id: c.id, label: c.label, timestamp: c.timestamp }));
+  const pending = state.pendingHistory;
+  if (pending && hasPendingChanges(state)) {
+    past.push({ id: pending.id, label: pending.label, timestamp: pending.touchedAt });
+  }
+  const future = state.history.future.map(c => ({ id: c.id, label: c.label, timestamp: c.timestamp }));
+  const result = { entries: [...past, ...future], index: past.length };
+  lastHistoryEntries = { inputs, result };
+  return result;
+};
+
+// Turn the pending snapshot into a recorded command, if anything actually changed since
+const commitPending = (state: AppState): AppState['history'] => {
+  const pending = state.pendingHistory;
+  if (!pending) return state.history;
+  const diff = diffDocuments(pending.base, getDocumentState(state));
+  if (!diff) return state.history;
+
+  const command: HistoryCommand = {
+    id: pending.id,
+    label: pending.label,
+    timestamp: pending.touchedAt,
+    ...diff,
+    size: estimateCommandSize(diff)
+  };
+  return { past: trimToBudget([...state.history.past, command]), future: [] };
+};
+
+const applyDocumentState = (doc: DocumentState) => ({
+  shapes: doc.shapes,
+  ...doc.scene,
+  sunSettings: doc.sunSettings
+});
+
+// Smallest flat custom footprint that fully contains the drawn outline without touching its other
+// courtyards. Returns the outline in that shape's local footprint space.
+const findHoleHost = (shapes: ShapeData[], outline: [number, number, number][]) => {
+  const index = indexShapes(shapes);
+  let best: { shape: ShapeData; hole: [number, number, number][]; area: number } | null = null;
+
+  for (const shape of shapes) {
+    if (shape.type !== 'custom' || !shape.points || shape.points.length < 3 || !shape.visible || shape.locked) continue;
+    const matrix = getWorldMatrix(shape, index);
+    const up = new THREE.Vector3(0, 1, 0).transformDirection(matrix);
+    if (Math.abs(up.y) < 0.999) continue; // Tilted footprints do not project onto the ground plane
+
+    const inverse = matrix.clone().invert();
+    const hole = outline.map(p => {
+      const local = new THREE.Vector3(p[0], 0, p[2]).applyMatrix4(inverse);
+      return [local.x, 0, local.z] as [number, number, number];
+    });
+    if (!loopInsideLoop(hole, shape.points) || !(shape.holes || []).every(h => loopsDisjoint(hole, h))) continue;
+
+    const area = Math.abs(planArea(shape.points.map(p => {
+      const w = new THREE.Vector3(p[0], 0, p[2]).applyMatrix4(matrix);
+      return [w.x, 0, w.z] as [number, number, number];
+    })));
+    if (!best || area < best.area) best = { shape, hole, area };
+  }
+  return best;
+};
+
+const getEditingShape = (state: AppState) => state.shapes.find(s => s.id === state.editingShapeId);
+
+// Updates that replace one loop of a custom footprint (0 = outline, n = holes[n - 1])
+const withLoop = (shape: ShapeData, loop: number, points: [number, number, number][]): Partial<ShapeData> =>
+  loop === 0 ? { points } : { holes: (shape.holes || []).map((h, i) => i === loop - 1 ? points : h) };
+
+// Groups other shapes can be moved into; array groups rebuild their contents from their originals
+export const canHoldShapes = (shape: ShapeData) => shape.type === 'group' && !shape.array;
+
+// Height of a mass: the extrusion of custom footprints, the Y dimension of everything else
+export const getShapeHeight = (shape: ShapeData) =>
+  shape.type === 'custom' ? (shape.extrudeDepth || 0) : shape.scale[1];
+
+// Updates that give the shape a new height while keeping its base where it is
+export const setShapeHeight = (shape: ShapeData, height: number): Partial<ShapeData> => {
+  if (shape.type === 'custom') return { extrudeDepth: height };
+  const base = shape.position[1] - shape.scale[1] / 2;
+  return {
+    scale: [shape.scale[0], height, shape.scale[2]],
+    position: [shape.position[0], base + height / 2, shape.position[2]]
+  };
+};
+
+// A mass with floors keeps a whole number of storeys: a new height (gizmo, push/pull, typed value)
+// picks the closest floor count and the height snaps to that stack
+const withDerivedHeight = (shape: ShapeData, updates: Partial<ShapeData>): ShapeData => {
+  if (!shape.floors || !canHaveFloors(shape)) return shape;
+  if (!('scale' in updates) && !('extrudeDepth' in updates) && !('floors' in updates)) return shape;
+  const floors = 'floors' in updates ? shape.floors : fitFloors(shape.floors, getShapeHeight(shape));
+  return { ...shape, floors, ...setShapeHeight(shape, getFloorsTotalHeight(floors)) };
+};
+
+// A new site faces the street on its longest edge until told otherwise
+const frontEdgeIndex = (points: [number, number, number][]) => {
+  const lengths = points.map((p, i) => {
+    const q = points[(i + 1) % points.length];
+    return Math.hypot(q[0] - p[0], q[2] - p[2]);
+  });
+  return lengths.indexOf(Math.max(...lengths));
+};
+
+const nextPlanShapeName = (shapes: ShapeData[], type: 'custom' | 'site') => {
+  const count = shapes.filter(s => s.type === type).length + 1;
+  return `${type === 'site' ? 'Site' : 'Surface'} ${count.toString().padStart(2, '0')}`;
+};
+
+// Flat footprint from a drawn outline (world x, z), positioned at the centre of its bounds
+const createPlanShape = (type: 'custom' | 'site', name: string, outline: [number, number, number][], holes: [number, number, number][][] = []): ShapeData => {
+  // 1. Calculate Bounds
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  outline.forEach(p => {
+    minX = Math.min(minX, p[0]);
+    maxX = Math.max(maxX, p[0]);
+    minZ = Math.min(minZ, p[2]);
+    maxZ = Math.max(maxZ, p[2]);
+  });
+
+  // 2. Calculate Centroid 
+  const centerX = (minX + maxX) / 2;
+  const centerZ = (minZ + maxZ) / 2;
+
+  // 3. Normalize points relative to centroid
+  const normalize = (loop: [number, number, number][]) => loop.map(p => [
+    p[0] - centerX, 
+    0, 
+    p[2] - centerZ
+  ]) as [number, number, number][];
+  const normalizedPoints = normalize(outline);
+
+  const isSite = type === 'site';
+  return {
+    id: uuidv4(),
+    name,
+    type,
+    position: [centerX, 0, centerZ],
+    rotation: [0, 0, 0], 
+    scale: [1, 1, 1],
+    points: normalizedPoints,
+    ...(holes.length > 0 ? { holes: holes.map(normalize) } : {}),
+    extrudeDepth: 0,
+    color: isSite ? '#bbf7d0' : '#cbd5e1',
+    opacity: 1,
+    visible: true,
+    locked: false,
+    wireframe: false,
+    edges: true,
+    edgeColor: isSite ? '#15803d' : '#1e293b',
+    ...(isSite ? { zoning: { ...DEFAULT_ZONING, frontEdge: frontEdgeIndex(normalizedPoints) } } : {})
+  };
+};
+
+// Copy of a shape (first) and everything inside it under new ids; the copy itself also takes `updates`
+const cloneShapeTree = (shapes: ShapeData[], root: ShapeData, updates: Partial<ShapeData>): ShapeData[] => {
+  const tree = getDescendantIds(root.id, shapes);
+  const ids = new Map([...tree].map(id => [id, uuidv4()]));
+  return [root, ...shapes.filter(s => tree.has(s.id) && s.id !== root.id)].map(s => {
+    const copy: ShapeData = { ...s, ...(s.id === root.id ? updates : { parentId: ids.get(s.parentId!) }), id: ids.get(s.id)! };
+    // Nested arrays keep pointing at their own originals
+    if (s.array?.sourceIds) copy.array = { ...s.array, sourceIds: s.array.sourceIds.map(id => ids.get(id) || id) };
+    return copy;
+  });
+};
+
+const withUpdates = (shapes: ShapeData[], updates: ShapeUpdates) =>
+  shapes.map(s => updates[s.id] ? { ...s, ...updates[s.id] } : s);
+
+// Short description of a set of shapes for history labels
+const describeShapes = (shapes: ShapeData[], ids: string[]) => {
+  if (ids.length === 1) return shapes.find(s => s.id === ids[0])?.name || 'object';
+  return `${ids.length} objects`;
+};
+
+const SUN_SETTING_LABELS: Partial<Record<keyof SunSettings, string>> = {
+  enabled: 'Toggle sun',
+  showPath: 'Toggle sun path',
+  latitude: 'Change latitude',
+  longitude: 'Change longitude',
+  date: 'Change sun date',
+  time: 'Change sun time',
+  radius: 'Change sun path scale',
+  sunColor: 'Change sun color',
+  pathColor: 'Change sun path color',
+  shadowColor: 'Change shadow color'
+};
+
 export const useStore = create<AppState>((set, get) => ({
   shapes: [
     {
@@ -125,46 +482,53 @@ export const useStore = create<AppState>((set, get) => ({
   clipboard: null,
   
   uiVisible: true,
+  sessionsDialogOpen: false,
+  schedulePanelOpen: false,
+  compliancePanelOpen: false,
+  colorByAttribute: null,
+
+  sessionId: uuidv4(),
 
   history: { past: [], future: [] },
+  pendingHistory: null,
 
-  backgroundColor: '#f1f5f9',
-  gridVisible: true,
-  shadowsEnabled: true,
+  ...DEFAULT_SCENE_SETTINGS,
   
-  sunSettings: {
-    enabled: false,
-    showPath: true,
-    latitude: 40.7128, // NYC default
-    longitude: -74.0060,
-    date: 172, // Summer Solstice approx
-    time: 12, // Noon UTC-ish reference
-    radius: 20,
-    sunColor: '#fcd34d',
-    pathColor: '#94a3b8',
-    shadowColor: '#000000'
-  },
-
-  gridSpacing: 1,
-  gridColor: '#cbd5e1',
-  gridSectionColor: '#94a3b8',
+  sunSettings: DEFAULT_SUN_SETTINGS,
   
   transformMode: 'translate',
   isDrawing: false,
   isDragging: false,
   drawingPoints: [],
+  drawingTool: 'polyline',
+  drawingTarget: 'mass',
+  polygonSides: 6,
+  cutHoles: true,
+  drawingCursor: null,
+  measurement: null,
+  arrayDraft: null,
+  pivotMode: 'center',
+  customPivot: [0, 0, 0],
+  editingShapeId: null,
+  editingVertex: null,
+  pushPullFace: null,
 
-  snapEnabled: true,
-  objectSnapEnabled: false,
-  snapGrid: 0.5,
+  ...DEFAULT_SNAP_SETTINGS,
+  snapIndicator: null,
   
   viewMode: 'perspective',
   cameraRequest: null,
   exportRequested: 0,
   
   toggleUi: () => set((state) => ({ uiVisible: !state.uiVisible })),
+  setSessionsDialogOpen: (open) => set({ sessionsDialogOpen: open }),
+  setSchedulePanelOpen: (open) => set({ schedulePanelOpen: open }),
+  setCompliancePanelOpen: (open) => set({ compliancePanelOpen: open }),
+  setColorByAttribute: (key) => set({ colorByAttribute: key }),
   
+  // A new document gets a new autosave session so the previous one stays recoverable
   resetScene: () => set({
+    sessionId: uuidv4(),
     shapes: [{
       id: uuidv4(),
       name: 'Box 01',
@@ -181,48 +545,107 @@ export const useStore = create<AppState>((set, get) => ({
       edgeColor: '#1e293b'
     }],
     selectedIds: [],
+    editingShapeId: null,
+    editingVertex: null,
     history: { past: [], future: [] },
+    pendingHistory: null,
+  }),
+
+  loadProject: (content, sessionId = uuidv4()) => set({
+    sessionId,
+    shapes: content.shapes,
+    ...DEFAULT_SCENE_SETTINGS,
+    ...content.scene,
+    ...DEFAULT_SNAP_SETTINGS,
+    ...content.snap,
+    sunSettings: { ...DEFAULT_SUN_SETTINGS, ...content.sunSettings },
+    selectedIds: [],
+    editingShapeId: null,
+    editingVertex: null,
+    clipboard: null,
+    isDrawing: false,
+    drawingPoints: [],
+    arrayDraft: null,
+    history: { past: [], future: [] },
+    pendingHistory: null,
   }),
 
   // --- HISTORY ACTIONS ---
-  snapshot: () => set((state) => {
-    const newPast = [...state.history.past, state.shapes];
-    if (newPast.length > 10) newPast.shift(); // Keep last 10 steps
+  // Call before mutating: records the current document as the "before" state of a new command.
+  // Repeated snapshots with the same coalesceKey (slider drags, colour pickers) extend one command.
+  snapshot: (label = 'Edit', coalesceKey) => {
+    const state = get();
+    const now = Date.now();
+    const pending = state.pendingHistory;
+
+    if (pending && coalesceKey && pending.coalesceKey === coalesceKey && now - pending.touchedAt < COALESCE_WINDOW) {
+      set({ pendingHistory: { ...pending, touchedAt: now } });
+      return;
+    }
+
+    set({
+      history: commitPending(state),
+      pendingHistory: { id: uuidv4(), label, coalesceKey, touchedAt: now, base: getDocumentState(state) }
+    });
+  },
+
+  undo: () => set((state) => {
+    const history = commitPending(state);
+    if (history.past.length === 0) return { history, pendingHistory: null };
+    const command = history.past[history.past.length - 1];
+    
     return {
+      ...applyDocumentState(applyCommand(getDocumentState(state), command, 'undo')),
+      selectedIds: state.editingShapeId ? [state.editingShapeId] : [], // Deselect to avoid ghosting, except the shape being vertex edited
+      editingVertex: null,
+      pendingHistory: null,
       history: {
-        past: newPast,
-        future: []
+        past: history.past.slice(0, -1),
+        future: [command, ...history.future]
       }
     };
   }),
 
-  undo: () => set((state) => {
-    if (state.history.past.length === 0) return {};
-    const previous = state.history.past[state.history.past.length - 1];
-    const newPast = state.history.past.slice(0, -1);
+  redo: () => set((state) => {
+    const history = commitPending(state);
+    if (history.future.length === 0) return { history, pendingHistory: null };
+    const command = history.future[0];
     
     return {
-      shapes: previous,
-      selectedIds: [], // Deselect to avoid ghosting
+      ...applyDocumentState(applyCommand(getDocumentState(state), command, 'redo')),
+      selectedIds: state.editingShapeId ? [state.editingShapeId] : [],
+      editingVertex: null,
+      pendingHistory: null,
       history: {
-        past: newPast,
-        future: [state.shapes, ...state.history.future]
+        past: [...history.past, command],
+        future: history.future.slice(1)
       }
     };
   }),
 
-  redo: () => set((state) => {
-    if (state.history.future.length === 0) return {};
-    const next = state.history.future[0];
-    const newFuture = state.history.future.slice(1);
+  // index = number of commands left applied (0 = before the first recorded command)
+  jumpToHistory: (index) => set((state) => {
+    let { past, future } = commitPending(state);
+    let doc = getDocumentState(state);
     
+    while (past.length > index && past.length > 0) {
+      const command = past[past.length - 1];
+      doc = applyCommand(doc, command, 'undo');
+      past = past.slice(0, -1);
+      future = [command, ...future];
+    }
+    while (past.length < index && future.length > 0) {
+      const command = future[0];
+      doc = applyCommand(doc, command, 'redo');
+      past = [...past, command];
+      future = future.slice(1);
+    }
+
     return {
-      shapes: next,
+      ...applyDocumentState(doc),
       selectedIds: [],
-      history: {
-        past: [...state.history.past, state.shapes],
-        future: newFuture
-      }
+      pendingHistory: null,
+      history: { past, future }
     };
   }),
 
@@ -242,63 +665,38 @@ export const useStore = create<AppState>((set, get) => ({
   duplicateSelected: (withOffset = true) => {
     const { shapes, selectedIds, snapshot } = get();
     if (selectedIds.length === 0) return;
-    snapshot();
-
-    const newIds: string[] = [];
-    const newShapes = [...shapes];
-
-    // Find all items to duplicate (including children if group is selected, though copy logic handles group root)
-    const itemsToClone = shapes.filter(s => selectedIds.includes(s.id));
-
-    itemsToClone.forEach(item => {
-        const newId = uuidv4();
-        newIds.push(newId);
-        const offset = withOffset ? 2 : 0;
-        
-        const clone: ShapeData = {
-            ...item,
-            id: newId,
-            name: `${item.name} (Copy)`,
-            position: [item.position[0] + offset, item.position[1], item.position[2] + offset],
-            parentId: item.parentId // Keep parent if duplicating inside group? Usually duplication happens at same level
-        };
-        newShapes.push(clone);
-
-        // If it's a group, we might need to deep clone children. 
-        // For MVP simplicity, this shallow clones the selected object. 
-        // If the object is a Group, its children need to be cloned too.
-        if (item.type === 'group') {
-             const children = shapes.filter(s => s.parentId === item.id);
-             children.forEach(child => {
-                 const childClone: ShapeData = {
-                     ...child,
-                     id: uuidv4(),
-                     parentId: newId, // Point to new Group
-                     // Position is relative to group, so it stays same
-                 };
-                 newShapes.push(childClone);
-             });
-        }
+    snapshot(`Duplicate ${describeShapes(shapes, selectedIds)}`);
+
+    // Copies land beside the originals in the world, whatever frame they live in
+    const index = indexShapes(shapes);
+    const offset = new THREE.Vector3(withOffset ? 2 : 0, 0, withOffset ? 2 : 0);
+    const copies = getSelectionRoots(shapes, selectedIds).map(item => {
+      const parent = getParentWorldMatrix(item, index);
+      const world = new THREE.Vector3(...item.position).applyMatrix4(parent).add(offset);
+      const local = world.applyMatrix4(parent.invert());
+      return cloneShapeTree(shapes, item, { name: `${item.name} (Copy)`, position: [local.x, local.y, local.z] });
     });
 
     set({
-        shapes: newShapes,
-        selectedIds: newIds
+        shapes: [...shapes, ...copies.flat()],
+        selectedIds: copies.map(tree => tree[0].id)
     });
   },
 
   triggerExport: () => set(state => ({ exportRequested: state.exportRequested + 1 })),
 
   addShape: (type, extraData: Partial<ShapeData> = {}) => {
-    get().snapshot();
+    const { shapes, snapshot } = get();
+    const count = shapes.filter(s => s.type === type).length + 1;
+    const name = extraData.name || `${type.charAt(0).toUpperCase() + type.slice(1)} ${count.toString().padStart(2, '0')}`;
+    snapshot(`Add ${name}`);
     set((state) => {
-      const count = state.shapes.filter(s => s.type === type).length + 1;
-      const name = extraData.name || `${type.charAt(0).toUpperCase() + type.slice(1)} ${count.toString().padStart(2, '0')}`;
       
       let yPos = 0.5;
       if (type === 'plane' || type === 'image') yPos = 0;
       if (type === 'tree') yPos = 0; 
       if (type === 'model') yPos = 0;
+      if (type === 'tower') yPos = 0;
 
       const color = type === 'tree' ? '#ffffff' : type === 'plane' ? '#94a3b8' : '#e2e8f0';
       const secondaryColor = type === 'tree' ? '#5d4037' : undefined;
@@ -319,6 +717,7 @@ export const useStore = create<AppState>((set, get) => ({
         wireframe: false,
         edges: type !== 'tree' && type !== 'image' && type !== 'model',
         edgeColor: '#1e293b',
+        ...(type === 'tower' ? { tower: DEFAULT_TOWER } : {}),
         ...extraData
       };
       
@@ -329,7 +728,7 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   addShapes: (newShapes: ShapeData[]) => {
-     get().snapshot();
+     get().snapshot(newShapes.length === 1 ? `Add ${newShapes[0].name}` : `Import ${newShapes.length} objects`);
      set((state) => ({
         shapes: [...state.shapes, ...newShapes],
         selectedIds: newShapes.length > 0 ? [newShapes[newShapes.length - 1].id] : state.selectedIds,
@@ -339,17 +738,23 @@ export const useStore = create<AppState>((set, get) => ({
   },
   
   selectShape: (id, multi = false) => set((state) => {
-    if (!id) return { selectedIds: [] };
+    if (!id) return { selectedIds: [], measurement: null, editingShapeId: null, editingVertex: null };
     
     if (multi) {
       if (state.selectedIds.includes(id)) {
-        return { selectedIds: state.selectedIds.filter(sid => sid !== id) };
+        return { selectedIds: state.selectedIds.filter(sid => sid !== id), measurement: null, editingShapeId: null, editingVertex: null };
       } else {
-        return { selectedIds: [...state.selectedIds, id] };
+        return { selectedIds: [...state.selectedIds, id], measurement: null, editingShapeId: null, editingVertex: null };
       }
     }
     
-    return { selectedIds: [id] };
+    const same = state.selectedIds.length === 1 && state.selectedIds[0] === id;
+    return {
+      selectedIds: [id],
+      measurement: same ? state.measurement : null,
+      editingShapeId: state.editingShapeId === id ? id : null,
+      editingVertex: state.editingShapeId === id ? state.editingVertex : null
+    };
   }),
 
   selectAll: () => set((state) => ({
@@ -357,22 +762,54 @@ export const useStore = create<AppState>((set, get) => ({
     selectedIds: state.shapes.filter(s => s.visible && !s.locked).map(s => s.id)
   })),
 
-  setSelection: (ids) => set({ selectedIds: ids }),
+  setSelection: (ids) => set({ selectedIds: ids, measurement: null, editingShapeId: null, editingVertex: null }),
   
   updateShape: (id, updates) => set((state) => ({
-    shapes: state.shapes.map((s) => s.id === id ? { ...s, ...updates } : s)
+    shapes: state.shapes.map((s) => s.id === id ? withDerivedHeight({ ...s, ...updates }, updates) : s)
   })),
 
-  toggleShapeVisibility: (id) => set((state) => ({
-    shapes: state.shapes.map((s) => s.id === id ? { ...s, visible: !s.visible } : s)
+  updateShapes: (updates) => set((state) => ({
+    shapes: state.shapes.map((s) => updates[s.id] ? withDerivedHeight({ ...s, ...updates[s.id] }, updates[s.id]) : s)
   })),
 
-  toggleShapeLock: (id) => set((state) => ({
-    shapes: state.shapes.map((s) => s.id === id ? { ...s, locked: !s.locked } : s)
-  })),
+  // Sets (or with null removes) one attribute on several shapes at once; typing into the same field coalesces
+  setAttribute: (ids, key, value) => {
+    const { shapes, snapshot } = get();
+    const name = key.trim();
+    if (ids.length === 0 || !name) return;
+    snapshot(`${value === null ? 'Remove' : 'Set'} ${name} of ${describeShapes(shapes, ids)}`, `attribute:${name}:${ids.join(',')}`);
+    set((state) => ({
+      shapes: state.shapes.map((s) => {
+        if (!ids.includes(s.id)) return s;
+        const { [name]: _, ...rest } = s.attributes || {};
+        const attributes = value === null ? rest : { ...rest, [name]: value };
+        return { ...s, attributes: Object.keys(attributes).length > 0 ? attributes : undefined };
+      })
+    }));
+  },
+
+  toggleShapeVisibility: (id) => {
+    const shape = get().shapes.find(s => s.id === id);
+    if (!shape) return;
+    get().snapshot(`${shape.visible ? 'Hide' : 'Show'} ${shape.name}`);
+    set((state) => ({
+      shapes: state.shapes.map((s) => s.id === id ? { ...s, visible: !s.visible } : s)
+    }));
+  },
+
+  toggleShapeLock: (id) => {
+    const shape = get().shapes.find(s => s.id === id);
+    if (!shape) return;
+    get().snapshot(`${shape.locked ? 'Unlock' : 'Lock'} ${shape.name}`);
+    set((state) => ({
+      shapes: state.shapes.map((s) => s.id === id ? { ...s, locked: !s.locked } : s)
+    }));
+  },
   
   deleteSelected: () => {
-    get().snapshot();
+    const { shapes, selectedIds } = get();
+    if (selectedIds.length === 0) return;
+    get().snapshot(`Delete ${describeShapes(shapes, selectedIds)}`);
     set((state) => {
       const idsToDelete = new Set(state.selectedIds);
       
@@ -390,7 +827,9 @@ export const useStore = create<AppState>((set, get) => ({
       
       return {
         shapes: state.shapes.filter(s => !idsToDelete.has(s.id)),
-        selectedIds: []
+        selectedIds: [],
+        editingShapeId: null,
+        editingVertex: null
       };
     });
   },
@@ -399,22 +838,25 @@ export const useStore = create<AppState>((set, get) => ({
     const { shapes, selectedIds, snapshot } = get();
     if (selectedIds.length < 2) return;
     
-    snapshot();
+    snapshot(`Group ${selectedIds.length} objects`);
 
-    // 1. Calculate Centroid
-    const selectedShapes = shapes.filter(s => selectedIds.includes(s.id));
-    const centroid = new THREE.Vector3();
-    selectedShapes.forEach(s => {
-       centroid.add(new THREE.Vector3(...s.position));
-    });
-    centroid.divideScalar(selectedShapes.length);
+    // The group goes where the selection lives if they share a group, else at the top level; it
+    // stands at the middle of their origins, square to its parent
+    const index = indexShapes(shapes);
+    const roots = getSelectionRoots(shapes, selectedIds);
+    const common = roots.every(s => s.parentId === roots[0].parentId) ? index.get(roots[0].parentId!) : undefined;
+    const parent = common && canHoldShapes(common) ? common : undefined;
+    const centroid = roots
+      .reduce((sum, s) => sum.add(new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(s, index))), new THREE.Vector3())
+      .divideScalar(roots.length)
+      .applyMatrix4(parent ? getWorldMatrix(parent, index).invert() : new THREE.Matrix4());
 
-    // 2. Create Group Object
     const groupId = uuidv4();
     const groupShape: ShapeData = {
       id: groupId,
       name: 'Group',
       type: 'group',
+      parentId: parent?.id,
       position: [centroid.x, centroid.y, centroid.z],
       rotation: [0,0,0],
       scale: [1,1,1],
@@ -428,21 +870,12 @@ export const useStore = create<AppState>((set, get) => ({
       collapsed: false
     };
 
-    // 3. Update Children to be relative to Group
-    const updatedShapes = shapes.map(s => {
-      if (selectedIds.includes(s.id)) {
-        return {
-          ...s,
-          parentId: groupId,
-          position: [
-            s.position[0] - centroid.x,
-            s.position[1] - centroid.y,
-            s.position[2] - centroid.z
-          ] as [number, number, number]
-        };
-      }
-      return s;
-    });
+    // Children are placed in the group's frame so nothing moves in the world
+    const withGroup = new Map(index).set(groupId, groupShape);
+    const rootIds = new Set(roots.map(s => s.id));
+    const updatedShapes = shapes.map(s =>
+      rootIds.has(s.id) ? { ...s, ...getTransformInParent(s, groupId, withGroup), parentId: groupId } : s
+    );
 
     set({
       shapes: [...updatedShapes, groupShape],
@@ -453,45 +886,316 @@ export const useStore = create<AppState>((set, get) => ({
   ungroupSelected: () => {
     const { shapes, selectedIds, snapshot } = get();
     if (selectedIds.length !== 1) return;
-    
+
     const group = shapes.find(s => s.id === selectedIds[0]);
-    if (!group || group.type !== 'group') return;
+    if (!group || (group.type !== 'group' && group.type !== 'boolean')) return;
 
-    snapshot();
-    
-    const groupPos = new THREE.Vector3(...group.position);
-    const newSelection: string[] = [];
+    // Separating a boolean gives its operands back as they are
+    snapshot(`${group.type === 'boolean' ? 'Separate' : 'Ungroup'} ${group.name}`);
 
+    // Children take the group's place in its parent, staying where they are in the world
+    const index = indexShapes(shapes);
+    const newSelection: string[] = [];
     const updatedShapes = shapes.map(s => {
-       if (s.parentId === group.id) {
-          newSelection.push(s.id);
-          // Transform local back to world (simple translation approximation for MVP)
-          return {
-             ...s,
-             parentId: undefined,
-             position: [
-                s.position[0] + groupPos.x,
-                s.position[1] + groupPos.y,
-                s.position[2] + groupPos.z
-             ] as [number, number, number]
-          };
-       }
-       return s;
-    }).filter(s => s.id !== group.id); // Remove the group object
+       if (s.parentId !== group.id) return s;
+       newSelection.push(s.id);
+       return { ...s, ...getTransformInParent(s, group.parentId, index), parentId: group.parentId };
+    }).filter(s => s.id !== group.id);
 
     set({
        shapes: updatedShapes,
        selectedIds: newSelection
     });
   },
-  
+
+  moveToGroup: (ids, groupId) => {
+    const { shapes, moveLayers } = get();
+    // Shapes already there keep their place among their siblings
+    moveLayers(ids.filter(id => (shapes.find(s => s.id === id)?.parentId || null) !== groupId), groupId, 'inside');
+  },
+
+  moveLayers: (ids, targetId, placement) => {
+    const { shapes, snapshot } = get();
+    const index = indexShapes(shapes);
+    const target = targetId ? index.get(targetId) : undefined;
+    if (targetId && !target) return;
+    const parentId = placement === 'inside' ? target?.id : target?.parentId;
+    const parent = parentId ? index.get(parentId) : undefined;
+
+    // A shape can't go into itself or anything inside it, and locked ones stay put. Booleans and
+    // array groups take no new shapes, though what is in them can be reordered.
+    const moving = getSelectionRoots(shapes, ids).filter(s =>
+      !s.locked && s.id !== targetId && !(parentId && getDescendantIds(s.id, shapes).has(parentId))
+    );
+    if (moving.length === 0) return;
+    moving.sort((a, b) => shapes.indexOf(a) - shapes.indexOf(b)); // They keep their order among themselves
+    if (parent && !canHoldShapes(parent) && moving.some(s => s.parentId !== parent.id)) return;
+
+    const label = describeShapes(shapes, moving.map(s => s.id));
+    const reparented = moving.some(s => s.parentId !== parentId);
+    snapshot(!reparented ? `Reorder ${label}` : parent ? `Move ${label} into ${parent.name}` : `Move ${label} out of group`);
+
+    const movingIds = new Set(moving.map(s => s.id));
+    const placed = moving.map(s =>
+      s.parentId === parentId ? s : { ...s, ...getTransformInParent(s, parentId, index), parentId }
+    );
+    const rest = shapes.filter(s => !movingIds.has(s.id));
+    const at = !target || placement === 'inside' ? rest.length : rest.indexOf(target) + (placement === 'after' ? 1 : 0);
+    set({ shapes: [...rest.slice(0, at), ...placed, ...rest.slice(at)] });
+  },
+
+  booleanSelected: (operation) => {
+    const { shapes, selectedIds, snapshot } = get();
+    if (!canCombine(shapes, selectedIds)) return;
+
+    const label = BOOLEAN_LABELS[operation];
+    snapshot(`${label} ${describeShapes(shapes, selectedIds)}`);
+
+    // Operands keep their transforms: the boolean sits at the origin of their common parent.
+    // Selection order is operand order, so the first selected is what the others cut or clip.
+    const operands = selectedIds.map(id => shapes.find(s => s.id === id)!);
+    const base = operands[0];
+    const count = shapes.filter(s => s.type === 'boolean').length + 1;
+    const booleanShape: ShapeData = {
+      id: uuidv4(),
+      name: `${label} ${count.toString().padStart(2, '0')}`,
+      type: 'boolean',
+      booleanOperation: operation,
+      parentId: base.parentId,
+      position: [0, 0, 0],
+      rotation: [0, 0, 0],
+      scale: [1, 1, 1],
+      color: base.color,
+      opacity: base.opacity,
+      visible: true,
+      locked: false,
+      wireframe: false,
+      edges: base.edges,
+      edgeColor: base.edgeColor,
+      collapsed: true
+    };
+
+    set({
+      shapes: [
+        ...shapes.filter(s => !selectedIds.includes(s.id)),
+        booleanShape,
+        ...operands.map(s => ({ ...s, parentId: booleanShape.id }))
+      ],
+      selectedIds: [booleanShape.id],
+      measurement: null
+    });
+  },
+
+  // The offsets keep the source's base and height; they are new shapes beside it
+  offsetSelected: (distance, join) => {
+    const { shapes, selectedIds, snapshot } = get();
+    const source = selectedIds.length === 1 ? shapes.find(s => s.id === selectedIds[0]) : undefined;
+    if (!source || (source.type !== 'custom' && source.type !== 'site') || !source.points) return;
+    const regions = offsetShapeFootprint(source, distance, join);
+    if (regions.length === 0) return;
+
+    snapshot(`Offset ${source.name}`);
+    const offsets = regions.map((region, i) => {
+      const shape = createPlanShape('custom', `${source.name} Offset${regions.length > 1 ? ` ${i + 1}` : ''}`, region.outline, region.holes);
+      if (source.type === 'site') return { ...shape, parentId: source.parentId };
+      return {
+        ...shape,
+        parentId: source.parentId,
+        position: [shape.position[0], source.position[1], shape.position[2]] as [number, number, number],
+        extrudeDepth: (source.extrudeDepth || 0) * source.scale[1],
+        floors: source.floors,
+        attributes: source.attributes,
+        color: source.color,
+        edgeColor: source.edgeColor
+      };
+    });
+
+    set({ shapes: [...shapes, ...offsets], selectedIds: offsets.map(s => s.id), measurement: null });
+  },
+
+  // The shape keeps its id, place and data; its height (or floors) becomes the floor stack
+  makeTowerFromSelected: () => {
+    const { shapes, selectedIds, snapshot } = get();
+    const source = selectedIds.length === 1 ? shapes.find(s => s.id === selectedIds[0]) : undefined;
+    if (!source || source.type !== 'custom' || source.locked || !source.points || source.points.length < 3) return;
+
+    snapshot(`Make Tower from ${source.name}`);
+    const outline = source.points.map(p => [p[0] * source.scale[0], 0, p[2] * source.scale[2]] as [number, number, number]);
+    const bounds = new THREE.Box3().setFromPoints(outline.map(p => new THREE.Vector3(...p)));
+    const floorHeight = source.floors?.height || DEFAULT_TOWER.floorHeight;
+    const height = (source.extrudeDepth || 0) * source.scale[1];
+    const { points: _points, holes: _holes, extrudeDepth: _depth, floors: _floors, roof: _roof, facade: _facade, ...rest } = source;
+    const tower: ShapeData = {
+      ...rest,
+      type: 'tower',
+      scale: [1, 1, 1],
+      tower: {
+        ...DEFAULT_TOWER,
+        base: 'footprint',
+        outline,
+        width: bounds.max.x - bounds.min.x,
+        depth: bounds.max.z - bounds.min.z,
+        floorCount: source.floors?.count || Math.max(1, Math.round(height / floorHeight)),
+        floorHeight
+      }
+    };
+
+    set({ shapes: shapes.map(s => s.id === source.id ? tower : s), editingShapeId: null, editingVertex: null, measurement: null });
+  },
+
+  setPivotMode: (mode) => set({ pivotMode: mode }),
+  setCustomPivot: (point) => set({ customPivot: point }),
+
+  setArrayDraft: (draft) => set((state) => draft || !(state.isDrawing && state.drawingTarget === 'path')
+    ? { arrayDraft: draft }
+    : { arrayDraft: null, isDrawing: false, drawingPoints: [], drawingCursor: null, snapIndicator: null, measurement: null }),
+
+  // Copies go beside their originals, or into an array group with them whose layout stays editable.
+  // The tool works in world space; the group keeps its layout in its own frame so it moves with it.
+  createArray: () => {
+    const { shapes, selectedIds, arrayDraft, snapshot } = get();
+    const sources = getSelectionRoots(shapes, selectedIds);
+    if (!arrayDraft || sources.length === 0) return;
+    const { settings, parametric } = arrayDraft;
+    const index = indexShapes(shapes);
+    const worlds = sources.map(s => getWorldMatrix(s, index));
+    const origin = getArrayOrigin(worlds);
+    const transforms = getArrayTransforms(settings, origin);
+    if (transforms.length < 2) return;
+
+    snapshot(`Array ${describeShapes(shapes, sources.map(s => s.id))}`);
+    const copyName = (source: ShapeData, item: number) => `${source.name} (${item + 1})`;
+
+    if (!parametric) {
+      // Only a path moves the originals
+      const moved = !transforms[0].equals(new THREE.Matrix4());
+      const parents = sources.map(s => getParentWorldMatrix(s, index).invert());
+      const place = (item: number, j: number) =>
+        getTransformFromMatrix(parents[j].clone().multiply(transforms[item]).multiply(worlds[j]));
+      const trees = transforms.slice(1).flatMap((_, i) => sources.map((source, j) =>
+        cloneShapeTree(shapes, source, { ...place(i + 1, j), name: copyName(source, i + 1) })
+      ));
+      set({
+        shapes: [...shapes.map(s => {
+          const j = sources.indexOf(s);
+          return j >= 0 && moved ? { ...s, ...place(0, j) } : s;
+        }), ...trees.flat()],
+        selectedIds: [...sources.map(s => s.id), ...trees.map(tree => tree[0].id)],
+        arrayDraft: null,
+        measurement: null
+      });
+      return;
+    }
+
+    // The group stands where the originals end up, in their common parent if they have one
+    const parentId = sources.every(s => s.parentId === sources[0].parentId) ? sources[0].parentId : undefined;
+    const parentWorld = parentId ? getWorldMatrix(index.get(parentId)!, index) : new THREE.Matrix4();
+    const position = origin.clone().applyMatrix4(transforms[0]).applyMatrix4(parentWorld.clone().invert());
+    const groupWorld = parentWorld.clone().multiply(new THREE.Matrix4().makeTranslation(position.x, position.y, position.z));
+    const toGroup = groupWorld.clone().invert();
+    const toGroupPoint = (p: [number, number, number]) => new THREE.Vector3(...p).applyMatrix4(toGroup).toArray() as [number, number, number];
+    const spacing = new THREE.Vector3(...settings.spacing).applyMatrix3(new THREE.Matrix3().setFromMatrix4(toGroup));
+    const place = (item: number, j: number) => getTransformFromMatrix(toGroup.clone().multiply(transforms[item]).multiply(worlds[j]));
+
+    const count = shapes.filter(s => s.array).length + 1;
+    const group: ShapeData = {
+      id: uuidv4(),
+      name: `Array ${count.toString().padStart(2, '0')}`,
+      type: 'group',
+      parentId,
+      position: [position.x, position.y, position.z],
+      rotation: [0, 0, 0],
+      scale: [1, 1, 1],
+      color: '#ffffff',
+      opacity: 1,
+      visible: true,
+      locked: false,
+      wireframe: false,
+      edges: false,
+      edgeColor: '#000000',
+      collapsed: true,
+      array: {
+        ...settings,
+        spacing: [spacing.x, spacing.y, spacing.z],
+        center: toGroupPoint(settings.center),
+        path: settings.path?.map(toGroupPoint),
+        sourceIds: sources.map(s => s.id)
+      }
+    };
+    const copies = transforms.slice(1).flatMap((_, i) => sources.flatMap((source, j) =>
+      cloneShapeTree(shapes, source, { ...place(i + 1, j), name: copyName(source, i + 1), parentId: group.id })
+    ));
+
+    set({
+      shapes: [...shapes.map(s => {
+        const j = sources.indexOf(s);
+        return j >= 0 ? { ...s, ...place(0, j), parentId: group.id } : s;
+      }), group, ...copies],
+      selectedIds: [group.id],
+      arrayDraft: null,
+      measurement: null
+    });
+  },
+
+  // The originals stay as they are; their copies are made again from them
+  updateArray: (id, changes) => {
+    const { shapes, selectedIds } = get();
+    const group = shapes.find(s => s.id === id);
+    if (!group?.array) return;
+    const settings = { ...group.array, ...changes };
+    const sources = shapes.filter(s => s.parentId === id && settings.sourceIds?.includes(s.id));
+    if (sources.length === 0) return;
+
+    const stale = new Set(shapes.filter(s => s.parentId === id && !sources.includes(s)).flatMap(s => [...getDescendantIds(s.id, shapes)]));
+    const locals = sources.map(s => getLocalMatrix(s));
+    const transforms = getArrayTransforms(settings, getArrayOrigin(locals));
+    const fromFirst = transforms[0].clone().invert();
+    const copies = transforms.slice(1).flatMap((transform, i) => sources.flatMap((source, j) =>
+      cloneShapeTree(shapes, source, {
+        ...getTransformFromMatrix(transform.clone().multiply(fromFirst).multiply(locals[j])),
+        name: `${source.name} (${i + 2})`
+      })
+    ));
+
+    set({
+      shapes: [...shapes.filter(s => !stale.has(s.id)).map(s => s.id === id ? { ...s, array: settings } : s), ...copies],
+      selectedIds: selectedIds.filter(selected => !stale.has(selected))
+    });
+  },
+
+  alignSelected: (axis, edge, target) => {
+    const { shapes, selectedIds, snapshot } = get();
+    const updates = getAlignUpdates(shapes, selectedIds, axis, edge, target);
+    if (Object.keys(updates).length === 0) return;
+    snapshot(`Align ${describeShapes(shapes, Object.keys(updates))}`);
+    set({ shapes: withUpdates(shapes, updates) });
+  },
+
+  distributeSelected: (axis, mode) => {
+    const { shapes, selectedIds, snapshot } = get();
+    const updates = getDistributeUpdates(shapes, selectedIds, axis, mode);
+    if (Object.keys(updates).length === 0) return;
+    snapshot(`Distribute ${describeShapes(shapes, Object.keys(updates))}`);
+    set({ shapes: withUpdates(shapes, updates) });
+  },
+
+  mirrorSelected: (normal, through) => {
+    const { shapes, selectedIds, snapshot } = get();
+    const point = through ? new THREE.Vector3(...through) : getSelectionCenter(shapes, selectedIds);
+    const updates = getMirrorUpdates(shapes, selectedIds, point, new THREE.Vector3(...normal));
+    if (Object.keys(updates).length === 0) return;
+    snapshot(`Mirror ${describeShapes(shapes, selectedIds)}`);
+    set({ shapes: withUpdates(shapes, updates), measurement: null });
+  },
+
   toggleGroupCollapse: (id) => set((state) => ({
     shapes: state.shapes.map(s => s.id === id ? { ...s, collapsed: !s.collapsed } : s)
   })),
 
-  setTransformMode: (mode) => set({ transformMode: mode, isDrawing: false }),
+  setTransformMode: (mode) => set({ transformMode: mode, isDrawing: false, isDragging: false, measurement: null, editingShapeId: null, editingVertex: null, pushPullFace: null }),
   
-  setIsDrawing: (isDrawing) => set({ isDrawing, drawingPoints: [], selectedIds: [] }),
+  // Paths and mirror lines are drawn for the selection, so that stays. Mirror lines are straight.
+  setIsDrawing: (isDrawing, target = 'mass') => set((state) => ({ isDrawing, drawingTarget: target, drawingTool: target === 'mirror' ? 'polyline' : state.drawingTool, drawingPoints: [], drawingCursor: null, selectedIds: SELECTION_TARGETS.includes(target) ? state.selectedIds : [], snapIndicator: null, measurement: null, editingShapeId: null, editingVertex: null })),
   setIsDragging: (isDragging) => set({ isDragging }),
   
   addDrawingPoint: (point) => set((state) => {
@@ -507,74 +1211,325 @@ export const useStore = create<AppState>((set, get) => ({
     return { drawingPoints: [...state.drawingPoints, point] };
   }),
 
-  finishDrawing: () => {
-    const { drawingPoints, shapes } = get();
-    if (drawingPoints.length < 3) return; 
+  // Shape tools pass their outline; path tools close the points drawn so far
+  finishDrawing: (outline) => {
+    const { shapes } = get();
+    const drawingPoints = outline || get().drawingPoints;
 
-    get().snapshot();
+    // A mirror line: the selection flips across the vertical plane through it
+    if (get().drawingTarget === 'mirror') {
+      const [start, end] = drawingPoints;
+      if (!end) return;
+      set({ isDrawing: false, drawingPoints: [], drawingCursor: null, snapIndicator: null, measurement: null });
+      get().mirrorSelected([end[2] - start[2], 0, start[0] - end[0]], start);
+      return;
+    }
 
-    // 1. Calculate Bounds
-    let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
-    drawingPoints.forEach(p => {
-      minX = Math.min(minX, p[0]);
-      maxX = Math.max(maxX, p[0]);
-      minZ = Math.min(minZ, p[2]);
-      maxZ = Math.max(maxZ, p[2]);
-    });
+    // A path for the array tool: open unless drawn with a shape tool
+    if (get().drawingTarget === 'path') {
+      const path = outline ? [...outline, outline[0]] : drawingPoints;
+      const draft = get().arrayDraft;
+      if (path.length < 2) return;
+      set({
+        arrayDraft: draft && { ...draft, settings: { ...draft.settings, mode: 'path', path } },
+        isDrawing: false,
+        drawingPoints: [],
+        drawingCursor: null,
+        snapIndicator: null,
+        measurement: null
+      });
+      return;
+    }
 
-    // 2. Calculate Centroid 
-    const centerX = (minX + maxX) / 2;
-    const centerZ = (minZ + maxZ) / 2;
+    if (drawingPoints.length < 3 || Math.abs(planArea(drawingPoints)) < 0.01) return; 
 
-    // 3. Normalize points relative to centroid
-    const normalizedPoints = drawingPoints.map(p => [
-      p[0] - centerX, 
-      0, 
-      p[2] - centerZ
-    ]) as [number, number, number][];
+    const isSite = get().drawingTarget === 'site';
+    const host = get().cutHoles && !isSite ? findHoleHost(shapes, drawingPoints) : null;
+    if (host) {
+      get().snapshot(`Cut Courtyard in ${host.shape.name}`);
+      set((state) => ({
+        shapes: state.shapes.map(s => s.id === host.shape.id ? { ...s, holes: [...(s.holes || []), host.hole] } : s),
+        selectedIds: [host.shape.id],
+        isDrawing: false,
+        drawingPoints: [],
+        drawingCursor: null,
+        snapIndicator: null,
+        measurement: null
+      }));
+      return;
+    }
 
-    const count = shapes.filter(s => s.type === 'custom').length + 1;
-    const newShape: ShapeData = {
-      id: uuidv4(),
-      name: `Surface ${count.toString().padStart(2, '0')}`,
-      type: 'custom',
-      position: [centerX, 0, centerZ],
-      rotation: [0, 0, 0], 
-      scale: [1, 1, 1],
-      points: normalizedPoints,
-      extrudeDepth: 0,
-      color: '#cbd5e1',
-      opacity: 1,
-      visible: true,
-      locked: false,
-      wireframe: false,
-      edges: true,
-      edgeColor: '#1e293b'
-    };
+    const type = isSite ? 'site' : 'custom';
+    const name = nextPlanShapeName(shapes, type);
+    get().snapshot(`Draw ${name}`);
+    const newShape = createPlanShape(type, name, drawingPoints);
 
     set({ 
       shapes: [...shapes, newShape], 
       selectedIds: [newShape.id], 
       isDrawing: false, 
-      drawingPoints: [] 
+      drawingPoints: [],
+      drawingCursor: null,
+      snapIndicator: null,
+      measurement: null
     });
   },
 
-  cancelDrawing: () => set({ isDrawing: false, drawingPoints: [] }),
+  cancelDrawing: () => set({ isDrawing: false, drawingPoints: [], drawingCursor: null, snapIndicator: null, measurement: null }),
+  setDrawingCursor: (point) => set({ drawingCursor: point }),
+
+  // Path tools share the points drawn so far; switching to or from a shape tool starts over
+  setDrawingTool: (tool) => set((state) => {
+    const keepPath = PATH_TOOLS.includes(tool) && PATH_TOOLS.includes(state.drawingTool);
+    return {
+      drawingTool: tool,
+      isDrawing: true,
+      selectedIds: keepPath || (state.isDrawing && SELECTION_TARGETS.includes(state.drawingTarget)) ? state.selectedIds : [],
+      drawingPoints: keepPath && state.isDrawing ? state.drawingPoints : [],
+      measurement: null,
+      editingShapeId: null,
+      editingVertex: null
+    };
+  }),
+  setPolygonSides: (sides) => set({ polygonSides: Math.min(64, Math.max(3, Math.round(sides))) }),
+  toggleCutHoles: () => set((state) => ({ cutHoles: !state.cutHoles })),
+
+  // --- MEASUREMENTS BOX ---
+  setMeasurement: (measurement) => set({ measurement }),
+
+  // Measurement for the current tool when the box is focused without a preceding operation
+  beginMeasurement: () => {
+    const { isDrawing, drawingPoints, transformMode, selectedIds, shapes, measurement } = get();
+    if (measurement) return;
+    if (isDrawing) {
+      const kind = TOOL_MEASUREMENTS[get().drawingTool];
+      if (kind && drawingPoints.length > 0) set({ measurement: { kind, value: formatLength(0) } });
+      return;
+    }
+    const shape = selectedIds.length === 1 ? shapes.find(s => s.id === selectedIds[0]) : undefined;
+    if (!shape || shape.locked) return;
+
+    switch (transformMode) {
+      case 'translate':
+        set({ measurement: { kind: 'distance', value: formatLength(0), shapeId: shape.id, start: shape, direction: [1, 0, 0] } });
+        break;
+      case 'rotate':
+        set({ measurement: { kind: 'angle', value: formatAngle(0), shapeId: shape.id, start: shape, direction: [0, 1, 0] } });
+        break;
+      case 'scale':
+        set({ measurement: { kind: 'scale', value: formatFactor(1), shapeId: shape.id, start: shape } });
+        break;
+      case 'pushpull': {
+        // The face under the cursor if it belongs to the selection, otherwise the overall height
+        const face = get().pushPullFace;
+        set({ measurement: face?.shapeId === shape.id
+          ? { kind: 'offset', value: formatLength(0), shapeId: shape.id, start: shape, face }
+          : { kind: 'height', value: formatLength(getShapeHeight(shape)), shapeId: shape.id, start: shape } });
+        break;
+      }
+    }
+  },
+
+  // Returns false when the input does not fit the current measurement
+  applyMeasurement: (input) => {
+    const { measurement, drawingPoints, drawingCursor, shapes } = get();
+    const values = parseMeasurement(input);
+    if (!measurement || !values) return false;
+
+    if (measurement.kind === 'length') {
+      const last = drawingPoints[drawingPoints.length - 1];
+      if (!last || values[0] <= 0) return false;
+      get().addDrawingPoint(pointAtDistance(last, drawingCursor, values[0], values[1]));
+      return true;
+    }
+
+    // Shape tools: the typed value places the second click and creates the shape
+    if (measurement.kind === 'radius' || measurement.kind === 'size') {
+      const { drawingTool, polygonSides } = get();
+      const first = drawingPoints[0];
+      if (!first || values.some(v => v <= 0)) return false;
+      let second: [number, number, number];
+      if (measurement.kind === 'radius') {
+        second = pointAtDistance(first, drawingCursor, values[0]);
+      } else {
+        // Width along X and depth along Z, towards the side the cursor is on
+        const [w, d = values[0]] = values;
+        const sx = drawingCursor && drawingCursor[0] < first[0] ? -1 : 1;
+        const sz = drawingCursor && drawingCursor[2] < first[2] ? -1 : 1;
+        second = [first[0] + sx * w, 0, first[2] + sz * d];
+      }
+      get().finishDrawing(buildShapeOutline(drawingTool, [first, second], polygonSides));
+      return true;
+    }
+
+    const shape = shapes.find(s => s.id === measurement.shapeId);
+    const start = measurement.start;
+    if (!shape || !start) return false;
+
+    // Typing right after a drag adjusts that drag instead of adding another history entry
+    if (!measurement.historyId || get().pendingHistory?.id !== measurement.historyId) {
+      get().snapshot(`Set ${measurement.kind} of ${shape.name}`);
+      set({ measurement: { ...measurement, historyId: get().pendingHistory?.id } });
+    }
+
+    let updates: Partial<ShapeData> = {};
+    let value = measurement.value;
+    switch (measurement.kind) {
+      case 'distance': {
+        const offset = values.length >= 3
+          ? new THREE.Vector3(values[0], values[1], values[2])
+          : new THREE.Vector3(...(measurement.direction || [1, 0, 0])).multiplyScalar(values[0]);
+        const position = new THREE.Vector3(...start.position).add(offset);
+        updates = { position: [position.x, position.y, position.z] };
+        value = formatLength(offset.length());
+        break;
+      }
+      case 'angle': {
+        const axis = new THREE.Vector3(...(measurement.direction || [0, 1, 0])).normalize();
+        const startQuat = new THREE.Quaternion().setFromEuler(new THREE.Euler(...start.rotation));
+        const quat = new THREE.Quaternion().setFromAxisAngle(axis, THREE.MathUtils.degToRad(values[0])).multiply(startQuat);
+        const euler = new THREE.Euler().setFromQuaternion(quat);
+        updates = { rotation: [euler.x, euler.y, euler.z] };
+        value = formatAngle(values[0]);
+        break;
+      }
+      case 'scale': {
+        const factors = values.length >= 3 ? values : [values[0], values[0], values[0]];
+        if (factors.some(f => f === 0)) return false;
+        updates = { scale: [start.scale[0] * factors[0], start.scale[1] * factors[1], start.scale[2] * factors[2]] };
+        value = values.length >= 3 ? factors.map(f => formatFactor(f)).join(', ') : formatFactor(factors[0]);
+        break;
+      }
+      case 'height': {
+        if (values[0] <= 0) return false;
+        updates = setShapeHeight(start, values[0]);
+        value = formatLength(values[0]);
+        break;
+      }
+      case 'offset': {
+        if (!measurement.face) return false;
+        updates = applyPushPull(start, measurement.face, values[0]);
+        value = formatLength(values[0]);
+        break;
+      }
+    }
+
+    get().updateShape(shape.id, updates);
+    set({ measurement: { ...get().measurement!, value } });
+    return true;
+  },
   
+  setPushPullFace: (face) => set({ pushPullFace: face }),
+
+  // --- VERTEX EDITING ---
+  // Only unlocked custom shapes have editable footprints
+  setEditingShape: (id) => {
+    const shape = id ? get().shapes.find(s => s.id === id) : undefined;
+    if (id && (!shape || (shape.type !== 'custom' && shape.type !== 'site') || shape.locked || !shape.points)) return;
+    set({
+      editingShapeId: id,
+      editingVertex: null,
+      selectedIds: id ? [id] : get().selectedIds,
+      isDrawing: false,
+      measurement: null,
+      snapIndicator: null
+    });
+  },
+
+  setEditingVertex: (vertex) => set({ editingVertex: vertex }),
+
+  // Points are in the shape's local footprint space ([x, 0, z] relative to position).
+  // Callers snapshot once per drag; this only writes the new point.
+  moveVertex: (vertex, point) => {
+    const shape = getEditingShape(get());
+    const loop = shape && getFootprintLoops(shape)[vertex.loop];
+    if (!shape || !loop?.[vertex.index]) return;
+    get().updateShape(shape.id, withLoop(shape, vertex.loop, loop.map((p, i) => i === vertex.index ? point : p)));
+  },
+
+  insertVertex: (edgeStart, point) => {
+    const shape = getEditingShape(get());
+    const loop = shape && getFootprintLoops(shape)[edgeStart.loop];
+    if (!shape || !loop) return;
+    get().snapshot(`Insert Vertex in ${shape.name}`);
+    const points = [...loop];
+    points.splice(edgeStart.index + 1, 0, point);
+    get().updateShape(shape.id, withLoop(shape, edgeStart.loop, points));
+    set({ editingVertex: { loop: edgeStart.loop, index: edgeStart.index + 1 } });
+  },
+
+  // The outline keeps at least a triangle; a courtyard that would drop below one is removed
+  deleteVertex: (vertex) => {
+    const shape = getEditingShape(get());
+    const loop = shape && getFootprintLoops(shape)[vertex.loop];
+    if (!shape || !loop?.[vertex.index]) return;
+    if (vertex.loop === 0 && loop.length <= 3) return;
+
+    if (loop.length <= 3) {
+      get().snapshot(`Remove Courtyard from ${shape.name}`);
+      get().updateShape(shape.id, { holes: (shape.holes || []).filter((_, i) => i !== vertex.loop - 1) });
+    } else {
+      get().snapshot(`Delete Vertex in ${shape.name}`);
+      get().updateShape(shape.id, withLoop(shape, vertex.loop, loop.filter((_, i) => i !== vertex.index)));
+    }
+    set({ editingVertex: null });
+  },
+
   toggleSnap: () => set((state) => ({ snapEnabled: !state.snapEnabled })),
   toggleObjectSnap: () => set((state) => ({ objectSnapEnabled: !state.objectSnapEnabled })),
   setSnapGrid: (val) => set({ snapGrid: val }),
+  setSnapIndicator: (snap) => set({ snapIndicator: snap }),
   
-  setBackgroundColor: (color) => set({ backgroundColor: color }),
-  setGridVisible: (visible) => set({ gridVisible: visible }),
-  setGridSpacing: (spacing) => set({ gridSpacing: spacing }),
-  setGridColor: (color) => set({ gridColor: color }),
-  setGridSectionColor: (color) => set({ gridSectionColor: color }),
-  
-  setSunSettings: (settings) => set((state) => ({
-    sunSettings: { ...state.sunSettings, ...settings }
-  })),
+  setBackgroundColor: (color) => {
+    get().snapshot('Change background', 'scene:backgroundColor');
+    set({ backgroundColor: color });
+  },
+  setGridVisible: (visible) => {
+    get().snapshot(visible ? 'Show grid' : 'Hide grid');
+    set({ gridVisible: visible });
+  },
+  setGridSpacing: (spacing) => {
+    get().snapshot('Change grid size', 'scene:gridSpacing');
+    set({ gridSpacing: spacing });
+  },
+  setGridColor: (color) => {
+    get().snapshot('Change grid color', 'scene:gridColor');
+    set({ gridColor: color });
+  },
+  setGridSectionColor: (color) => {
+    get().snapshot('Change grid color', 'scene:gridSectionColor');
+    set({ gridSectionColor: color });
+  },
+  setSiteArea: (area) => {
+    get().snapshot('Change site area', 'scene:siteArea');
+    set({ siteArea: Math.max(0, area) });
+  },
+  setComplianceRules: (rules) => {
+    get().snapshot('Change compliance rules', `scene:complianceRules:${Object.keys(rules).join(',')}`);
+    set((state) => ({ complianceRules: { ...state.complianceRules, ...rules } }));
+  },
+  importCompliance: (file) => {
+    get().snapshot('Import compliance rules');
+    // Imported sites join the ones already in the scene
+    const sites = file.sites.map(site => {
+      const shape = createPlanShape('site', site.name, site.boundary.map(([x, z]) => [x, 0, z] as [number, number, number]));
+      return site.zoning ? { ...shape, zoning: { ...(shape.zoning || DEFAULT_ZONING), ...site.zoning } } : shape;
+    });
+    set((state) => ({
+      complianceRules: file.rules,
+      siteArea: file.siteArea,
+      shapes: [...state.shapes, ...sites]
+    }));
+  },
+
+  setSunSettings: (settings) => {
+    const keys = Object.keys(settings) as (keyof SunSettings)[];
+    const label = (keys.length > 0 && SUN_SETTING_LABELS[keys[0]]) || 'Change sun settings';
+    get().snapshot(label, `sun:${keys.join(',')}`);
+    set((state) => ({
+      sunSettings: { ...state.sunSettings, ...settings }
+    }));
+  },
 
   setViewMode: (mode) => set({ viewMode: mode }),
   requestCameraView: (type) => set({ 
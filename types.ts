@@ -1,5 +1,7 @@
 
-export type ShapeType = 'box' | 'sphere' | 'cylinder' | 'cone' | 'plane' | 'tree' | 'custom' | 'image' | 'model' | 'group';
+export type ShapeType = 'box' | 'sphere' | 'cylinder' | 'cone' | 'plane' | 'tree' | 'custom' | 'image' | 'model' | 'group' | 'boolean' | 'site' | 'tower';
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect';
 
 export interface ShapeData {
   id: string;
@@ -12,7 +14,16 @@ export interface ShapeData {
   rotation: [number, number, number];
   scale: [number, number, number];
   points?: [number, number, number][]; // For custom extruded shapes
+  holes?: [number, number, number][][]; // Inner loops (courtyards, atriums) of custom shapes, same space as points
   extrudeDepth?: number; // For custom shapes push/pull
+  booleanOperation?: BooleanOperation; // For boolean shapes: how the child operands combine (first child is the base)
+  floors?: FloorSettings; // Storeys of a mass; when set, the height follows from them
+  attributes?: Record<string, string>; // User-defined data: programme, phase, owner, notes, ...
+  zoning?: ZoningSettings; // For sites: the rules their buildable envelope follows
+  tower?: TowerSettings; // For towers: the parameters their geometry is generated from
+  roof?: RoofSettings; // For custom shapes: what sits on the extrusion (flat when unset)
+  facade?: FacadeSettings; // For boxes and extruded custom shapes: windows on their walls
+  array?: ArraySettings; // For groups made by the array tool: how copies of the originals are laid out
   
   // Image properties
   imageUrl?: string;
@@ -32,6 +43,91 @@ export interface ShapeData {
   edgeColor: string;
 }
 
+export interface FloorSettings {
+  count: number;
+  height: number; // Typical floor-to-floor height
+  overrides?: Record<number, number>; // Floor index (0 = ground) to its own floor-to-floor height, e.g. a podium
+}
+
+// Setbacks are measured inward from the site boundary; heights from the site's base
+export interface ZoningSettings {
+  frontEdge: number; // Boundary edge (by start vertex) facing the street
+  frontSetback: number;
+  sideSetback: number;
+  rearSetback: number;
+  maxHeight: number;
+  skyPlane: boolean; // Sky-exposure plane: the envelope leans back above a base height
+  skyPlaneBaseHeight: number;
+  skyPlaneAngle: number; // Degrees above horizontal
+  skyPlaneAllSides: boolean; // Otherwise only over the front setback
+}
+
+export type TowerBase = 'rectangle' | 'circle' | 'footprint';
+
+export interface TowerSetback {
+  floor: number; // From this floor up (0 = ground)...
+  inset: number; // ...the footprint steps in by this much more
+}
+
+// Towers are built floor by floor from their base footprint, which is centred on the tower's origin
+export interface TowerSettings {
+  base: TowerBase;
+  width: number; // Rectangle and circle (ellipse) size
+  depth: number;
+  outline?: [number, number, number][]; // Footprint base, taken from a custom shape
+  floorCount: number;
+  floorHeight: number;
+  taper: number; // Size of the top floor relative to the base; 1 keeps it straight
+  twist: number; // Degrees each floor turns relative to the one below
+  setbacks: TowerSetback[];
+}
+
+export type RoofType = 'flat' | 'shed' | 'gable' | 'hip' | 'mansard';
+
+// Roofs are generated from the footprint; edge numbers refer to the outline, starting at 0
+export interface RoofSettings {
+  type: RoofType;
+  pitch: number; // Degrees; the steep lower slope of a mansard
+  overhang: number; // Eaves past the walls
+  shedEdge: number; // Low side of a shed roof
+  gableEdges?: number[]; // Edges ending in gables; picked from the footprint when unset
+  mansardBreak: number; // Height of a mansard's lower slope
+  mansardPitch: number; // Degrees, its upper slope
+}
+
+// Windows on every wall of a mass, one per bay and storey
+export interface FacadeSettings {
+  windowToWall: number; // Glazed share of each wall, 0-1
+  bayWidth: number;
+  sillHeight: number; // Above each storey's floor
+  mullionDepth: number; // How far the mullions between bays stand out; 0 for none
+  floorHeight: number; // Storey height the walls are split into
+}
+
+export type ArrayMode = 'linear' | 'grid' | 'radial' | 'path';
+
+// Copies of a selection. Points are in the frame the items live in (the world, or an array group's own)
+export interface ArraySettings {
+  mode: ArrayMode;
+  count: number; // Items along the line, the grid's columns, around the circle or along the path, originals included
+  rows: number; // Grid only
+  spacing: [number, number, number]; // Linear step; a grid steps x between columns and z between rows
+  center: [number, number, number]; // Radial: the point the items turn about
+  angle: number; // Radial: degrees swept; 360 or more spreads the items evenly round
+  rotateItems: boolean; // Radial and path: items turn with the circle or the path, otherwise they only move
+  path?: [number, number, number][]; // Path: polyline the items are spread along, end to end
+  sourceIds?: string[]; // Array groups: the originals; the group's other children are generated from them
+}
+
+// Vertex of a custom footprint: loop 0 is the outline, loop n is holes[n - 1]
+export interface VertexRef {
+  loop: number;
+  index: number;
+}
+
+// Where a dragged layer lands relative to the one it is dropped on
+export type LayerPlacement = 'before' | 'after' | 'inside';
+
 export type ViewMode = 'perspective' | 'orthographic';
 
 export interface CameraSetting {
@@ -51,3 +147,29 @@ export interface SunSettings {
   pathColor: string;
   shadowColor: string;
 }
+
+export interface SceneSettings {
+  backgroundColor: string;
+  gridVisible: boolean;
+  shadowsEnabled: boolean;
+  gridSpacing: number;
+  gridColor: string;
+  gridSectionColor: string;
+  siteArea: number; // m², for the floor-area ratio; 0 when not set
+  complianceRules: ComplianceRules;
+}
+
+// Limits the compliance report checks the scene against; null turns a rule off
+export interface ComplianceRules {
+  maxHeight: number | null; // m above the ground
+  maxFar: number | null; // Total GFA over site area
+  maxCoverage: number | null; // % of the site area under footprints
+  minBuildingDistance: number | null; // m between buildings, in plan
+  minSetback: number | null; // m from a building to the boundary of the site it stands on, in plan
+}
+
+export interface SnapSettings {
+  snapEnabled: boolean;
+  objectSnapEnabled: boolean;
+  snapGrid: number;
+}
@@ -0,0 +1,179 @@
+// Arranging a selection: align, distribute, mirror and the pivot it turns about, all measured on
+// world bounding boxes. Each selected shape moves as a whole, with everything inside it; locked
+// shapes stay where they are.
+import * as THREE from 'three';
+import { ShapeData } from '../types';
+import {
+  ShapeIndex, getBoxCorners, getDescendantIds, getLocalMatrix, getParentWorldMatrix, getSelectionRoots,
+  getShapeFeatures, getTransformFromMatrix, getWorldMatrix, indexShapes
+} from './geometry';
+
+export type AlignEdge = 'min' | 'center' | 'max';
+export type AlignTarget = 'selection' | 'key'; // The bounds of the whole selection, or of its first shape
+export type DistributeMode = 'centers' | 'gaps';
+export type PivotMode = 'center' | 'first' | 'custom'; // What a multi-selection turns and scales about
+
+export const PIVOT_MODE_LABELS: Record<PivotMode, string> = {
+  center: 'Center',
+  first: 'First',
+  custom: 'Custom'
+};
+
+// Edge names along x, y and z, as seen from the front (+z)
+export const ALIGN_EDGE_LABELS: Record<AlignEdge, string>[] = [
+  { min: 'Left', center: 'Center', max: 'Right' },
+  { min: 'Bottom', center: 'Middle', max: 'Top' },
+  { min: 'Back', center: 'Center', max: 'Front' }
+];
+
+export type ShapeUpdates = Record<string, Partial<ShapeData>>;
+
+const EPSILON = 1e-9;
+
+// World bounding box of a shape and everything inside it; shapes of unknown extent (imported
+// models) count as their origin
+export function getWorldBounds(shape: ShapeData, shapes: ShapeData[], index: ShapeIndex = indexShapes(shapes)) {
+  const box = new THREE.Box3();
+  getDescendantIds(shape.id, shapes).forEach(id => {
+    const part = index.get(id)!;
+    const matrix = getWorldMatrix(part, index);
+    const features = getShapeFeatures(part);
+    if (features) getBoxCorners(features.bounds).forEach(p => box.expandByPoint(p.applyMatrix4(matrix)));
+    else if (part.type !== 'group' && part.type !== 'boolean') box.expandByPoint(new THREE.Vector3().setFromMatrixPosition(matrix));
+  });
+  if (box.isEmpty()) box.expandByPoint(new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(shape, index)));
+  return box;
+}
+
+const edgeOf = (box: THREE.Box3, axis: number, edge: AlignEdge) =>
+  edge === 'min' ? box.min.getComponent(axis)
+    : edge === 'max' ? box.max.getComponent(axis)
+    : (box.min.getComponent(axis) + box.max.getComponent(axis)) / 2;
+
+// Position that moves the shape by `offset` in the world
+const movedPosition = (shape: ShapeData, offset: THREE.Vector3, index: ShapeIndex): [number, number, number] => {
+  const parent = getParentWorldMatrix(shape, index);
+  const world = new THREE.Vector3(...shape.position).applyMatrix4(parent).add(offset);
+  const local = world.applyMatrix4(parent.invert());
+  return [local.x, local.y, local.z];
+};
+
+// Moves along one axis; shapes that would not move are left out
+function moveAlong(items: ShapeData[], distances: number[], axis: number, index: ShapeIndex): ShapeUpdates {
+  const updates: ShapeUpdates = {};
+  items.forEach((shape, i) => {
+    if (shape.locked || Math.abs(distances[i]) < EPSILON) return;
+    updates[shape.id] = { position: movedPosition(shape, new THREE.Vector3().setComponent(axis, distances[i]), index) };
+  });
+  return updates;
+}
+
+export function getAlignUpdates(shapes: ShapeData[], ids: string[], axis: number, edge: AlignEdge, target: AlignTarget): ShapeUpdates {
+  const items = getSelectionRoots(shapes, ids);
+  if (items.length < 2) return {};
+  const index = indexShapes(shapes);
+  const bounds = items.map(s => getWorldBounds(s, shapes, index));
+  const reference = target === 'key' ? bounds[0] : bounds.reduce((all, box) => all.union(box), new THREE.Box3());
+  const goal = edgeOf(reference, axis, edge);
+  return moveAlong(items, bounds.map(box => goal - edgeOf(box, axis, edge)), axis, index);
+}
+
+// The outermost two stay put; those between get evenly spaced centres, or even gaps between them
+export function getDistributeUpdates(shapes: ShapeData[], ids: string[], axis: number, mode: DistributeMode): ShapeUpdates {
+  const items = getSelectionRoots(shapes, ids);
+  if (items.length < 3) return {};
+  const index = indexShapes(shapes);
+  const bounds = items.map(s => getWorldBounds(s, shapes, index));
+  const order = items.map((_, i) => i).sort((a, b) => edgeOf(bounds[a], axis, 'center') - edgeOf(bounds[b], axis, 'center'));
+  const first = bounds[order[0]];
+  const last = bounds[order[order.length - 1]];
+  const steps = order.length - 1;
+  const distances = items.map(() => 0);
+
+  if (mode === 'centers') {
+    const start = edgeOf(first, axis, 'center');
+    const step = (edgeOf(last, axis, 'center') - start) / steps;
+    order.forEach((i, k) => { distances[i] = start + step * k - edgeOf(bounds[i], axis, 'center'); });
+  } else {
+    const size = (box: THREE.Box3) => box.max.getComponent(axis) - box.min.getComponent(axis);
+    const occupied = order.reduce((sum, i) => sum + size(bounds[i]), 0);
+    const gap = (last.max.getComponent(axis) - first.min.getComponent(axis) - occupied) / steps;
+    let cursor = first.min.getComponent(axis);
+    order.forEach(i => {
+      distances[i] = cursor - bounds[i].min.getComponent(axis);
+      cursor += size(bounds[i]) + gap;
+    });
+  }
+  return moveAlong(items, distances, axis, index);
+}
+
+// Centre of the selection's bounds
+export function getSelectionCenter(shapes: ShapeData[], ids: string[]) {
+  const index = indexShapes(shapes);
+  return getSelectionRoots(shapes, ids)
+    .reduce((all, s) => all.union(getWorldBounds(s, shapes, index)), new THREE.Box3())
+    .getCenter(new THREE.Vector3());
+}
+
+// The centre of the selection's bounds, the origin of its first shape, or a given point
+export function getSelectionPivot(shapes: ShapeData[], ids: string[], mode: PivotMode, custom: [number, number, number]) {
+  if (mode === 'custom') return new THREE.Vector3(...custom);
+  const first = getSelectionRoots(shapes, ids)[0];
+  if (mode === 'first' && first) return new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(first, indexShapes(shapes)));
+  return getSelectionCenter(shapes, ids);
+}
+
+// --- MIRROR ---
+// A mirrored shape is a turned one whose own geometry is flipped in x. Footprints flip their
+// points; symmetric primitives need nothing; groups flip what is inside them. Images and models
+// can't be flipped, so they take a negative scale instead.
+const FLIP_X = new THREE.Matrix4().makeScale(-1, 1, 1);
+const canFlipInPlace = (shape: ShapeData) => shape.type !== 'image' && shape.type !== 'model';
+const flipPoints = (points: [number, number, number][]) => points.map(p => [-p[0], p[1], p[2]] as [number, number, number]);
+
+function flipInPlace(shape: ShapeData, shapes: ShapeData[], updates: ShapeUpdates) {
+  const own: Partial<ShapeData> = {};
+  if (shape.points) own.points = flipPoints(shape.points);
+  if (shape.holes) own.holes = shape.holes.map(flipPoints);
+  if (shape.tower) {
+    own.tower = { ...shape.tower, twist: -shape.tower.twist, outline: shape.tower.outline && flipPoints(shape.tower.outline) };
+  }
+  updates[shape.id] = { ...updates[shape.id], ...own };
+
+  shapes.filter(s => s.parentId === shape.id).forEach(child => {
+    const local = FLIP_X.clone().multiply(getLocalMatrix(child));
+    if (canFlipInPlace(child)) {
+      updates[child.id] = getTransformFromMatrix(local.multiply(FLIP_X));
+      flipInPlace(child, shapes, updates);
+    } else {
+      updates[child.id] = getTransformFromMatrix(local);
+    }
+  });
+}
+
+// Reflection in the vertical plane through `point` with the plan `normal`
+export function getMirrorUpdates(shapes: ShapeData[], ids: string[], point: THREE.Vector3, normal: THREE.Vector3): ShapeUpdates {
+  const n = new THREE.Vector3(normal.x, 0, normal.z).normalize();
+  if (n.lengthSq() === 0) return {};
+  const reflection = new THREE.Matrix4().makeTranslation(point.x, point.y, point.z)
+    .multiply(new THREE.Matrix4().set(
+      1 - 2 * n.x * n.x, 0, -2 * n.x * n.z, 0,
+      0, 1, 0, 0,
+      -2 * n.x * n.z, 0, 1 - 2 * n.z * n.z, 0,
+      0, 0, 0, 1
+    ))
+    .multiply(new THREE.Matrix4().makeTranslation(-point.x, -point.y, -point.z));
+
+  const index = indexShapes(shapes);
+  const updates: ShapeUpdates = {};
+  getSelectionRoots(shapes, ids).filter(s => !s.locked).forEach(shape => {
+    const local = getParentWorldMatrix(shape, index).invert().multiply(reflection).multiply(getWorldMatrix(shape, index));
+    if (canFlipInPlace(shape)) {
+      updates[shape.id] = getTransformFromMatrix(local.multiply(FLIP_X));
+      flipInPlace(shape, shapes, updates);
+    } else {
+      updates[shape.id] = getTransformFromMatrix(local);
+    }
+  });
+  return updates;
+}
@@ -0,0 +1,133 @@
+// Array tool: copies of a selection along a line, in a grid, around a point or along a path. A
+// layout is a list of transforms, one per item; the first is where the originals go.
+import * as THREE from 'three';
+import { ArrayMode, ArraySettings, ShapeData } from '../types';
+import { getSelectionRoots, getWorldMatrix, indexShapes } from './geometry';
+
+type Point = [number, number, number];
+
+// Array tool while it is open: the layout previewed on the selection
+export interface ArrayDraft {
+  settings: ArraySettings;
+  parametric: boolean; // Keep the items in an array group whose layout can be edited later
+}
+
+export const ARRAY_MODE_LABELS: Record<ArrayMode, string> = {
+  linear: 'Linear',
+  grid: 'Grid',
+  radial: 'Radial',
+  path: 'Path'
+};
+
+export const DEFAULT_ARRAY: ArraySettings = {
+  mode: 'linear',
+  count: 5,
+  rows: 3,
+  spacing: [5, 0, 0],
+  center: [0, 0, 0],
+  angle: 360,
+  rotateItems: true
+};
+
+// Items one array may hold, originals included
+export const MAX_ARRAY_ITEMS = 500;
+
+const EPSILON = 1e-6;
+// Paths ending this close to their start are loops: the last item doesn't land on the first
+const CLOSED_PATH_TOLERANCE = 1e-3;
+
+const clampCount = (settings: ArraySettings) => Math.max(1, Math.min(MAX_ARRAY_ITEMS, Math.round(settings.count) || 1));
+const clampRows = (settings: ArraySettings, count: number) =>
+  settings.mode === 'grid' ? Math.max(1, Math.min(Math.floor(MAX_ARRAY_ITEMS / count), Math.round(settings.rows) || 1)) : 1;
+
+export function getArrayItemCount(settings: ArraySettings) {
+  const count = clampCount(settings);
+  return count * clampRows(settings, count);
+}
+
+// Array tool opened on the selection: a radial array starts turning about a point beside it
+export function createArrayDraft(shapes: ShapeData[], ids: string[]): ArrayDraft {
+  const index = indexShapes(shapes);
+  const origin = getArrayOrigin(getSelectionRoots(shapes, ids).map(s => getWorldMatrix(s, index)));
+  return { settings: { ...DEFAULT_ARRAY, center: [origin.x - 10, 0, origin.z] }, parametric: true };
+}
+
+// Turn about a vertical axis through `point`
+const turnAbout = (point: THREE.Vector3, angle: number) =>
+  new THREE.Matrix4().makeTranslation(point.x, point.y, point.z)
+    .multiply(new THREE.Matrix4().makeRotationY(angle))
+    .multiply(new THREE.Matrix4().makeTranslation(-point.x, -point.y, -point.z));
+
+// Points `count` equal lengths apart along the path, with the heading of the segment each is on
+// (as a turn about y, 0 facing +x)
+function pathStations(path: Point[], count: number) {
+  const segments = path.slice(1)
+    .map((to, i) => ({ from: path[i], to, length: Math.hypot(to[0] - path[i][0], to[2] - path[i][2]) }))
+    .filter(segment => segment.length > EPSILON);
+  if (segments.length === 0) return [];
+
+  const total = segments.reduce((sum, segment) => sum + segment.length, 0);
+  const first = path[0];
+  const last = path[path.length - 1];
+  const closed = path.length > 3 && Math.hypot(last[0] - first[0], last[2] - first[2]) < CLOSED_PATH_TOLERANCE;
+  const step = count > 1 ? total / (closed ? count : count - 1) : 0;
+
+  return Array.from({ length: count }, (_, i) => {
+    let distance = i * step;
+    let k = 0;
+    while (k < segments.length - 1 && distance > segments[k].length) {
+      distance -= segments[k].length;
+      k++;
+    }
+    const { from, to, length } = segments[k];
+    const t = Math.min(1, distance / length);
+    return {
+      point: new THREE.Vector2(from[0] + (to[0] - from[0]) * t, from[2] + (to[2] - from[2]) * t),
+      heading: Math.atan2(from[2] - to[2], to[0] - from[0])
+    };
+  });
+}
+
+// Transform of every item, in the frame of the settings' points. `origin` is the middle of the
+// originals: what turns with a radial array, or lands on the path. Only a path moves the originals.
+export function getArrayTransforms(settings: ArraySettings, origin: THREE.Vector3): THREE.Matrix4[] {
+  const count = clampCount(settings);
+  switch (settings.mode) {
+    case 'linear': {
+      const [x, y, z] = settings.spacing;
+      return Array.from({ length: count }, (_, i) => new THREE.Matrix4().makeTranslation(x * i, y * i, z * i));
+    }
+    case 'grid': {
+      const rows = clampRows(settings, count);
+      const [x, , z] = settings.spacing;
+      return Array.from({ length: rows * count }, (_, i) =>
+        new THREE.Matrix4().makeTranslation(x * (i % count), 0, z * Math.floor(i / count)));
+    }
+    case 'radial': {
+      const center = new THREE.Vector3(...settings.center);
+      const sweep = THREE.MathUtils.degToRad(settings.angle);
+      const step = Math.abs(settings.angle) >= 360 ? sweep / count : count > 1 ? sweep / (count - 1) : 0;
+      return Array.from({ length: count }, (_, i) => {
+        const turn = turnAbout(center, step * i);
+        if (settings.rotateItems) return turn;
+        const moved = origin.clone().applyMatrix4(turn).sub(origin);
+        return new THREE.Matrix4().makeTranslation(moved.x, moved.y, moved.z);
+      });
+    }
+    case 'path': {
+      const stations = settings.path && settings.path.length >= 2 ? pathStations(settings.path, count) : [];
+      if (stations.length === 0) return [new THREE.Matrix4()];
+      return stations.map(({ point, heading }) => {
+        const target = new THREE.Vector3(point.x, origin.y, point.y);
+        return new THREE.Matrix4().makeTranslation(target.x, target.y, target.z)
+          .multiply(new THREE.Matrix4().makeRotationY(settings.rotateItems ? heading - stations[0].heading : 0))
+          .multiply(new THREE.Matrix4().makeTranslation(-origin.x, -origin.y, -origin.z));
+      });
+    }
+  }
+}
+
+// Middle of the given placements
+export const getArrayOrigin = (matrices: THREE.Matrix4[]) =>
+  matrices.reduce((sum, m) => sum.add(new THREE.Vector3().setFromMatrixPosition(m)), new THREE.Vector3())
+    .divideScalar(Math.max(1, matrices.length));
@@ -0,0 +1,100 @@
+// User-defined key/value attributes on shapes (programme, phase, owner, ...) and colouring by them.
+import { ShapeData } from '../types';
+import { ShapeIndex, indexShapes } from './geometry';
+
+export const PROGRAMME_KEY = 'programme';
+
+// Offered on every shape; anything else users type in is kept alongside
+export const DEFAULT_ATTRIBUTE_KEYS = [PROGRAMME_KEY, 'phase', 'owner', 'notes'];
+
+// Building uses with their fixed colours, used whenever the scene is coloured by programme
+export const PROGRAMMES: { name: string; color: string }[] = [
+  { name: 'Residential', color: '#facc15' },
+  { name: 'Office', color: '#60a5fa' },
+  { name: 'Retail', color: '#f87171' },
+  { name: 'Hospitality', color: '#c084fc' },
+  { name: 'Education', color: '#fb923c' },
+  { name: 'Civic', color: '#2dd4bf' },
+  { name: 'Industrial', color: '#a8a29e' },
+  { name: 'Parking', color: '#64748b' },
+  { name: 'Open Space', color: '#4ade80' },
+  { name: 'Mixed Use', color: '#f472b6' }
+];
+
+// Values of other attributes take these in order of first appearance
+const CATEGORY_COLORS = ['#3b82f6', '#f97316', '#10b981', '#e11d48', '#8b5cf6', '#eab308', '#06b6d4', '#84cc16', '#ec4899', '#78716c'];
+
+export const UNASSIGNED_COLOR = '#e2e8f0';
+
+export interface LegendEntry {
+  value: string;
+  color: string;
+  count: number;
+}
+
+export const formatAttributeKey = (key: string) => key.charAt(0).toUpperCase() + key.slice(1);
+
+// Default keys first, then the ones used in the scene
+export function getAttributeKeys(shapes: ShapeData[]) {
+  const keys = new Set(DEFAULT_ATTRIBUTE_KEYS);
+  shapes.forEach(s => Object.keys(s.attributes || {}).forEach(k => keys.add(k)));
+  return [...keys];
+}
+
+// A shape's own value, else the nearest group's (or boolean's) that has one
+export function getEffectiveAttribute(shape: ShapeData, index: ShapeIndex, key: string): string | undefined {
+  let current: ShapeData | undefined = shape;
+  while (current) {
+    const value = current.attributes?.[key];
+    if (value) return value;
+    current = current.parentId ? index.get(current.parentId) : undefined;
+  }
+  return undefined;
+}
+
+// Value shared by all of `shapes`: '' when none has it, null when they differ
+export function getSharedAttribute(shapes: ShapeData[], key: string): string | null {
+  const values = new Set(shapes.map(s => s.attributes?.[key] || ''));
+  return values.size === 1 ? [...values][0] : null;
+}
+
+// Shapes only change by replacing the array, so lookups can be cached per array
+const indexCache = new WeakMap<ShapeData[], ShapeIndex>();
+const legendCache = new WeakMap<ShapeData[], Map<string, LegendEntry[]>>();
+
+const getIndex = (shapes: ShapeData[]) => {
+  let index = indexCache.get(shapes);
+  if (!index) indexCache.set(shapes, index = indexShapes(shapes));
+  return index;
+};
+
+// Colour of every value of `key` in the scene, counted over the shapes that get drawn
+export function getAttributeLegend(shapes: ShapeData[], key: string): LegendEntry[] {
+  let byKey = legendCache.get(shapes);
+  if (!byKey) legendCache.set(shapes, byKey = new Map());
+  const cached = byKey.get(key);
+  if (cached) return cached;
+
+  const index = getIndex(shapes);
+  const counts = new Map<string, number>();
+  shapes.forEach(s => {
+    // Groups are drawn through their children, boolean operands through their boolean
+    if (s.type === 'group' || (s.parentId && index.get(s.parentId)?.type === 'boolean')) return;
+    const value = getEffectiveAttribute(s, index, key);
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  });
+
+  let next = 0;
+  const legend = [...counts].map(([value, count]) => {
+    const programme = key === PROGRAMME_KEY ? PROGRAMMES.find(p => p.name.toLowerCase() === value.toLowerCase()) : undefined;
+    const color = programme ? programme.color : CATEGORY_COLORS[next++ % CATEGORY_COLORS.length];
+    return { value, color, count };
+  });
+  byKey.set(key, legend);
+  return legend;
+}
+
+export function getAttributeColor(shapes: ShapeData[], shape: ShapeData, key: string) {
+  const value = getEffectiveAttribute(shape, getIndex(shapes), key);
+  return getAttributeLegend(shapes, key).find(e => e.value === value)?.color || UNASSIGNED_COLOR;
+}
@@ -0,0 +1,89 @@
+// Autosaved sessions persisted to IndexedDB so a crashed or accidentally reset tab can be recovered.
+import { ProjectFile } from './projectFile';
+
+const DB_NAME = 'archmass';
+const DB_VERSION = 2;
+const STORE_NAME = 'sessions';
+// Summaries live apart from the sessions so listing them never loads a project
+const SUMMARY_STORE_NAME = 'summaries';
+export const MAX_AUTOSAVED_SESSIONS = 10;
+
+export interface AutosaveSession {
+  id: string;
+  updatedAt: number;
+  shapeCount: number;
+  thumbnail?: string; // JPEG data URL
+  project: ProjectFile;
+}
+
+export type AutosaveSummary = Omit<AutosaveSession, 'project'>;
+
+const toSummary = ({ project, ...summary }: AutosaveSession): AutosaveSummary => summary;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (event.oldVersion < 2) {
+          // Sessions saved before summaries had a store of their own get one
+          const summaries = db.createObjectStore(SUMMARY_STORE_NAME, { keyPath: 'id' });
+          const cursor = request.transaction!.objectStore(STORE_NAME).openCursor();
+          cursor.onsuccess = () => {
+            if (!cursor.result) return;
+            summaries.put(toSummary(cursor.result.value));
+            cursor.result.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, fn: (tx: IDBTransaction) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, SUMMARY_STORE_NAME], mode);
+    const request = fn(tx);
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveSession = (session: AutosaveSession) => run('readwrite', tx => {
+  tx.objectStore(SUMMARY_STORE_NAME).put(toSummary(session));
+  return tx.objectStore(STORE_NAME).put(session);
+});
+
+export const loadSession = (id: string) => run<AutosaveSession | undefined>('readonly', tx => tx.objectStore(STORE_NAME).get(id));
+
+export const deleteSession = (id: string) => run('readwrite', tx => {
+  tx.objectStore(SUMMARY_STORE_NAME).delete(id);
+  return tx.objectStore(STORE_NAME).delete(id);
+});
+
+// Most recent first, without the (potentially large) project payload.
+export async function listSessions(): Promise<AutosaveSummary[]> {
+  const summaries = await run<AutosaveSummary[]>('readonly', tx => tx.objectStore(SUMMARY_STORE_NAME).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function pruneSessions(keep = MAX_AUTOSAVED_SESSIONS) {
+  const sessions = await listSessions();
+  await Promise.all(sessions.slice(keep).map(s => deleteSession(s.id)));
+}
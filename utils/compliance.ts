@@ -0,0 +1,358 @@
+// Compliance report: checks the buildings of the scene against the project's rule set (height, FAR,
+// site coverage, distance between buildings, setbacks), and reads and writes the rule set as JSON.
+import * as THREE from 'three';
+import { ComplianceRules, ShapeData, ZoningSettings } from '../types';
+import { ShapeIndex, getFootprintLoops, getWorldMatrix, indexShapes, loopDistance, loopInsideLoop, loopsCross, loopsDisjoint, pointInLoop, pointLoopDistance } from './geometry';
+import { buildShapeGeometry, isBooleanOperand } from './csg';
+import { buildSchedule, getFloorAreaRatio } from './metrics';
+import { planArea } from './drawing';
+
+type Point = [number, number, number];
+
+export type ComplianceRuleKey = keyof ComplianceRules;
+
+export interface RuleDefinition {
+  key: ComplianceRuleKey;
+  label: string;
+  unit: string;
+  limit: 'max' | 'min';
+  scope: 'building' | 'scene'; // Measured per building, or once for the whole scene
+  defaultValue: number; // Limit a rule starts from when switched on
+}
+
+export const RULE_DEFINITIONS: RuleDefinition[] = [
+  { key: 'maxHeight', label: 'Max Height', unit: 'm', limit: 'max', scope: 'building', defaultValue: 30 },
+  { key: 'maxFar', label: 'Max FAR', unit: '', limit: 'max', scope: 'scene', defaultValue: 3 },
+  { key: 'maxCoverage', label: 'Max Coverage', unit: '%', limit: 'max', scope: 'scene', defaultValue: 60 },
+  { key: 'minBuildingDistance', label: 'Min Distance', unit: 'm', limit: 'min', scope: 'building', defaultValue: 6 },
+  { key: 'minSetback', label: 'Min Setback', unit: 'm', limit: 'min', scope: 'building', defaultValue: 3 }
+];
+
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRules = {
+  maxHeight: 30,
+  maxFar: 3,
+  maxCoverage: 60,
+  minBuildingDistance: 6,
+  minSetback: 3
+};
+
+export interface ComplianceFinding {
+  shapeIds: string[]; // The building, or both buildings of a pair that stand too close
+  name: string;
+  measured: number; // For scene rules: the building's share of the scene value
+}
+
+export interface RuleResult {
+  rule: RuleDefinition;
+  allowed: number;
+  status: 'pass' | 'fail' | 'skipped';
+  measured: number | null; // Scene value, or the worst building; null when there is nothing to measure
+  findings: ComplianceFinding[];
+  note?: string; // Why the rule could not be checked
+}
+
+// A top-level mass or group and where it stands, in world space
+interface Building {
+  shape: ShapeData;
+  outlines: Point[][]; // Plan outline of each of its solids
+  footprint: number; // Ground covered, without counting solids stacked over one another twice
+  height: number; // Top above the ground
+  gfa: number;
+}
+
+// Counter-clockwise convex hull (monotone chain) of points in plan
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[2] - b[2]);
+  const turn = (o: Point, a: Point, b: Point) => (a[0] - o[0]) * (b[2] - o[2]) - (a[2] - o[2]) * (b[0] - o[0]);
+  const half = (list: Point[]) => list.reduce<Point[]>((hull, p) => {
+    while (hull.length >= 2 && turn(hull[hull.length - 2], hull[hull.length - 1], p) <= 1e-9) hull.pop();
+    hull.push(p);
+    return hull;
+  }, []);
+  const lower = half(sorted);
+  const upper = half([...sorted].reverse());
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+// Visible solids of a building; boolean operands belong to their boolean
+function collectSolids(shape: ShapeData, shapes: ShapeData[]): ShapeData[] {
+  if (!shape.visible) return [];
+  if (shape.type === 'group') return shapes.filter(s => s.parentId === shape.id).flatMap(child => collectSolids(child, shapes));
+  return isBooleanOperand(shape) ? [shape] : [];
+}
+
+// Plan outline and top of a solid. Extrusions keep their drawn outline (courtyards included);
+// other solids are approximated by the convex hull of their mesh.
+function measureSolid(shape: ShapeData, shapes: ShapeData[], index: ShapeIndex) {
+  const matrix = getWorldMatrix(shape, index);
+  const geometry = buildShapeGeometry(shape, shapes);
+  if (!geometry) return null;
+  geometry.applyMatrix4(matrix);
+  geometry.computeBoundingBox();
+  const top = geometry.boundingBox!.max.y;
+
+  let loops: Point[][];
+  if (shape.type === 'custom') {
+    const v = new THREE.Vector3();
+    loops = getFootprintLoops(shape).map(loop => loop.map(p => {
+      v.set(p[0], 0, p[2]).applyMatrix4(matrix);
+      return [v.x, 0, v.z] as Point;
+    }));
+  } else {
+    const position = geometry.getAttribute('position');
+    const points: Point[] = [];
+    for (let i = 0; i < position.count; i++) points.push([position.getX(i), 0, position.getZ(i)]);
+    loops = [convexHull(points)];
+  }
+  geometry.dispose();
+
+  const [outline, ...holes] = loops;
+  if (!outline || outline.length < 3) return null;
+  const area = Math.max(0, Math.abs(planArea(outline)) - holes.reduce((sum, h) => sum + Math.abs(planArea(h)), 0));
+  return { outline, area, top };
+}
+
+function getBuildings(shapes: ShapeData[]): Building[] {
+  const index = indexShapes(shapes);
+  const schedule = buildSchedule(shapes);
+
+  return schedule.rows.filter(row => row.depth === 0).flatMap(row => {
+    const shape = index.get(row.id)!;
+    const solids = collectSolids(shape, shapes)
+      .map(solid => measureSolid(solid, shapes, index))
+      .filter((m): m is NonNullable<typeof m> => !!m);
+    if (solids.length === 0) return [];
+
+    // A tower on its podium stands on ground the podium already covers
+    const footprint = solids.reduce((sum, solid, i) => {
+      const stacked = solids.some((other, j) => j !== i && other.area >= solid.area && (other.area > solid.area || j < i) && loopInsideLoop(solid.outline, other.outline));
+      return stacked ? sum : sum + solid.area;
+    }, 0);
+
+    return [{
+      shape,
+      outlines: solids.map(s => s.outline),
+      footprint,
+      height: Math.max(0, ...solids.map(s => s.top)),
+      gfa: row.metrics.gfa
+    }];
+  });
+}
+
+// World-space boundaries of the visible sites
+function getSiteLoops(shapes: ShapeData[]) {
+  const index = indexShapes(shapes);
+  const v = new THREE.Vector3();
+  return shapes
+    .filter(s => s.type === 'site' && s.visible && s.points && s.points.length >= 3)
+    .map(site => {
+      const matrix = getWorldMatrix(site, index);
+      return site.points!.map(p => {
+        v.set(p[0], 0, p[2]).applyMatrix4(matrix);
+        return [v.x, 0, v.z] as Point;
+      });
+    });
+}
+
+// Clear distance from a building to the boundary of the site it stands on; negative when part of it
+// is outside. Null when the building stands on no site.
+function measureSetback(building: Building, sites: Point[][]): number | null {
+  const points = building.outlines.flat();
+  const site = sites.find(loop => building.outlines.some(outline => !loopsDisjoint(outline, loop)));
+  if (!site) return null;
+
+  const outside = points.filter(p => !pointInLoop(p[0], p[2], site));
+  if (outside.length > 0) return -Math.max(...outside.map(p => pointLoopDistance(p, site)));
+  if (building.outlines.some(outline => loopsCross(outline, site))) return 0;
+  return Math.min(
+    ...points.map(p => pointLoopDistance(p, site)),
+    ...site.map(p => Math.min(...building.outlines.map(outline => pointLoopDistance(p, outline))))
+  );
+}
+
+const skipped = (rule: RuleDefinition, allowed: number, note: string): RuleResult =>
+  ({ rule, allowed, status: 'skipped', measured: null, findings: [], note });
+
+// Compares measured values with the limit; `findings` are the values that break it
+function judge(rule: RuleDefinition, allowed: number, measured: number | null, findings: ComplianceFinding[]): RuleResult {
+  const breaks = (value: number) => rule.limit === 'max' ? value > allowed + 1e-6 : value < allowed - 1e-6;
+  const failed = measured !== null && breaks(measured);
+  return {
+    rule,
+    allowed,
+    status: failed ? 'fail' : 'pass',
+    measured,
+    findings: failed ? findings.filter(f => rule.scope === 'scene' || breaks(f.measured)) : []
+  };
+}
+
+// One result per enabled rule, in the order of RULE_DEFINITIONS
+export function checkCompliance(shapes: ShapeData[], rules: ComplianceRules, siteArea: number): RuleResult[] {
+  const buildings = getBuildings(shapes);
+  const sites = getSiteLoops(shapes);
+  const worst = (rule: RuleDefinition, values: number[]) =>
+    values.length === 0 ? null : rule.limit === 'max' ? Math.max(...values) : Math.min(...values);
+  const perBuilding = (measure: (b: Building) => number) =>
+    buildings.map(b => ({ shapeIds: [b.shape.id], name: b.shape.name, measured: measure(b) }));
+
+  return RULE_DEFINITIONS.flatMap((rule): RuleResult[] => {
+    const allowed = rules[rule.key];
+    if (allowed === null || allowed === undefined) return [];
+
+    switch (rule.key) {
+      case 'maxHeight': {
+        const findings = perBuilding(b => b.height);
+        return [judge(rule, allowed, worst(rule, findings.map(f => f.measured)), findings)];
+      }
+      case 'maxFar': {
+        if (siteArea <= 0) return [skipped(rule, allowed, 'Set a site area')];
+        const gfa = buildings.reduce((sum, b) => sum + b.gfa, 0);
+        return [judge(rule, allowed, getFloorAreaRatio(gfa, siteArea), perBuilding(b => b.gfa / siteArea))];
+      }
+      case 'maxCoverage': {
+        if (siteArea <= 0) return [skipped(rule, allowed, 'Set a site area')];
+        const footprint = buildings.reduce((sum, b) => sum + b.footprint, 0);
+        return [judge(rule, allowed, (footprint / siteArea) * 100, perBuilding(b => (b.footprint / siteArea) * 100))];
+      }
+      case 'minBuildingDistance': {
+        const findings: ComplianceFinding[] = [];
+        buildings.forEach((a, i) => buildings.slice(i + 1).forEach(b => findings.push({
+          shapeIds: [a.shape.id, b.shape.id],
+          name: `${a.shape.name} – ${b.shape.name}`,
+          measured: Math.min(...a.outlines.flatMap(p => b.outlines.map(q => loopDistance(p, q))))
+        })));
+        return [judge(rule, allowed, worst(rule, findings.map(f => f.measured)), findings)];
+      }
+      case 'minSetback': {
+        if (sites.length === 0) return [skipped(rule, allowed, 'Draw a site boundary')];
+        const findings = buildings.flatMap(b => {
+          const measured = measureSetback(b, sites);
+          return measured === null ? [] : [{ shapeIds: [b.shape.id], name: b.shape.name, measured }];
+        });
+        return [judge(rule, allowed, worst(rule, findings.map(f => f.measured)), findings)];
+      }
+    }
+  });
+}
+
+// --- JSON ---
+// Rule sets travel between projects with the site area and the site boundaries (world x, z)
+
+export interface ComplianceSite {
+  name: string;
+  boundary: [number, number][];
+  zoning?: Partial<ZoningSettings>;
+}
+
+export interface ComplianceFile {
+  version: 1;
+  siteArea: number;
+  rules: ComplianceRules;
+  sites: ComplianceSite[];
+}
+
+export function complianceToJson(shapes: ShapeData[], rules: ComplianceRules, siteArea: number) {
+  const index = indexShapes(shapes);
+  const v = new THREE.Vector3();
+  const sites: ComplianceSite[] = shapes
+    .filter(s => s.type === 'site' && s.points && s.points.length >= 3)
+    .map(site => {
+      const matrix = getWorldMatrix(site, index);
+      return {
+        name: site.name,
+        boundary: site.points!.map(p => {
+          v.set(p[0], 0, p[2]).applyMatrix4(matrix);
+          return [v.x, v.z] as [number, number];
+        }),
+        zoning: site.zoning
+      };
+    });
+  const file: ComplianceFile = { version: 1, siteArea, rules, sites };
+  return JSON.stringify(file, null, 2);
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+type RawDocument = Record<string, unknown>;
+
+const isRawDocument = (value: unknown): value is RawDocument =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Numeric zoning fields and their lower bounds, as the zoning panel clamps them
+const ZONING_NUMBERS: { key: 'frontSetback' | 'sideSetback' | 'rearSetback' | 'maxHeight' | 'skyPlaneBaseHeight' | 'skyPlaneAngle'; label: string; min: number }[] = [
+  { key: 'frontSetback', label: 'front setback', min: 0 },
+  { key: 'sideSetback', label: 'side setback', min: 0 },
+  { key: 'rearSetback', label: 'rear setback', min: 0 },
+  { key: 'maxHeight', label: 'max height', min: 0 },
+  { key: 'skyPlaneBaseHeight', label: 'sky plane base', min: 0 },
+  { key: 'skyPlaneAngle', label: 'sky plane angle', min: 1 }
+];
+
+// Zoning of one site in a rule set; fields it leaves out take the defaults
+function parseZoning(raw: unknown, edgeCount: number, site: number): Partial<ZoningSettings> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isRawDocument(raw)) throw new Error(`Site ${site} zoning must be an object.`);
+
+  const zoning: Partial<ZoningSettings> = {};
+  ZONING_NUMBERS.forEach(({ key, label, min }) => {
+    const value = raw[key];
+    if (value === undefined) return;
+    if (!isFiniteNumber(value)) throw new Error(`Site ${site} ${label} must be a number.`);
+    zoning[key] = Math.max(min, value);
+  });
+  ([['skyPlane', 'sky plane'], ['skyPlaneAllSides', 'sky plane on all sides']] as const).forEach(([key, label]) => {
+    const value = raw[key];
+    if (value === undefined) return;
+    if (typeof value !== 'boolean') throw new Error(`Site ${site} ${label} must be true or false.`);
+    zoning[key] = value;
+  });
+  if (raw.frontEdge !== undefined) {
+    const edge = raw.frontEdge;
+    if (!isFiniteNumber(edge) || !Number.isInteger(edge) || edge < 0 || edge >= edgeCount) {
+      throw new Error(`Site ${site} front edge must be a whole number from 0 to ${edgeCount - 1}.`);
+    }
+    zoning.frontEdge = edge;
+  }
+  return zoning;
+}
+
+const isPlanPoint = (p: unknown): p is [number, number] => Array.isArray(p) && isFiniteNumber(p[0]) && isFiniteNumber(p[1]);
+
+// Reads a rule set file; rules it leaves out are switched off. Throws with a readable message.
+export function parseComplianceJson(text: string): ComplianceFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Rule set is not valid JSON.');
+  }
+  if (!isRawDocument(raw) || !isRawDocument(raw.rules)) {
+    throw new Error('Rule set has no "rules".');
+  }
+
+  const rawRules = raw.rules;
+  const rules = {} as ComplianceRules;
+  RULE_DEFINITIONS.forEach(({ key, label }) => {
+    const value = rawRules[key];
+    if (value !== undefined && value !== null && !isFiniteNumber(value)) throw new Error(`${label} must be a number or null.`);
+    rules[key] = isFiniteNumber(value) ? Math.max(0, value) : null;
+  });
+
+  const siteArea = raw.siteArea;
+  if (siteArea !== undefined && !isFiniteNumber(siteArea)) throw new Error('Site area must be a number.');
+  if (raw.sites !== undefined && !Array.isArray(raw.sites)) throw new Error('"sites" must be a list.');
+
+  const sites: ComplianceSite[] = ((raw.sites as unknown[] | undefined) || []).map((site, i) => {
+    const boundary = isRawDocument(site) ? site.boundary : undefined;
+    if (!isRawDocument(site) || !Array.isArray(boundary) || boundary.length < 3 || !boundary.every(isPlanPoint)) {
+      throw new Error(`Site ${i + 1} needs a boundary of at least 3 [x, z] points.`);
+    }
+    return {
+      name: typeof site.name === 'string' && site.name ? site.name : `Site ${(i + 1).toString().padStart(2, '0')}`,
+      boundary: boundary.map(p => [p[0], p[1]] as [number, number]),
+      zoning: parseZoning(site.zoning, boundary.length, i + 1)
+    };
+  });
+
+  return { version: 1, siteArea: isFiniteNumber(siteArea) ? Math.max(0, siteArea) : 0, rules, sites };
+}
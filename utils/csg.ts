@@ -0,0 +1,136 @@
+// Boolean (CSG) masses: the operands stay in the scene as children of the boolean shape and the
+// solid is rebuilt from them, so moving, resizing or hiding an operand reshapes the result.
+import * as THREE from 'three';
+import { Brush, Evaluator, ADDITION, SUBTRACTION, INTERSECTION } from 'three-bvh-csg';
+import { ShapeData, BooleanOperation } from '../types';
+import { createFootprintShape, getLocalMatrix } from './geometry';
+import { DEFAULT_TOWER, buildTowerGeometry } from './tower';
+import { buildRoofGeometry } from './roof';
+
+export const BOOLEAN_LABELS: Record<BooleanOperation, string> = {
+  union: 'Union',
+  subtract: 'Subtract',
+  intersect: 'Intersect'
+};
+
+const OPERATIONS = { union: ADDITION, subtract: SUBTRACTION, intersect: INTERSECTION };
+
+const evaluator = new Evaluator();
+evaluator.useGroups = false;
+
+// Closed solids only: planes, flat surfaces, images, trees and imported models have no inside
+export function isBooleanOperand(shape: ShapeData) {
+  switch (shape.type) {
+    case 'box':
+    case 'sphere':
+    case 'cylinder':
+    case 'cone':
+    case 'boolean':
+    case 'tower':
+      return true;
+    case 'custom':
+      return !!shape.points && shape.points.length >= 3 && (shape.extrudeDepth || 0) > 0.01;
+    default:
+      return false;
+  }
+}
+
+// Two or more solids sharing a parent
+export function canCombine(shapes: ShapeData[], ids: string[]) {
+  const selected = ids.map(id => shapes.find(s => s.id === id));
+  return selected.length >= 2 && selected.every(s => s && !s.locked && isBooleanOperand(s) && s.parentId === selected[0]?.parentId);
+}
+
+// Geometry of a solid in its own local space (the same the viewport draws), or null for non-solids
+export function buildShapeGeometry(shape: ShapeData, shapes: ShapeData[]): THREE.BufferGeometry | null {
+  switch (shape.type) {
+    case 'box':
+      return new THREE.BoxGeometry(1, 1, 1);
+    case 'sphere':
+      return new THREE.SphereGeometry(0.5, 32, 32);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(0.5, 0.5, 1, 32);
+    case 'cone':
+      return new THREE.ConeGeometry(0.5, 1, 32);
+    case 'custom': {
+      if (!isBooleanOperand(shape)) return null;
+      const footprint = createFootprintShape(shape.points!, shape.holes);
+      const body = new THREE.ExtrudeGeometry(footprint, { depth: shape.extrudeDepth, bevelEnabled: false })
+        .rotateX(-Math.PI / 2)
+        .translate(0, 0.01, 0);
+      // A pitched roof is part of the solid, standing on the top of the extrusion
+      const roof = buildRoofGeometry(shape);
+      if (!roof) return body;
+      const solid = unionGeometry(body, roof.translate(0, 0.01 + shape.extrudeDepth!, 0));
+      body.dispose();
+      roof.dispose();
+      return solid;
+    }
+    case 'boolean':
+      return evaluateBoolean(shape, shapes);
+    case 'tower':
+      return buildTowerGeometry(shape.tower || DEFAULT_TOWER);
+    default:
+      return null;
+  }
+}
+
+// Visible operands folded in layer order: the first is the base the others are added to,
+// subtracted from or intersected with. Hidden operands are left out of the result.
+export function evaluateBoolean(shape: ShapeData, shapes: ShapeData[]): THREE.BufferGeometry | null {
+  const operation = OPERATIONS[shape.booleanOperation || 'union'];
+  let result: Brush | null = null;
+
+  shapes.filter(s => s.parentId === shape.id && s.visible).forEach(operand => {
+    const geometry = buildShapeGeometry(operand, shapes);
+    if (!geometry) return;
+    // Evaluation happens in the boolean's space, so each operand brings its own transform along
+    geometry.applyMatrix4(getLocalMatrix(operand));
+    const brush = new Brush(geometry);
+    brush.updateMatrixWorld();
+    if (!result) {
+      result = brush;
+      return;
+    }
+    const previous: Brush = result;
+    result = evaluator.evaluate(previous, brush, operation);
+    previous.geometry.dispose();
+    geometry.dispose();
+  });
+
+  return result ? (result as Brush).geometry : null;
+}
+
+// Part of `a` outside `b`, both in the same space
+export function subtractGeometry(a: THREE.BufferGeometry, b: THREE.BufferGeometry) {
+  const brushA = new Brush(a);
+  const brushB = new Brush(b);
+  brushA.updateMatrixWorld();
+  brushB.updateMatrixWorld();
+  return evaluator.evaluate(brushA, brushB, SUBTRACTION).geometry;
+}
+
+// `a` and `b` together, both in the same space
+export function unionGeometry(a: THREE.BufferGeometry, b: THREE.BufferGeometry) {
+  const brushA = new Brush(a);
+  const brushB = new Brush(b);
+  brushA.updateMatrixWorld();
+  brushB.updateMatrixWorld();
+  return evaluator.evaluate(brushA, brushB, ADDITION).geometry;
+}
+
+// Enclosed volume of a closed mesh (sum of signed tetrahedra)
+export function getMeshVolume(geometry: THREE.BufferGeometry) {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const count = index ? index.count : position.count;
+  const [a, b, c] = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  let volume = 0;
+  for (let i = 0; i + 2 < count; i += 3) {
+    a.fromBufferAttribute(position, index ? index.getX(i) : i);
+    b.fromBufferAttribute(position, index ? index.getX(i + 1) : i + 1);
+    c.fromBufferAttribute(position, index ? index.getX(i + 2) : i + 2);
+    volume += a.dot(b.cross(c)) / 6;
+  }
+  return Math.abs(volume);
+}
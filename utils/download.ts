@@ -0,0 +1,10 @@
+// Save a blob through a temporary link. The URL is revoked on a later tick, as some browsers
+// only start reading it after click() has returned.
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
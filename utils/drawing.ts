@@ -0,0 +1,158 @@
+// Sketch tools: turn the clicks of a drawing tool into a footprint outline in plan (x, 0, z).
+// Curves are tessellated, so every tool ends up as the `points` of a custom shape.
+import { MeasurementKind } from './measurement';
+
+export type DrawingTool = 'polyline' | 'arc' | 'tangent-arc' | 'rectangle' | 'rotated-rectangle' | 'circle' | 'polygon';
+
+// What a finished outline becomes: a footprint to extrude, a site boundary, the path of the array
+// tool, or the line the selection is mirrored across
+export type DrawingTarget = 'mass' | 'site' | 'path' | 'mirror';
+
+// Targets drawn for the selection, which stays selected meanwhile
+export const SELECTION_TARGETS: DrawingTarget[] = ['path', 'mirror'];
+
+type Point = [number, number, number];
+
+export const DRAWING_TOOL_LABELS: Record<DrawingTool, string> = {
+  polyline: 'Line',
+  arc: '3-Point Arc',
+  'tangent-arc': 'Tangent Arc',
+  rectangle: 'Rectangle',
+  'rotated-rectangle': 'Rotated Rectangle',
+  circle: 'Circle',
+  polygon: 'Polygon'
+};
+
+export const DRAWING_TOOL_HINTS: Record<DrawingTool, string> = {
+  polyline: 'Click points, Enter to close',
+  arc: 'Click end, then a point on the arc',
+  'tangent-arc': 'Click the end of an arc tangent to the last segment',
+  rectangle: 'Click two opposite corners',
+  'rotated-rectangle': 'Click the base edge, then the width',
+  circle: 'Click the center, then the radius',
+  polygon: 'Click the center, then a corner'
+};
+
+// Path tools extend the polyline being drawn and can be mixed; shape tools finish on their own
+export const PATH_TOOLS: DrawingTool[] = ['polyline', 'arc', 'tangent-arc'];
+
+// Clicks after which a shape tool creates its shape
+export const SHAPE_TOOL_CLICKS: Partial<Record<DrawingTool, number>> = {
+  rectangle: 2,
+  'rotated-rectangle': 3,
+  circle: 2,
+  polygon: 2
+};
+
+// What a typed value means for each tool once its first point is down
+export const TOOL_MEASUREMENTS: Partial<Record<DrawingTool, MeasurementKind>> = {
+  polyline: 'length',
+  rectangle: 'size',
+  circle: 'radius',
+  polygon: 'radius'
+};
+
+export const CIRCLE_SEGMENTS = 48;
+const ARC_SEGMENT_ANGLE = (Math.PI * 2) / CIRCLE_SEGMENTS;
+const EPSILON = 1e-6;
+
+const sub = (a: Point, b: Point) => [a[0] - b[0], a[2] - b[2]] as [number, number];
+const at = (x: number, z: number): Point => [x, 0, z];
+
+// Points around `center` from angle `start` sweeping `sweep` radians, both ends included
+function arcPoints(center: [number, number], radius: number, start: number, sweep: number): Point[] {
+  const segments = Math.max(2, Math.ceil(Math.abs(sweep) / ARC_SEGMENT_ANGLE));
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const a = start + (sweep * i) / segments;
+    return at(center[0] + Math.cos(a) * radius, center[1] + Math.sin(a) * radius);
+  });
+}
+
+const positiveAngle = (a: number) => ((a % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+
+// Arc from `start` to `end` passing through `through`. A straight segment when the points are collinear.
+export function threePointArc(start: Point, end: Point, through: Point): Point[] {
+  const [bx, bz] = sub(end, start);
+  const [cx, cz] = sub(through, start);
+  const d = 2 * (bx * cz - bz * cx);
+  if (Math.abs(d) < EPSILON) return [start, end];
+
+  // Circumcenter relative to start
+  const b2 = bx * bx + bz * bz;
+  const c2 = cx * cx + cz * cz;
+  const ux = (cz * b2 - bz * c2) / d;
+  const uz = (bx * c2 - cx * b2) / d;
+  const center: [number, number] = [start[0] + ux, start[2] + uz];
+  const radius = Math.hypot(ux, uz);
+
+  const angleOf = (p: Point) => Math.atan2(p[2] - center[1], p[0] - center[0]);
+  const a0 = angleOf(start);
+  const ccwSweep = positiveAngle(angleOf(end) - a0);
+  const throughOnCcw = positiveAngle(angleOf(through) - a0) < ccwSweep;
+  return arcPoints(center, radius, a0, throughOnCcw ? ccwSweep : ccwSweep - Math.PI * 2);
+}
+
+// Arc from `start` to `end` leaving `start` along `tangent`
+export function tangentArc(start: Point, tangent: [number, number], end: Point): Point[] {
+  const len = Math.hypot(tangent[0], tangent[1]);
+  if (len < EPSILON) return [start, end];
+  const t: [number, number] = [tangent[0] / len, tangent[1] / len];
+  const normal: [number, number] = [-t[1], t[0]];
+  const [dx, dz] = sub(end, start);
+  const side = dx * normal[0] + dz * normal[1];
+  if (Math.abs(side) < EPSILON) return [start, end];
+
+  // Signed radius along the normal: the center is equidistant from start and end
+  const r = (dx * dx + dz * dz) / (2 * side);
+  const center: [number, number] = [start[0] + normal[0] * r, start[2] + normal[1] * r];
+  const a0 = Math.atan2(start[2] - center[1], start[0] - center[0]);
+  const ccwSweep = positiveAngle(Math.atan2(end[2] - center[1], end[0] - center[0]) - a0);
+  // Moving counter-clockwise at start heads along (-sin, cos); pick the sweep that follows the tangent
+  const ccw = -Math.sin(a0) * t[0] + Math.cos(a0) * t[1] > 0;
+  return arcPoints(center, Math.abs(r), a0, ccw ? ccwSweep : ccwSweep - Math.PI * 2);
+}
+
+// Signed area in plan; near zero for degenerate outlines (zero-width rectangles, collinear clicks)
+export function planArea(points: Point[]) {
+  let area = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    area += p[0] * q[2] - q[0] * p[2];
+  });
+  return area / 2;
+}
+
+// Outline of a shape tool for the given clicks (the cursor counts as the last click while previewing).
+// Returns the clicks themselves while there are not enough of them for a closed outline.
+export function buildShapeOutline(tool: DrawingTool, clicks: Point[], polygonSides = 6): Point[] {
+  const [a, b, c] = clicks;
+  if (!a || !b) return clicks;
+
+  switch (tool) {
+    case 'rectangle':
+      return [a, at(b[0], a[2]), b, at(a[0], b[2])];
+    case 'rotated-rectangle': {
+      if (!c) return [a, b];
+      const [ex, ez] = sub(b, a);
+      const len = Math.hypot(ex, ez);
+      if (len < EPSILON) return [a, b];
+      const n: [number, number] = [-ez / len, ex / len];
+      const [cx, cz] = sub(c, a);
+      const width = cx * n[0] + cz * n[1];
+      return [a, b, at(b[0] + n[0] * width, b[2] + n[1] * width), at(a[0] + n[0] * width, a[2] + n[1] * width)];
+    }
+    case 'circle':
+    case 'polygon': {
+      const [rx, rz] = sub(b, a);
+      const radius = Math.hypot(rx, rz);
+      const sides = tool === 'circle' ? CIRCLE_SEGMENTS : Math.max(3, Math.round(polygonSides));
+      const start = Math.atan2(rz, rx);
+      return Array.from({ length: sides }, (_, i) => {
+        const angle = start + (i / sides) * Math.PI * 2;
+        return at(a[0] + Math.cos(angle) * radius, a[2] + Math.sin(angle) * radius);
+      });
+    }
+    default:
+      return clicks;
+  }
+}
@@ -0,0 +1,167 @@
+// Facade patterns: the walls of a mass split into storeys and bays, with a window in each bay and
+// mullions between bays. Walls are laid out in the mass's own frame at its real size, scale applied.
+import * as THREE from 'three';
+import { FacadeSettings, ShapeData } from '../types';
+import { planArea } from './drawing';
+import { getFootprintLoops, getWorldMatrix, indexShapes } from './geometry';
+
+type Point = [number, number, number];
+
+// Compass as in the sun path: north is +z, east is +x
+export type Orientation = 'N' | 'E' | 'S' | 'W';
+export const ORIENTATIONS: Orientation[] = ['N', 'E', 'S', 'W'];
+
+export const DEFAULT_FACADE: FacadeSettings = {
+  windowToWall: 0.4,
+  bayWidth: 3,
+  sillHeight: 0.9,
+  mullionDepth: 0.2,
+  floorHeight: 3.5
+};
+
+// Wall kept above each window, below the next floor
+const HEAD_HEIGHT = 0.3;
+// Wall kept either side of a window within its bay
+const FRAME_WIDTH = 0.1;
+const MULLION_WIDTH = 0.08;
+// Glass sits just proud of the wall so the two don't flicker
+const GLASS_OFFSET = 0.02;
+// Windows smaller than this either way are left out
+const MIN_WINDOW = 0.05;
+
+export const canHaveFacade = (shape: ShapeData) =>
+  shape.type === 'box' || (shape.type === 'custom' && (shape.points?.length || 0) >= 3 && (shape.extrudeDepth || 0) > 0.01);
+
+interface Wall {
+  start: THREE.Vector3; // Bottom corners, the outside on the right going from start to end
+  end: THREE.Vector3;
+  height: number;
+  normal: THREE.Vector3; // Outward, level
+}
+
+// Window as distances along the wall from its start and up from its bottom
+interface WallWindow {
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+}
+
+// Vertical faces of a mass at the given scale, in its own frame
+function getWalls(shape: ShapeData, scale: THREE.Vector3): Wall[] {
+  if (!canHaveFacade(shape)) return [];
+  const box = shape.type === 'box';
+  const loops: Point[][] = box ? [[[-0.5, 0, -0.5], [0.5, 0, -0.5], [0.5, 0, 0.5], [-0.5, 0, 0.5]]] : getFootprintLoops(shape);
+  const bottom = (box ? -0.5 : 0.01) * scale.y;
+  const height = (box ? 1 : shape.extrudeDepth!) * scale.y;
+
+  return loops.flatMap((loop, i) => {
+    const scaled = loop.map(p => [p[0] * scale.x, 0, p[2] * scale.z] as Point);
+    // Outline counter-clockwise, holes clockwise: the outside of every wall is on its right
+    const oriented = (planArea(scaled) > 0) === (i === 0) ? scaled : [...scaled].reverse();
+    return oriented.map((p, j) => {
+      const q = oriented[(j + 1) % oriented.length];
+      const start = new THREE.Vector3(p[0], bottom, p[2]);
+      const end = new THREE.Vector3(q[0], bottom, q[2]);
+      const normal = new THREE.Vector3(q[2] - p[2], 0, p[0] - q[0]).normalize();
+      return { start, end, height, normal };
+    }).filter(wall => wall.start.distanceTo(wall.end) > MIN_WINDOW);
+  });
+}
+
+// Storeys of the wall split into bays, with the window of each bay sized to the window-to-wall
+// ratio. Windows that can't grow any wider keep the ratio short rather than spill past their bay.
+function layoutWall(wall: Wall, facade: FacadeSettings): { windows: WallWindow[]; mullions: number[] } {
+  const length = wall.start.distanceTo(wall.end);
+  const storeys = Math.max(1, Math.round(wall.height / Math.max(0.5, facade.floorHeight)));
+  const storeyHeight = wall.height / storeys;
+  const bays = Math.max(1, Math.round(length / Math.max(0.5, facade.bayWidth)));
+  const bayWidth = length / bays;
+
+  const height = storeyHeight - facade.sillHeight - HEAD_HEIGHT;
+  const width = Math.min(bayWidth - 2 * FRAME_WIDTH, Math.max(0, facade.windowToWall) * bayWidth * storeyHeight / Math.max(height, MIN_WINDOW));
+  const windows: WallWindow[] = [];
+  if (height >= MIN_WINDOW && width >= MIN_WINDOW) {
+    for (let storey = 0; storey < storeys; storey++) {
+      for (let bay = 0; bay < bays; bay++) {
+        const middle = (bay + 0.5) * bayWidth;
+        const bottom = storey * storeyHeight + Math.max(0, facade.sillHeight);
+        windows.push({ left: middle - width / 2, right: middle + width / 2, bottom, top: bottom + height });
+      }
+    }
+  }
+  const mullions = facade.mullionDepth > 0 ? Array.from({ length: bays - 1 }, (_, i) => (i + 1) * bayWidth) : [];
+  return { windows, mullions };
+}
+
+// Glass panels and mullion fins in the mass's frame at its real size; render them with the mass's
+// scale undone
+export function buildFacadeGeometry(shape: ShapeData): { glass: THREE.BufferGeometry; mullions: THREE.BufferGeometry } | null {
+  if (!shape.facade) return null;
+  const facade = shape.facade;
+  const glass: number[] = [];
+  const mullions: number[] = [];
+  const u = new THREE.Vector3();
+  const w = new THREE.Vector3();
+
+  // Quad turned to face `outward`
+  const quad = (target: number[], corners: THREE.Vector3[], outward: THREE.Vector3) => {
+    const [a, b, c, d] = u.subVectors(corners[1], corners[0]).cross(w.subVectors(corners[2], corners[0])).dot(outward) >= 0
+      ? corners : [...corners].reverse();
+    [a, b, c, a, c, d].forEach(p => target.push(p.x, p.y, p.z));
+  };
+
+  getWalls(shape, new THREE.Vector3(...shape.scale)).forEach(wall => {
+    const along = new THREE.Vector3().subVectors(wall.end, wall.start).normalize();
+    const at = (distance: number, up: number, out = 0) =>
+      wall.start.clone().addScaledVector(along, distance).addScaledVector(wall.normal, out).setY(wall.start.y + up);
+    const { windows, mullions: fins } = layoutWall(wall, facade);
+
+    windows.forEach(({ left, right, bottom, top }) => {
+      quad(glass, [at(left, bottom, GLASS_OFFSET), at(right, bottom, GLASS_OFFSET), at(right, top, GLASS_OFFSET), at(left, top, GLASS_OFFSET)], wall.normal);
+    });
+    fins.forEach(distance => {
+      const l = distance - MULLION_WIDTH / 2;
+      const r = distance + MULLION_WIDTH / 2;
+      const depth = facade.mullionDepth;
+      const h = wall.height;
+      quad(mullions, [at(l, 0, depth), at(r, 0, depth), at(r, h, depth), at(l, h, depth)], wall.normal);
+      quad(mullions, [at(l, 0, 0), at(l, 0, depth), at(l, h, depth), at(l, h, 0)], along.clone().negate());
+      quad(mullions, [at(r, 0, 0), at(r, 0, depth), at(r, h, depth), at(r, h, 0)], along);
+      quad(mullions, [at(l, h, 0), at(r, h, 0), at(r, h, depth), at(l, h, depth)], new THREE.Vector3(0, 1, 0));
+      quad(mullions, [at(l, 0, 0), at(r, 0, 0), at(r, 0, depth), at(l, 0, depth)], new THREE.Vector3(0, -1, 0));
+    });
+  });
+
+  const toGeometry = (positions: number[]) => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.computeVertexNormals();
+    return geometry;
+  };
+  return { glass: toGeometry(glass), mullions: toGeometry(mullions) };
+}
+
+export interface GlazingReport {
+  areas: Record<Orientation, number>; // Glass facing each way
+  wallArea: number;
+}
+
+// Glazing of a mass by the compass direction its walls face, in the world
+export function getGlazingReport(shape: ShapeData, shapes: ShapeData[]): GlazingReport {
+  const areas: Record<Orientation, number> = { N: 0, E: 0, S: 0, W: 0 };
+  let wallArea = 0;
+  if (!shape.facade) return { areas, wallArea };
+
+  const rotation = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  getWorldMatrix(shape, indexShapes(shapes)).decompose(new THREE.Vector3(), rotation, scale);
+  getWalls(shape, new THREE.Vector3(Math.abs(scale.x), Math.abs(scale.y), Math.abs(scale.z))).forEach(wall => {
+    wallArea += wall.start.distanceTo(wall.end) * wall.height;
+    const glazed = layoutWall(wall, shape.facade!).windows.reduce((sum, w) => sum + (w.right - w.left) * (w.top - w.bottom), 0);
+    const normal = wall.normal.clone().applyQuaternion(rotation);
+    const azimuth = THREE.MathUtils.radToDeg(Math.atan2(normal.x, normal.z));
+    areas[ORIENTATIONS[((Math.round(azimuth / 90) % 4) + 4) % 4]] += glazed;
+  });
+  return { areas, wallArea };
+}
@@ -0,0 +1,74 @@
+// Multi-storey massing: a mass is a stack of floors and its height follows from them.
+// Heights are in the same units as getShapeHeight (scale[1] for primitives, extrudeDepth for footprints).
+import { ShapeData, FloorSettings } from '../types';
+import { getFootprintLoops } from './geometry';
+import { CIRCLE_SEGMENTS } from './drawing';
+
+type Point = [number, number, number];
+
+export const DEFAULT_FLOOR_HEIGHT = 3.5;
+export const MIN_FLOOR_HEIGHT = 0.5;
+export const MAX_FLOORS = 200;
+
+// Shapes with flat floors stacked along their height
+export const canHaveFloors = (shape: ShapeData) =>
+  shape.type === 'box' || shape.type === 'cylinder' || shape.type === 'cone' || shape.type === 'custom';
+
+export const clampFloorCount = (count: number) => Math.min(MAX_FLOORS, Math.max(1, Math.round(count) || 1));
+
+const floorHeightAt = (floors: FloorSettings, index: number) =>
+  Math.max(MIN_FLOOR_HEIGHT, floors.overrides?.[index] ?? floors.height);
+
+// Floor-to-floor height of every storey, ground floor first
+export const getFloorHeights = (floors: FloorSettings) =>
+  Array.from({ length: clampFloorCount(floors.count) }, (_, i) => floorHeightAt(floors, i));
+
+export const getFloorsTotalHeight = (floors: FloorSettings) =>
+  getFloorHeights(floors).reduce((sum, h) => sum + h, 0);
+
+// Elevation of each floor plate above the base, ground floor (0) first; the roof is not included
+export function getFloorLevels(floors: FloorSettings) {
+  let level = 0;
+  return getFloorHeights(floors).map(h => {
+    const at = level;
+    level += h;
+    return at;
+  });
+}
+
+// The floor count whose stack comes closest to `height`, overrides kept
+export function fitFloors(floors: FloorSettings, height: number): FloorSettings {
+  let count = 1;
+  let total = floorHeightAt(floors, 0);
+  // Add storeys while the next one's mid-height is still below the target
+  while (count < MAX_FLOORS && total + floorHeightAt(floors, count) / 2 < height) {
+    total += floorHeightAt(floors, count);
+    count++;
+  }
+  return { ...floors, count };
+}
+
+// Loops of the floor plates between the ground and the roof, in the shape's local space
+export function getFloorPlateOutlines(shape: ShapeData): Point[][] {
+  if (!shape.floors || !canHaveFloors(shape)) return [];
+  const total = getFloorsTotalHeight(shape.floors);
+  const levels = getFloorLevels(shape.floors).slice(1);
+
+  if (shape.type === 'custom') {
+    // The extrusion sits just above its base plane (see CustomShapeMesh)
+    const loops = getFootprintLoops(shape);
+    return levels.flatMap(level => loops.map(loop => loop.map(p => [p[0], level + 0.01, p[2]] as Point)));
+  }
+
+  // Primitives are unit-sized around their center, so a level is a fraction of the height
+  return levels.map(level => {
+    const t = level / total;
+    const y = t - 0.5;
+    if (shape.type === 'box') return [[-0.5, y, -0.5], [0.5, y, -0.5], [0.5, y, 0.5], [-0.5, y, 0.5]];
+    const radius = shape.type === 'cone' ? 0.5 * (1 - t) : 0.5;
+    return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+      const a = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+      return [Math.cos(a) * radius, y, Math.sin(a) * radius] as Point;
+    });
+  });
+}
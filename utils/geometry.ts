@@ -0,0 +1,358 @@
+// Shared geometry helpers: shape transforms and the analytic geometry of each shape type.
+import * as THREE from 'three';
+import { ShapeData } from '../types';
+import { planArea } from './drawing';
+import { OffsetJoin, OffsetRegion, offsetFootprint } from './offset';
+import { DEFAULT_TOWER, getTowerFloors } from './tower';
+
+export type ShapeIndex = Map<string, ShapeData>;
+
+export const indexShapes = (shapes: ShapeData[]): ShapeIndex => new Map(shapes.map(s => [s.id, s]));
+
+// --- TRANSFORMS ---
+export function getLocalMatrix(shape: ShapeData, target = new THREE.Matrix4()) {
+  return target.compose(
+    new THREE.Vector3(...shape.position),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...shape.rotation)),
+    new THREE.Vector3(...shape.scale)
+  );
+}
+
+// Position, rotation and scale that give the shape this local matrix
+export function getTransformFromMatrix(matrix: THREE.Matrix4): Pick<ShapeData, 'position' | 'rotation' | 'scale'> {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  matrix.decompose(position, quaternion, scale);
+  const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+  return {
+    position: [position.x, position.y, position.z],
+    rotation: [rotation.x, rotation.y, rotation.z],
+    scale: [scale.x, scale.y, scale.z]
+  };
+}
+
+// Local matrix of the shape multiplied by those of all its parent groups
+export function getWorldMatrix(shape: ShapeData, index: ShapeIndex, target = new THREE.Matrix4()) {
+  getLocalMatrix(shape, target);
+  const parentMatrix = new THREE.Matrix4();
+  let parent = shape.parentId ? index.get(shape.parentId) : undefined;
+  while (parent) {
+    target.premultiply(getLocalMatrix(parent, parentMatrix));
+    parent = parent.parentId ? index.get(parent.parentId) : undefined;
+  }
+  return target;
+}
+
+// World matrix of the group the shape lives in (identity for top-level shapes)
+export function getParentWorldMatrix(shape: ShapeData, index: ShapeIndex) {
+  const parent = shape.parentId ? index.get(shape.parentId) : undefined;
+  return parent ? getWorldMatrix(parent, index) : new THREE.Matrix4();
+}
+
+const IDENTITY_TOLERANCE = 1e-9;
+
+// Transform that keeps the shape where it is in the world once it lives in `parentId` (undefined
+// for the top level). If the two frames differ only by a move, rotation and scale stay as typed
+// rather than coming back as equivalent angles. A non-uniform scale under a turned frame is
+// approximated, as a transform can't hold the skew.
+export function getTransformInParent(shape: ShapeData, parentId: string | undefined, index: ShapeIndex): Pick<ShapeData, 'position' | 'rotation' | 'scale'> {
+  const parent = parentId ? index.get(parentId) : undefined;
+  const change = (parent ? getWorldMatrix(parent, index) : new THREE.Matrix4()).invert().multiply(getParentWorldMatrix(shape, index));
+  const e = change.elements;
+  const moveOnly = [0, 1, 2, 4, 5, 6, 8, 9, 10].every(i => Math.abs(e[i] - (i % 5 === 0 ? 1 : 0)) < IDENTITY_TOLERANCE);
+  if (moveOnly) {
+    const position = new THREE.Vector3(...shape.position).applyMatrix4(change);
+    return { position: [position.x, position.y, position.z], rotation: shape.rotation, scale: shape.scale };
+  }
+  return getTransformFromMatrix(change.multiply(getLocalMatrix(shape)));
+}
+
+export function getDescendantIds(id: string, shapes: ShapeData[]): Set<string> {
+  const ids = new Set<string>([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    shapes.forEach(s => {
+      if (s.parentId && ids.has(s.parentId) && !ids.has(s.id)) {
+        ids.add(s.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+}
+
+// Selected shapes that act as wholes: those not already brought along by a selected group
+export function getSelectionRoots(shapes: ShapeData[], ids: string[]): ShapeData[] {
+  const index = indexShapes(shapes);
+  const selected = new Set(ids);
+  const hasSelectedAncestor = (shape: ShapeData): boolean => {
+    const parent = shape.parentId ? index.get(shape.parentId) : undefined;
+    return !!parent && (selected.has(parent.id) || hasSelectedAncestor(parent));
+  };
+  return ids.map(id => index.get(id)).filter((s): s is ShapeData => !!s && !hasSelectedAncestor(s));
+}
+
+// --- FOOTPRINTS ---
+// Custom shapes store their footprint as [x, 0, z] points and are rendered by a mesh rotated
+// -90° around X, which maps shape space (x, y) to world (x, -y). Negate z so the footprint
+// lands where it was drawn, and extrude along +z (world up). Holes become paths of the shape;
+// three.js fixes their winding, so they can be drawn either way round.
+const traceLoop = (path: THREE.Path, points: [number, number, number][]) => {
+  path.moveTo(points[0][0], -points[0][2]);
+  for (let i = 1; i < points.length; i++) {
+    path.lineTo(points[i][0], -points[i][2]);
+  }
+  path.closePath();
+};
+
+export function createFootprintShape(points: [number, number, number][], holes: [number, number, number][][] = []) {
+  const shape = new THREE.Shape();
+  if (points.length > 0) {
+    traceLoop(shape, points);
+    holes.filter(h => h.length >= 3).forEach(h => {
+      const path = new THREE.Path();
+      traceLoop(path, h);
+      shape.holes.push(path);
+    });
+  }
+  return shape;
+}
+
+// All loops of a custom footprint: the outline first, then the holes
+export const getFootprintLoops = (shape: ShapeData): [number, number, number][][] =>
+  shape.points ? [shape.points, ...(shape.holes || [])] : [];
+
+// --- PLAN TESTS ---
+// Loops are [x, 0, z] points; only x and z matter
+type PlanLoop = [number, number, number][];
+
+export function pointInLoop(x: number, z: number, loop: PlanLoop) {
+  let inside = false;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    const [xi, , zi] = loop[i];
+    const [xj, , zj] = loop[j];
+    if ((zi > z) !== (zj > z) && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+const cross = (ax: number, az: number, bx: number, bz: number) => ax * bz - az * bx;
+
+// Proper crossing of segments ab and cd (touching at an end does not count)
+function segmentsCross(a: number[], b: number[], c: number[], d: number[]) {
+  const d1 = cross(b[0] - a[0], b[2] - a[2], c[0] - a[0], c[2] - a[2]);
+  const d2 = cross(b[0] - a[0], b[2] - a[2], d[0] - a[0], d[2] - a[2]);
+  const d3 = cross(d[0] - c[0], d[2] - c[2], a[0] - c[0], a[2] - c[2]);
+  const d4 = cross(d[0] - c[0], d[2] - c[2], b[0] - c[0], b[2] - c[2]);
+  return d1 * d2 < -1e-12 && d3 * d4 < -1e-12;
+}
+
+export function loopsCross(a: PlanLoop, b: PlanLoop) {
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (segmentsCross(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length])) return true;
+    }
+  }
+  return false;
+}
+
+// Inner lies entirely within outer: every vertex inside and no edges crossing
+export const loopInsideLoop = (inner: PlanLoop, outer: PlanLoop) =>
+  inner.every(p => pointInLoop(p[0], p[2], outer)) && !loopsCross(inner, outer);
+
+// Neither loop reaches into the other
+export const loopsDisjoint = (a: PlanLoop, b: PlanLoop) =>
+  !a.some(p => pointInLoop(p[0], p[2], b)) && !b.some(p => pointInLoop(p[0], p[2], a)) && !loopsCross(a, b);
+
+function pointSegmentDistance(p: number[], a: number[], b: number[]) {
+  const dx = b[0] - a[0];
+  const dz = b[2] - a[2];
+  const lengthSq = dx * dx + dz * dz;
+  const t = lengthSq > 0 ? Math.min(1, Math.max(0, ((p[0] - a[0]) * dx + (p[2] - a[2]) * dz) / lengthSq)) : 0;
+  return Math.hypot(p[0] - a[0] - dx * t, p[2] - a[2] - dz * t);
+}
+
+// Shortest distance from a point to the edges of a loop
+export const pointLoopDistance = (p: number[], loop: PlanLoop) =>
+  loop.reduce((min, a, i) => Math.min(min, pointSegmentDistance(p, a, loop[(i + 1) % loop.length])), Infinity);
+
+// Gap between two loops in plan; 0 when they touch, overlap or one holds the other
+export function loopDistance(a: PlanLoop, b: PlanLoop) {
+  if (!loopsDisjoint(a, b)) return 0;
+  return Math.min(
+    a.reduce((min, p) => Math.min(min, pointLoopDistance(p, b)), Infinity),
+    b.reduce((min, p) => Math.min(min, pointLoopDistance(p, a)), Infinity)
+  );
+}
+
+// --- PLAN OFFSETS ---
+// Moves each edge of a closed loop along its outward normal by its own distance (negative moves it
+// inward) and joins neighbouring edges where their offset lines meet (miter joins)
+export function offsetPolygon(loop: PlanLoop, distances: number | number[]): PlanLoop {
+  const n = loop.length;
+  const sign = planArea(loop) > 0 ? 1 : -1;
+  const lines = loop.map((a, i) => {
+    const b = loop[(i + 1) % n];
+    const len = Math.hypot(b[0] - a[0], b[2] - a[2]) || 1;
+    const dx = (b[0] - a[0]) / len;
+    const dz = (b[2] - a[2]) / len;
+    const d = typeof distances === 'number' ? distances : distances[i] ?? 0;
+    return { x: a[0] + sign * dz * d, z: a[2] - sign * dx * d, dx, dz };
+  });
+
+  return loop.map((_, i) => {
+    const prev = lines[(i - 1 + n) % n];
+    const next = lines[i];
+    const denom = cross(prev.dx, prev.dz, next.dx, next.dz);
+    // Collinear neighbours: the vertex just follows the edge it starts
+    if (Math.abs(denom) < 1e-9) return [next.x, 0, next.z];
+    const t = cross(next.x - prev.x, next.z - prev.z, next.dx, next.dz) / denom;
+    return [prev.x + prev.dx * t, 0, prev.z + prev.dz * t];
+  });
+}
+
+// Offset of a custom footprint or site boundary, in the space of its parent: the shape's own
+// rotation and scale are applied first so the distance is true in plan
+export function offsetShapeFootprint(shape: ShapeData, distance: number, join: OffsetJoin): OffsetRegion[] {
+  const matrix = getLocalMatrix(shape);
+  const v = new THREE.Vector3();
+  const loops = getFootprintLoops(shape).map(loop => loop.map(p => {
+    v.set(p[0], 0, p[2]).applyMatrix4(matrix);
+    return [v.x, 0, v.z] as [number, number, number];
+  }));
+  return offsetFootprint(loops, distance, join);
+}
+
+// --- SNAP GEOMETRY ---
+// Characteristic points and edges of a shape in its local space
+export interface ShapeFeatures {
+  vertices: THREE.Vector3[];
+  edges: [THREE.Vector3, THREE.Vector3][];
+  faceCenters: THREE.Vector3[];
+  bounds: THREE.Box3;
+}
+
+const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z);
+
+const loopEdges = (loop: THREE.Vector3[]) =>
+  loop.map((p, i) => [p, loop[(i + 1) % loop.length]] as [THREE.Vector3, THREE.Vector3]);
+
+const ringPoints = (radius: number, y: number, segments: number) =>
+  Array.from({ length: segments }, (_, i) => {
+    const a = (i / segments) * Math.PI * 2;
+    return v(Math.cos(a) * radius, y, Math.sin(a) * radius);
+  });
+
+const centroid = (pts: THREE.Vector3[]) => pts.reduce((c, p) => c.add(p), new THREE.Vector3()).divideScalar(Math.max(1, pts.length));
+
+export function getShapeFeatures(shape: ShapeData): ShapeFeatures | null {
+  switch (shape.type) {
+    case 'box': {
+      const bottom = [v(-0.5, -0.5, -0.5), v(0.5, -0.5, -0.5), v(0.5, -0.5, 0.5), v(-0.5, -0.5, 0.5)];
+      const top = bottom.map(p => v(p.x, 0.5, p.z));
+      return {
+        vertices: [...bottom, ...top],
+        edges: [...loopEdges(bottom), ...loopEdges(top), ...bottom.map((p, i) => [p, top[i]] as [THREE.Vector3, THREE.Vector3])],
+        faceCenters: [v(0.5, 0, 0), v(-0.5, 0, 0), v(0, 0.5, 0), v(0, -0.5, 0), v(0, 0, 0.5), v(0, 0, -0.5)],
+        bounds: new THREE.Box3(v(-0.5, -0.5, -0.5), v(0.5, 0.5, 0.5))
+      };
+    }
+    case 'cylinder': {
+      const bottom = ringPoints(0.5, -0.5, 16);
+      const top = ringPoints(0.5, 0.5, 16);
+      return {
+        vertices: [...bottom.filter((_, i) => i % 4 === 0), ...top.filter((_, i) => i % 4 === 0)],
+        edges: [...loopEdges(bottom), ...loopEdges(top)],
+        faceCenters: [v(0, 0.5, 0), v(0, -0.5, 0)],
+        bounds: new THREE.Box3(v(-0.5, -0.5, -0.5), v(0.5, 0.5, 0.5))
+      };
+    }
+    case 'cone': {
+      const base = ringPoints(0.5, -0.5, 16);
+      return {
+        vertices: [v(0, 0.5, 0), ...base.filter((_, i) => i % 4 === 0)],
+        edges: loopEdges(base),
+        faceCenters: [v(0, -0.5, 0)],
+        bounds: new THREE.Box3(v(-0.5, -0.5, -0.5), v(0.5, 0.5, 0.5))
+      };
+    }
+    case 'sphere':
+      return {
+        vertices: [v(0, 0.5, 0), v(0, -0.5, 0)],
+        edges: [],
+        faceCenters: [v(0, 0, 0)],
+        bounds: new THREE.Box3(v(-0.5, -0.5, -0.5), v(0.5, 0.5, 0.5))
+      };
+    case 'plane':
+    case 'image': {
+      const hw = shape.type === 'image' ? (shape.aspectRatio || 1) / 2 : 0.5;
+      const corners = [v(-hw, -0.5, 0), v(hw, -0.5, 0), v(hw, 0.5, 0), v(-hw, 0.5, 0)];
+      return {
+        vertices: corners,
+        edges: loopEdges(corners),
+        faceCenters: [v(0, 0, 0)],
+        bounds: new THREE.Box3(v(-hw, -0.5, 0), v(hw, 0.5, 0))
+      };
+    }
+    case 'tree':
+      return {
+        vertices: [v(0, 0, 0)],
+        edges: [],
+        faceCenters: [],
+        bounds: new THREE.Box3(v(-0.8, 0, -0.8), v(0.8, 2.3, 0.8))
+      };
+    case 'site':
+    case 'custom': {
+      if (!shape.points || shape.points.length < 3) return null;
+      const height = shape.extrudeDepth || 0;
+      const loops = getFootprintLoops(shape).map(loop => loop.map(p => v(p[0], 0, p[2])));
+      const base = loops[0];
+      const bounds = new THREE.Box3().setFromPoints(base);
+      if (height <= 0.01) {
+        return { vertices: loops.flat(), edges: loops.flatMap(loopEdges), faceCenters: [centroid(base)], bounds };
+      }
+      bounds.max.y = height;
+      const features: ShapeFeatures = { vertices: [], edges: [], faceCenters: [centroid(base), centroid(base.map(p => v(p.x, height, p.z)))], bounds };
+      // Walls of the outline and of each courtyard
+      loops.forEach(loop => {
+        const top = loop.map(p => v(p.x, height, p.z));
+        features.vertices.push(...loop, ...top);
+        features.edges.push(...loopEdges(loop), ...loopEdges(top), ...loop.map((p, i) => [p, top[i]] as [THREE.Vector3, THREE.Vector3]));
+        features.faceCenters.push(...loop.map((p, i) => {
+          const next = loop[(i + 1) % loop.length];
+          return v((p.x + next.x) / 2, height / 2, (p.z + next.z) / 2);
+        }));
+      });
+      return features;
+    }
+    case 'tower': {
+      // Corners of the base and of the roof; floors in between turn and step too often to snap to
+      const floors = getTowerFloors(shape.tower || DEFAULT_TOWER);
+      if (floors.length === 0) return null;
+      const first = floors[0];
+      const last = floors[floors.length - 1];
+      const base = first.loop.map(p => v(p[0], 0, p[2]));
+      const roof = last.loop.map(p => v(p[0], last.elevation + last.height, p[2]));
+      return {
+        vertices: [...base, ...roof],
+        edges: [...loopEdges(base), ...loopEdges(roof)],
+        faceCenters: [centroid(base), centroid(roof)],
+        bounds: new THREE.Box3().setFromPoints(floors.flatMap(f => [
+          ...f.loop.map(p => v(p[0], f.elevation, p[2])),
+          v(f.loop[0][0], f.elevation + f.height, f.loop[0][2])
+        ]))
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export const getBoxCorners = (box: THREE.Box3) => [
+  v(box.min.x, box.min.y, box.min.z), v(box.max.x, box.min.y, box.min.z),
+  v(box.max.x, box.min.y, box.max.z), v(box.min.x, box.min.y, box.max.z),
+  v(box.min.x, box.max.y, box.min.z), v(box.max.x, box.max.y, box.min.z),
+  v(box.max.x, box.max.y, box.max.z), v(box.min.x, box.max.y, box.max.z),
+];
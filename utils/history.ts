@@ -0,0 +1,140 @@
+// Command based undo history. Each command stores only what changed between two
+// document states, so the history can grow until it hits a memory budget instead of a step count.
+import { ShapeData, SceneSettings, SunSettings } from '../types';
+
+// The part of the app state that undo/redo covers
+export interface DocumentState {
+  shapes: ShapeData[];
+  scene: SceneSettings;
+  sunSettings: SunSettings;
+}
+
+export interface ShapeChange {
+  id: string;
+  before: ShapeData | null; // null = shape did not exist
+  after: ShapeData | null;
+}
+
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  timestamp: number;
+  changes: ShapeChange[];
+  // Only recorded when shapes were added, removed or reordered
+  orderBefore?: string[];
+  orderAfter?: string[];
+  sceneBefore?: Partial<SceneSettings>;
+  sceneAfter?: Partial<SceneSettings>;
+  sunBefore?: SunSettings;
+  sunAfter?: SunSettings;
+  size: number; // Approximate bytes retained by this command
+}
+
+export type CommandDiff = Pick<HistoryCommand, 'changes' | 'orderBefore' | 'orderAfter' | 'sceneBefore' | 'sceneAfter' | 'sunBefore' | 'sunAfter'>;
+
+// Rough per-item costs used to keep the history within HISTORY_MEMORY_BUDGET
+const SHAPE_BYTES = 512;
+const POINT_BYTES = 32;
+const ID_BYTES = 48;
+export const HISTORY_MEMORY_BUDGET = 64 * 1024 * 1024;
+
+const shapeBytes = (shape: ShapeData | null) => shape
+  ? SHAPE_BYTES + ((shape.points?.length || 0) + (shape.holes || []).reduce((n, h) => n + h.length, 0)) * POINT_BYTES
+  : 0;
+
+export function estimateCommandSize(diff: CommandDiff): number {
+  let size = SHAPE_BYTES;
+  diff.changes.forEach(c => { size += shapeBytes(c.before) + shapeBytes(c.after); });
+  size += ((diff.orderBefore?.length || 0) + (diff.orderAfter?.length || 0)) * ID_BYTES;
+  return size;
+}
+
+// Whether a group is collapsed in the layers list is view state, so it is neither recorded nor undone
+const isSameShape = (a: ShapeData, b: ShapeData) => a === b
+  || (Object.keys({ ...a, ...b }) as (keyof ShapeData)[]).every(key => key === 'collapsed' || a[key] === b[key]);
+
+export function diffDocuments(before: DocumentState, after: DocumentState): CommandDiff | null {
+  const diff: CommandDiff = { changes: [] };
+
+  if (before.shapes !== after.shapes) {
+    const beforeById = new Map(before.shapes.map(s => [s.id, s]));
+    const afterIds = new Set<string>();
+    after.shapes.forEach(shape => {
+      afterIds.add(shape.id);
+      const prev = beforeById.get(shape.id);
+      if (!prev || !isSameShape(prev, shape)) diff.changes.push({ id: shape.id, before: prev || null, after: shape });
+    });
+    before.shapes.forEach(shape => {
+      if (!afterIds.has(shape.id)) diff.changes.push({ id: shape.id, before: shape, after: null });
+    });
+
+    const sameOrder = before.shapes.length === after.shapes.length
+      && before.shapes.every((s, i) => s.id === after.shapes[i].id);
+    if (!sameOrder) {
+      diff.orderBefore = before.shapes.map(s => s.id);
+      diff.orderAfter = after.shapes.map(s => s.id);
+    }
+  }
+
+  (Object.keys(after.scene) as (keyof SceneSettings)[]).forEach(key => {
+    if (before.scene[key] !== after.scene[key]) {
+      diff.sceneBefore = { ...diff.sceneBefore, [key]: before.scene[key] };
+      diff.sceneAfter = { ...diff.sceneAfter, [key]: after.scene[key] };
+    }
+  });
+
+  if (before.sunSettings !== after.sunSettings) {
+    diff.sunBefore = before.sunSettings;
+    diff.sunAfter = after.sunSettings;
+  }
+
+  const isEmpty = diff.changes.length === 0 && !diff.orderBefore && !diff.sceneBefore && !diff.sunBefore;
+  return isEmpty ? null : diff;
+}
+
+export function applyCommand(doc: DocumentState, command: HistoryCommand, direction: 'undo' | 'redo'): DocumentState {
+  const undo = direction === 'undo';
+  const replacements = new Map(command.changes.map(c => [c.id, undo ? c.before : c.after]));
+
+  let shapes = doc.shapes;
+  if (replacements.size > 0 || command.orderBefore) {
+    const current = new Map(doc.shapes.map(s => [s.id, s]));
+    replacements.forEach((shape, id) => {
+      const collapsed = current.get(id)?.collapsed;
+      if (shape && collapsed !== undefined) replacements.set(id, { ...shape, collapsed });
+    });
+    const order = undo ? command.orderBefore : command.orderAfter;
+    if (order) {
+      const byId = new Map(doc.shapes.map(s => [s.id, s]));
+      replacements.forEach((shape, id) => {
+        if (shape) byId.set(id, shape);
+        else byId.delete(id);
+      });
+      shapes = order.map(id => byId.get(id)).filter((s): s is ShapeData => !!s);
+    } else {
+      shapes = doc.shapes
+        .map(s => replacements.has(s.id) ? replacements.get(s.id) : s)
+        .filter((s): s is ShapeData => !!s);
+    }
+  }
+
+  const sceneChange = undo ? command.sceneBefore : command.sceneAfter;
+  const sunChange = undo ? command.sunBefore : command.sunAfter;
+
+  return {
+    shapes,
+    scene: sceneChange ? { ...doc.scene, ...sceneChange } : doc.scene,
+    sunSettings: sunChange || doc.sunSettings
+  };
+}
+
+// Drop the oldest commands until the history fits the budget (always keeping the newest one)
+export function trimToBudget(past: HistoryCommand[], budget = HISTORY_MEMORY_BUDGET): HistoryCommand[] {
+  let total = past.reduce((sum, c) => sum + c.size, 0);
+  let start = 0;
+  while (total > budget && start < past.length - 1) {
+    total -= past[start].size;
+    start++;
+  }
+  return start > 0 ? past.slice(start) : past;
+}
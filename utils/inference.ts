@@ -0,0 +1,113 @@
+// Drawing inference: locks the rubber band to the red/green axes, or parallel/perpendicular to
+// edges of the polygon being drawn and of nearby custom footprints. Works in plan (x, z).
+import * as THREE from 'three';
+import { ShapeData } from '../types';
+import { indexShapes, getWorldMatrix, getFootprintLoops } from './geometry';
+
+export type InferenceKind = 'axis-x' | 'axis-z' | 'parallel' | 'perpendicular';
+
+export interface PlanEdge {
+  a: THREE.Vector2;
+  b: THREE.Vector2;
+}
+
+export interface Inference {
+  kind: InferenceKind;
+  direction: THREE.Vector2; // Unit vector in plan
+  reference?: PlanEdge; // Edge the inference was taken from
+}
+
+export const INFERENCE_COLORS: Record<InferenceKind, string> = {
+  'axis-x': '#ef4444',
+  'axis-z': '#22c55e',
+  parallel: '#d946ef',
+  perpendicular: '#d946ef'
+};
+
+export const INFERENCE_LABELS: Record<InferenceKind, string> = {
+  'axis-x': 'On Red Axis',
+  'axis-z': 'On Green Axis',
+  parallel: 'Parallel to Edge',
+  perpendicular: 'Perpendicular to Edge'
+};
+
+const INFERENCE_TOLERANCE = THREE.MathUtils.degToRad(3);
+const REFERENCE_RADIUS = 15; // Only footprints this close (m) to the cursor offer edges
+
+const distanceToEdge = (p: THREE.Vector2, e: PlanEdge) => {
+  const ab = e.b.clone().sub(e.a);
+  const t = THREE.MathUtils.clamp(p.clone().sub(e.a).dot(ab) / Math.max(ab.lengthSq(), 1e-9), 0, 1);
+  return e.a.clone().addScaledVector(ab, t).distanceTo(p);
+};
+
+// Edges of the polygon in progress plus the footprints (and courtyards) of custom shapes near the cursor
+export function collectReferenceEdges(drawingPoints: [number, number, number][], shapes: ShapeData[], cursor: THREE.Vector2): PlanEdge[] {
+  const edges: PlanEdge[] = [];
+  for (let i = 1; i < drawingPoints.length; i++) {
+    edges.push({
+      a: new THREE.Vector2(drawingPoints[i - 1][0], drawingPoints[i - 1][2]),
+      b: new THREE.Vector2(drawingPoints[i][0], drawingPoints[i][2])
+    });
+  }
+
+  const index = indexShapes(shapes);
+  shapes.forEach(shape => {
+    if ((shape.type !== 'custom' && shape.type !== 'site') || !shape.visible || !shape.points || shape.points.length < 2) return;
+    const matrix = getWorldMatrix(shape, index);
+    getFootprintLoops(shape).forEach(points => {
+      const loop = points.map(p => {
+        const w = new THREE.Vector3(p[0], 0, p[2]).applyMatrix4(matrix);
+        return new THREE.Vector2(w.x, w.z);
+      });
+      loop.forEach((a, i) => {
+        const edge = { a, b: loop[(i + 1) % loop.length] };
+        if (distanceToEdge(cursor, edge) <= REFERENCE_RADIUS) edges.push(edge);
+      });
+    });
+  });
+
+  return edges;
+}
+
+// Angle between two directions, ignoring orientation (0..PI/2)
+const lineAngle = (a: THREE.Vector2, b: THREE.Vector2) => {
+  const cos = Math.abs(a.dot(b)) / (a.length() * b.length());
+  return Math.acos(Math.min(1, cos));
+};
+
+export function findInference(origin: THREE.Vector2, cursor: THREE.Vector2, edges: PlanEdge[]): Inference | null {
+  const band = cursor.clone().sub(origin);
+  if (band.lengthSq() < 1e-6) return null;
+
+  // Axes are listed first so they win ties against edges
+  const candidates: Inference[] = [
+    { kind: 'axis-x', direction: new THREE.Vector2(1, 0) },
+    { kind: 'axis-z', direction: new THREE.Vector2(0, 1) },
+  ];
+  edges.forEach(edge => {
+    const dir = edge.b.clone().sub(edge.a);
+    if (dir.lengthSq() < 1e-6) return;
+    dir.normalize();
+    candidates.push({ kind: 'parallel', direction: dir, reference: edge });
+    candidates.push({ kind: 'perpendicular', direction: new THREE.Vector2(-dir.y, dir.x), reference: edge });
+  });
+
+  let best: Inference | null = null;
+  let bestAngle = INFERENCE_TOLERANCE;
+  for (const candidate of candidates) {
+    const angle = lineAngle(band, candidate.direction);
+    if (angle < bestAngle - 1e-9) {
+      best = candidate;
+      bestAngle = angle;
+    }
+  }
+  return best;
+}
+
+// Point on the inference line through origin closest to the cursor, with the length optionally
+// rounded to the grid step so locked lines still land on clean dimensions
+export function projectOnInference(origin: THREE.Vector2, cursor: THREE.Vector2, inference: Inference, lengthStep = 0) {
+  let length = cursor.clone().sub(origin).dot(inference.direction);
+  if (lengthStep > 0) length = Math.round(length / lengthStep) * lengthStep;
+  return origin.clone().addScaledVector(inference.direction, length);
+}
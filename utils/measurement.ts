@@ -0,0 +1,110 @@
+// Measurements box: typed lengths, distances, angles, scale factors and heights.
+import * as THREE from 'three';
+import { ShapeData } from '../types';
+import type { PushPullFace } from './pushpull';
+
+export type MeasurementKind = 'length' | 'size' | 'radius' | 'distance' | 'angle' | 'scale' | 'height' | 'offset';
+
+export interface MeasurementContext {
+  kind: MeasurementKind;
+  value: string; // Current value, formatted for display
+  shapeId?: string;
+  start?: ShapeData; // Shape as it was when the operation began
+  direction?: [number, number, number]; // Move direction or rotation axis (unit, world)
+  historyId?: string; // Pending history entry of the operation a typed value amends
+  face?: PushPullFace; // Face being pushed or pulled
+}
+
+export const MEASUREMENT_LABELS: Record<MeasurementKind, string> = {
+  length: 'Length',
+  size: 'Size',
+  radius: 'Radius',
+  distance: 'Distance',
+  angle: 'Angle',
+  scale: 'Scale',
+  height: 'Height',
+  offset: 'Push/Pull'
+};
+
+export const MEASUREMENT_HINTS: Record<MeasurementKind, string> = {
+  length: 'length or length,angle',
+  size: 'width,depth',
+  radius: 'radius',
+  distance: 'distance or x,y,z',
+  angle: 'degrees',
+  scale: 'factor or x,y,z',
+  height: 'height',
+  offset: 'distance (negative pushes in)'
+};
+
+export const formatLength = (m: number) => `${m.toFixed(2)} m`;
+export const formatAngle = (deg: number) => `${deg.toFixed(1)}°`;
+export const formatFactor = (f: number) => `${f.toFixed(2)}x`;
+
+// "12.5", "12.5m", "12.5, 30" or "1;2;3" -> list of numbers, null when anything is not a number
+export function parseMeasurement(input: string): number[] | null {
+  const parts = input.split(/[,;]/).map(p => p.trim()).filter(p => p !== '');
+  if (parts.length === 0) return null;
+  const values = parts.map(p => parseFloat(p));
+  return values.some(v => isNaN(v)) ? null : values;
+}
+
+// Next drawing point: `length` along the rubber band, or at `angle` degrees measured
+// counter-clockwise from the red axis as seen from above
+export function pointAtDistance(
+  from: [number, number, number],
+  toward: [number, number, number] | null,
+  length: number,
+  angle?: number
+): [number, number, number] {
+  let dx = 1, dz = 0;
+  if (angle !== undefined) {
+    const rad = (angle * Math.PI) / 180;
+    dx = Math.cos(rad);
+    dz = -Math.sin(rad);
+  } else if (toward) {
+    const len = Math.hypot(toward[0] - from[0], toward[2] - from[2]);
+    if (len > 1e-6) {
+      dx = (toward[0] - from[0]) / len;
+      dz = (toward[2] - from[2]) / len;
+    }
+  }
+  return [from[0] + dx * length, 0, from[2] + dz * length];
+}
+
+// Value and direction of a gizmo drag so far, as the measurements box should show it
+export function measureTransform(
+  kind: MeasurementKind,
+  start: ShapeData,
+  current: Pick<ShapeData, 'position' | 'rotation' | 'scale'>
+): Pick<MeasurementContext, 'value' | 'direction'> {
+  switch (kind) {
+    case 'distance': {
+      const offset = new THREE.Vector3(...current.position).sub(new THREE.Vector3(...start.position));
+      const length = offset.length();
+      return {
+        value: formatLength(length),
+        direction: length > 1e-6 ? offset.divideScalar(length).toArray() as [number, number, number] : undefined
+      };
+    }
+    case 'angle': {
+      // Rotation that takes the start orientation to the current one, as axis and angle
+      const startQuat = new THREE.Quaternion().setFromEuler(new THREE.Euler(...start.rotation));
+      const delta = new THREE.Quaternion().setFromEuler(new THREE.Euler(...current.rotation)).multiply(startQuat.invert());
+      if (delta.w < 0) delta.set(-delta.x, -delta.y, -delta.z, -delta.w);
+      const angle = 2 * Math.acos(Math.min(1, delta.w));
+      const s = Math.sqrt(1 - delta.w * delta.w);
+      return {
+        value: formatAngle(THREE.MathUtils.radToDeg(angle)),
+        direction: s > 1e-6 ? [delta.x / s, delta.y / s, delta.z / s] : undefined
+      };
+    }
+    case 'scale': {
+      const factors = current.scale.map((v, i) => v / (start.scale[i] || 1));
+      const uniform = factors.every(f => Math.abs(f - factors[0]) < 1e-6);
+      return { value: uniform ? formatFactor(factors[0]) : factors.map(f => formatFactor(f)).join(', ') };
+    }
+    default:
+      return { value: formatLength(current.scale[1]) };
+  }
+}
@@ -0,0 +1,260 @@
+// Area and volume schedule: footprint, gross floor area (GFA), facade area and volume of every mass,
+// rolled up per group and for the whole scene. All values are in world units (m, m², m³).
+import * as THREE from 'three';
+import { ShapeData } from '../types';
+import { ShapeIndex, getFootprintLoops, getWorldMatrix, indexShapes } from './geometry';
+import { evaluateBoolean, getMeshVolume } from './csg';
+import { planArea } from './drawing';
+import { DEFAULT_FLOOR_HEIGHT, fitFloors, getFloorLevels, getFloorsTotalHeight } from './floors';
+import { DEFAULT_TOWER, getTowerFloors } from './tower';
+import { buildRoofGeometry } from './roof';
+
+export interface AreaMetrics {
+  footprint: number;
+  gfa: number;
+  facade: number;
+  volume: number;
+  height: number;
+  floors: number;
+  floorsEstimated: boolean; // No floors defined: counted at the default floor-to-floor height
+}
+
+export interface ScheduleRow {
+  id: string;
+  name: string;
+  depth: number;
+  isGroup: boolean;
+  metrics: AreaMetrics;
+}
+
+export interface Schedule {
+  rows: ScheduleRow[];
+  total: AreaMetrics;
+}
+
+const EMPTY: AreaMetrics = { footprint: 0, gfa: 0, facade: 0, volume: 0, height: 0, floors: 0, floorsEstimated: false };
+
+// Faces steeper than this count as facade, flatter downward faces as footprint
+const STEEP = Math.SQRT1_2;
+
+const ellipsePerimeter = (a: number, b: number) =>
+  Math.PI * (3 * (a + b) - Math.sqrt((3 * a + b) * (a + 3 * b))); // Ramanujan
+
+// Knud Thomsen's approximation of an ellipsoid's surface
+const ellipsoidSurface = (a: number, b: number, c: number) => {
+  const p = 1.6075;
+  return 4 * Math.PI * Math.pow((Math.pow(a * b, p) + Math.pow(a * c, p) + Math.pow(b * c, p)) / 3, 1 / p);
+};
+
+const getWorldScale = (shape: ShapeData, index: ShapeIndex) => {
+  const scale = new THREE.Vector3();
+  getWorldMatrix(shape, index).decompose(new THREE.Vector3(), new THREE.Quaternion(), scale);
+  return scale.set(Math.abs(scale.x), Math.abs(scale.y), Math.abs(scale.z));
+};
+
+// GFA from the floor plates: defined floors, or as many default-height floors as fit the height.
+// `plateArea(t)` is the plate area at fraction t of the height (0 = base).
+function floorArea(shape: ShapeData, height: number, plateArea: (t: number) => number) {
+  const floors = shape.floors || fitFloors({ count: 1, height: DEFAULT_FLOOR_HEIGHT }, height);
+  const total = shape.floors ? getFloorsTotalHeight(floors) : height;
+  const levels = getFloorLevels(floors).filter(level => level < total);
+  return {
+    gfa: levels.reduce((sum, level) => sum + plateArea(total > 0 ? level / total : 0), 0),
+    floors: levels.length,
+    floorsEstimated: !shape.floors
+  };
+}
+
+// Floors of a mass without flat plates (spheres, booleans), each with the average plate area
+const estimateFromVolume = (volume: number, height: number) => {
+  const floors = height > 0 ? Math.max(1, Math.round(height / DEFAULT_FLOOR_HEIGHT)) : 0;
+  return { gfa: height > 0 ? (volume / height) * floors : 0, floors, floorsEstimated: true };
+};
+
+// Metrics of a boolean, from its evaluated mesh
+function meshMetrics(geometry: THREE.BufferGeometry, matrix: THREE.Matrix4): AreaMetrics {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const count = index ? index.count : position.count;
+  const [a, b, c] = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const normal = new THREE.Vector3();
+  let footprint = 0;
+  let facade = 0;
+  let volume = 0;
+
+  for (let i = 0; i + 2 < count; i += 3) {
+    const vertex = (v: THREE.Vector3, k: number) => v.fromBufferAttribute(position, index ? index.getX(k) : k).applyMatrix4(matrix);
+    vertex(a, i);
+    vertex(b, i + 1);
+    vertex(c, i + 2);
+    volume += a.dot(new THREE.Vector3().crossVectors(b, c)) / 6;
+    normal.crossVectors(b.clone().sub(a), c.clone().sub(a));
+    const area = normal.length() / 2;
+    if (area < 1e-12) continue;
+    normal.normalize();
+    if (Math.abs(normal.y) < STEEP) facade += area;
+    else if (normal.y < 0) footprint += area * -normal.y;
+  }
+
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!.clone().applyMatrix4(matrix);
+  const height = box.isEmpty() ? 0 : box.max.y - box.min.y;
+  volume = Math.abs(volume);
+  return { footprint, facade, volume, height, ...estimateFromVolume(volume, height) };
+}
+
+// Metrics of a single mass, or null for shapes that have no floor area (planes, trees, images, models, groups)
+export function getShapeMetrics(shape: ShapeData, shapes: ShapeData[], index = indexShapes(shapes)): AreaMetrics | null {
+  const s = getWorldScale(shape, index);
+
+  switch (shape.type) {
+    case 'box': {
+      const footprint = s.x * s.z;
+      return { footprint, facade: 2 * (s.x + s.z) * s.y, volume: footprint * s.y, height: s.y, ...floorArea(shape, s.y, () => footprint) };
+    }
+    case 'cylinder': {
+      const footprint = Math.PI * (s.x / 2) * (s.z / 2);
+      return { footprint, facade: ellipsePerimeter(s.x / 2, s.z / 2) * s.y, volume: footprint * s.y, height: s.y, ...floorArea(shape, s.y, () => footprint) };
+    }
+    case 'cone': {
+      const footprint = Math.PI * (s.x / 2) * (s.z / 2);
+      const radius = (s.x + s.z) / 4;
+      return {
+        footprint,
+        facade: Math.PI * radius * Math.hypot(radius, s.y),
+        volume: (footprint * s.y) / 3,
+        height: s.y,
+        ...floorArea(shape, s.y, t => footprint * (1 - t) * (1 - t))
+      };
+    }
+    case 'sphere': {
+      const [a, b, c] = [s.x / 2, s.y / 2, s.z / 2];
+      const volume = (4 / 3) * Math.PI * a * b * c;
+      return {
+        footprint: Math.PI * a * c,
+        facade: ellipsoidSurface(a, b, c),
+        volume,
+        height: s.y,
+        ...estimateFromVolume(volume, s.y)
+      };
+    }
+    case 'custom': {
+      const depth = shape.extrudeDepth || 0;
+      if (!shape.points || shape.points.length < 3 || depth <= 0.01) return null;
+      // Courtyards take their area away and add their walls to the facade
+      const loops = getFootprintLoops(shape).filter(loop => loop.length >= 3);
+      const [outline, ...holes] = loops.map(loop => Math.abs(planArea(loop)));
+      const footprint = Math.max(0, outline - holes.reduce((sum, a) => sum + a, 0)) * s.x * s.z;
+      const perimeter = loops.reduce((sum, loop) => sum + loop.reduce((len, p, i) => {
+        const q = loop[(i + 1) % loop.length];
+        return len + Math.hypot((q[0] - p[0]) * s.x, (q[2] - p[2]) * s.z);
+      }, 0), 0);
+      const height = depth * s.y;
+      // A pitched roof adds its volume; the floors stay below it
+      const roof = buildRoofGeometry(shape);
+      const roofVolume = roof ? getMeshVolume(roof) * Math.abs(s.x * s.y * s.z) : 0;
+      roof?.dispose();
+      return { footprint, facade: perimeter * height, volume: footprint * height + roofVolume, height, ...floorArea(shape, height, () => footprint) };
+    }
+    case 'tower': {
+      // Every floor is a plate of its own: sum them rather than extrude the base
+      const floors = getTowerFloors(shape.tower || DEFAULT_TOWER);
+      if (floors.length === 0) return null;
+      const plates = floors.map(({ loop, height }) => ({
+        area: Math.abs(planArea(loop)) * s.x * s.z,
+        perimeter: loop.reduce((len, p, i) => {
+          const q = loop[(i + 1) % loop.length];
+          return len + Math.hypot((q[0] - p[0]) * s.x, (q[2] - p[2]) * s.z);
+        }, 0),
+        height: height * s.y
+      }));
+      return {
+        footprint: plates[0].area,
+        gfa: plates.reduce((sum, p) => sum + p.area, 0),
+        facade: plates.reduce((sum, p) => sum + p.perimeter * p.height, 0),
+        volume: plates.reduce((sum, p) => sum + p.area * p.height, 0),
+        height: plates.reduce((sum, p) => sum + p.height, 0),
+        floors: plates.length,
+        floorsEstimated: false
+      };
+    }
+    case 'boolean': {
+      const geometry = evaluateBoolean(shape, shapes);
+      if (!geometry) return null;
+      const metrics = meshMetrics(geometry, getWorldMatrix(shape, index));
+      geometry.dispose();
+      return metrics;
+    }
+    default:
+      return null;
+  }
+}
+
+const addMetrics = (a: AreaMetrics, b: AreaMetrics): AreaMetrics => ({
+  footprint: a.footprint + b.footprint,
+  gfa: a.gfa + b.gfa,
+  facade: a.facade + b.facade,
+  volume: a.volume + b.volume,
+  height: Math.max(a.height, b.height),
+  floors: Math.max(a.floors, b.floors),
+  floorsEstimated: a.floorsEstimated || b.floorsEstimated
+});
+
+// Rows for every visible mass and group (groups sum their contents), in layer order.
+// Boolean operands are part of their boolean and get no rows of their own.
+export function buildSchedule(shapes: ShapeData[]): Schedule {
+  const index = indexShapes(shapes);
+  const rows: ScheduleRow[] = [];
+
+  const visit = (shape: ShapeData, depth: number): AreaMetrics | null => {
+    if (!shape.visible) return null;
+    if (shape.type !== 'group') {
+      const metrics = getShapeMetrics(shape, shapes, index);
+      if (metrics) rows.push({ id: shape.id, name: shape.name, depth, isGroup: false, metrics });
+      return metrics;
+    }
+
+    const at = rows.length;
+    const metrics = shapes
+      .filter(s => s.parentId === shape.id)
+      .reduce<AreaMetrics | null>((sum, child) => {
+        const m = visit(child, depth + 1);
+        return m ? addMetrics(sum || EMPTY, m) : sum;
+      }, null);
+    if (metrics) rows.splice(at, 0, { id: shape.id, name: shape.name, depth, isGroup: true, metrics });
+    return metrics;
+  };
+
+  const total = shapes
+    .filter(s => !s.parentId)
+    .reduce((sum, shape) => {
+      const m = visit(shape, 0);
+      return m ? addMetrics(sum, m) : sum;
+    }, EMPTY);
+
+  return { rows, total };
+}
+
+// Floor-area ratio: GFA over site area, null until a site area is set
+export const getFloorAreaRatio = (gfa: number, siteArea: number) => siteArea > 0 ? gfa / siteArea : null;
+
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'number' ? value.toFixed(2) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function scheduleToCsv(schedule: Schedule, siteArea: number) {
+  const header = ['Name', 'Type', 'Floors', 'Height (m)', 'Footprint (m2)', 'GFA (m2)', 'Facade (m2)', 'Volume (m3)'];
+  const line = (name: string, type: string, m: AreaMetrics) =>
+    [name, type, `${m.floorsEstimated ? '~' : ''}${m.floors}`, m.height, m.footprint, m.gfa, m.facade, m.volume].map(csvCell).join(',');
+
+  const far = getFloorAreaRatio(schedule.total.gfa, siteArea);
+  return [
+    header.join(','),
+    ...schedule.rows.map(row => line(`${'  '.repeat(row.depth)}${row.name}`, row.isGroup ? 'Group' : 'Mass', row.metrics)),
+    line('Total', 'Scene', schedule.total),
+    '',
+    ['Site area (m2)', siteArea > 0 ? csvCell(siteArea) : ''].join(','),
+    ['FAR', far === null ? '' : far.toFixed(2)].join(',')
+  ].join('\n');
+}
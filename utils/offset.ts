@@ -0,0 +1,284 @@
+// Offsets of footprints: parallel outlines at a distance, for setbacks, balconies and overhangs.
+// Every loop is offset edge by edge, corners are joined, and the self-intersecting raw result is
+// cleaned up by keeping the boundary of the region it winds around at least once.
+import { planArea } from './drawing';
+
+type Point = [number, number, number];
+
+export type OffsetJoin = 'miter' | 'round';
+
+export const OFFSET_JOIN_LABELS: Record<OffsetJoin, string> = {
+  miter: 'Miter',
+  round: 'Round'
+};
+
+export interface OffsetRegion {
+  outline: Point[];
+  holes: Point[][];
+}
+
+// Miters longer than this many times the distance are cut off square
+const MITER_LIMIT = 4;
+// Largest angle between two segments of a round join
+const ROUND_STEP = Math.PI / 16;
+
+const cross = (ax: number, az: number, bx: number, bz: number) => ax * bz - az * bx;
+
+// Drops repeated points and points on a straight run
+function simplify(loop: Point[], eps: number): Point[] {
+  let points = loop.filter((p, i) => {
+    const q = loop[(i + 1) % loop.length];
+    return Math.hypot(q[0] - p[0], q[2] - p[2]) > eps;
+  });
+  let changed = true;
+  while (changed && points.length > 2) {
+    changed = false;
+    for (let i = 0; i < points.length; i++) {
+      const a = points[(i - 1 + points.length) % points.length];
+      const b = points[i];
+      const c = points[(i + 1) % points.length];
+      const area = cross(b[0] - a[0], b[2] - a[2], c[0] - b[0], c[2] - b[2]);
+      const len = Math.hypot(c[0] - a[0], c[2] - a[2]) || 1;
+      if (Math.abs(area) / len < eps) {
+        points = points.filter((_, j) => j !== i);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return points;
+}
+
+// Offset of one loop before clean-up. Each edge moves to its right by `distance`, which is outward
+// for counter-clockwise outlines and clockwise holes.
+function rawOffset(loop: Point[], distance: number, join: OffsetJoin): Point[] {
+  const n = loop.length;
+  const edges = loop.map((a, i) => {
+    const b = loop[(i + 1) % n];
+    const len = Math.hypot(b[0] - a[0], b[2] - a[2]) || 1;
+    const dx = (b[0] - a[0]) / len;
+    const dz = (b[2] - a[2]) / len;
+    return { dx, dz, nx: dz * distance, nz: -dx * distance };
+  });
+  const d = Math.abs(distance);
+  const result: Point[] = [];
+
+  loop.forEach((v, i) => {
+    const prev = edges[(i - 1 + n) % n];
+    const next = edges[i];
+    const from: Point = [v[0] + prev.nx, 0, v[2] + prev.nz];
+    const to: Point = [v[0] + next.nx, 0, v[2] + next.nz];
+    const turn = cross(prev.dx, prev.dz, next.dx, next.dz);
+    const dot = prev.dx * next.dx + prev.dz * next.dz;
+
+    // Straight through
+    if (Math.abs(turn) < 1e-9 && dot > 0) {
+      result.push(to);
+      return;
+    }
+    // Offset lines overlap on this side of the corner: going round the vertex leaves a small
+    // reversed loop that the clean-up drops
+    if (turn * distance < 0 && dot > -1 + 1e-9) {
+      result.push(from, [v[0], 0, v[2]], to);
+      return;
+    }
+
+    if (join === 'round') {
+      const start = Math.atan2(prev.nz, prev.nx);
+      let sweep = Math.atan2(next.nz, next.nx) - start;
+      // The normals turn the way the corner does; a reversing corner wraps half way round its tip
+      if (Math.abs(turn) < 1e-9) sweep = Math.sign(distance) * Math.PI;
+      else if (sweep * distance < 0) sweep += Math.sign(distance) * 2 * Math.PI;
+      const steps = Math.max(1, Math.ceil(Math.abs(sweep) / ROUND_STEP));
+      for (let s = 0; s <= steps; s++) {
+        const angle = start + (sweep * s) / steps;
+        result.push([v[0] + Math.cos(angle) * d, 0, v[2] + Math.sin(angle) * d]);
+      }
+      return;
+    }
+
+    // Miter: where the two offset lines meet, squared off MITER_LIMIT times the distance out
+    const alpha = Math.acos(Math.max(-1, Math.min(1, dot))) / 2; // Between each offset line's normal and the bisector
+    if (Math.cos(alpha) * MITER_LIMIT >= 1) {
+      const t = cross(to[0] - from[0], to[2] - from[2], next.dx, next.dz) / turn;
+      result.push([from[0] + prev.dx * t, 0, from[2] + prev.dz * t]);
+      return;
+    }
+    const k = (MITER_LIMIT - Math.cos(alpha)) * d / Math.sin(alpha);
+    result.push([from[0] + prev.dx * k, 0, from[2] + prev.dz * k], [to[0] - next.dx * k, 0, to[2] - next.dz * k]);
+  });
+
+  return result;
+}
+
+interface Segment {
+  a: Point;
+  b: Point;
+}
+
+// Times along ab where it meets cd (ends included); parallel segments meet nowhere
+function intersect(s: Segment, t: Segment): [number, number] | null {
+  const rx = s.b[0] - s.a[0], rz = s.b[2] - s.a[2];
+  const qx = t.b[0] - t.a[0], qz = t.b[2] - t.a[2];
+  const denom = cross(rx, rz, qx, qz);
+  if (Math.abs(denom) < 1e-12) return null;
+  const wx = t.a[0] - s.a[0], wz = t.a[2] - s.a[2];
+  const u = cross(wx, wz, qx, qz) / denom;
+  const v = cross(wx, wz, rx, rz) / denom;
+  const eps = 1e-9;
+  return u >= -eps && u <= 1 + eps && v >= -eps && v <= 1 + eps ? [u, v] : null;
+}
+
+// Times along each of two collinear, overlapping segments where the other one ends
+function collinearCuts(s: Segment, t: Segment): [number[], number[]] {
+  const rx = s.b[0] - s.a[0], rz = s.b[2] - s.a[2];
+  const qx = t.b[0] - t.a[0], qz = t.b[2] - t.a[2];
+  const lr = rx * rx + rz * rz;
+  const lq = qx * qx + qz * qz;
+  if (lr === 0 || lq === 0) return [[], []];
+  // Off the line: parallel, not collinear
+  if (Math.abs(cross(rx, rz, t.a[0] - s.a[0], t.a[2] - s.a[2])) / Math.sqrt(lr) > 1e-9) return [[], []];
+  const along = (p: Point, o: Point, dx: number, dz: number, len: number) => ((p[0] - o[0]) * dx + (p[2] - o[2]) * dz) / len;
+  const inner = (t: number) => t > 0 && t < 1;
+  return [
+    [along(t.a, s.a, rx, rz, lr), along(t.b, s.a, rx, rz, lr)].filter(inner),
+    [along(s.a, t.a, qx, qz, lq), along(s.b, t.a, qx, qz, lq)].filter(inner)
+  ];
+}
+
+// Times the segments wind counter-clockwise around a point
+function windingNumber(x: number, z: number, segments: Segment[]) {
+  let winding = 0;
+  segments.forEach(({ a, b }) => {
+    if (a[2] <= z) {
+      if (b[2] > z && cross(b[0] - a[0], b[2] - a[2], x - a[0], z - a[2]) > 0) winding++;
+    } else if (b[2] <= z && cross(b[0] - a[0], b[2] - a[2], x - a[0], z - a[2]) < 0) {
+      winding--;
+    }
+  });
+  return winding;
+}
+
+// Boundary loops of the region the given loops wind around at least once, outlines counter-clockwise
+// and holes clockwise
+function positiveRegion(loops: Point[][], eps: number): Point[][] {
+  const segments: Segment[] = loops.flatMap(loop => loop.map((a, i) => ({ a, b: loop[(i + 1) % loop.length] })))
+    .filter(({ a, b }) => Math.hypot(b[0] - a[0], b[2] - a[2]) > eps);
+
+  // Split every segment where others cross it
+  const cuts = segments.map(() => [0, 1]);
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const hit = intersect(segments[i], segments[j]);
+      if (hit) {
+        cuts[i].push(hit[0]);
+        cuts[j].push(hit[1]);
+      } else {
+        // Overlapping edges are split where each other ends, so their pieces line up
+        const [a, b] = collinearCuts(segments[i], segments[j]);
+        cuts[i].push(...a);
+        cuts[j].push(...b);
+      }
+    }
+  }
+
+  const key = (p: Point) => `${Math.round(p[0] / eps)},${Math.round(p[2] / eps)}`;
+  const nodes = new Map<string, Point>();
+  const node = (p: Point) => {
+    const k = key(p);
+    if (!nodes.has(k)) nodes.set(k, p);
+    return k;
+  };
+
+  // Keep the pieces with the region on one side only, turned so the region is on their left
+  const kept: { from: string; to: string; used: boolean }[] = [];
+  const probe = eps * 10;
+  segments.forEach((s, i) => {
+    const times = [...new Set(cuts[i].map(t => Math.min(1, Math.max(0, t))))].sort((x, y) => x - y);
+    for (let k = 0; k + 1 < times.length; k++) {
+      const at = (t: number): Point => [s.a[0] + (s.b[0] - s.a[0]) * t, 0, s.a[2] + (s.b[2] - s.a[2]) * t];
+      const p = at(times[k]);
+      const q = at(times[k + 1]);
+      const len = Math.hypot(q[0] - p[0], q[2] - p[2]);
+      if (len <= eps) continue;
+      const mx = (p[0] + q[0]) / 2, mz = (p[2] + q[2]) / 2;
+      const lx = -(q[2] - p[2]) / len, lz = (q[0] - p[0]) / len;
+      const left = windingNumber(mx + lx * probe, mz + lz * probe, segments) > 0;
+      const right = windingNumber(mx - lx * probe, mz - lz * probe, segments) > 0;
+      if (left === right) continue;
+      const [from, to] = left ? [p, q] : [q, p];
+      const edge = { from: node(from), to: node(to), used: false };
+      // Overlapping pieces of different loops only count once
+      if (edge.from !== edge.to && !kept.some(e => e.from === edge.from && e.to === edge.to)) kept.push(edge);
+    }
+  });
+
+  // Walk the kept pieces into loops, taking the sharpest right turn where several leave a point
+  const result: Point[][] = [];
+  kept.forEach(first => {
+    if (first.used) return;
+    const loop: Point[] = [];
+    let edge = first;
+    while (!edge.used) {
+      edge.used = true;
+      loop.push(nodes.get(edge.from)!);
+      if (edge.to === first.from) break;
+      const a = nodes.get(edge.from)!;
+      const b = nodes.get(edge.to)!;
+      const heading = Math.atan2(b[2] - a[2], b[0] - a[0]);
+      const options = kept.filter(e => !e.used && e.from === edge.to);
+      if (options.length === 0) break;
+      const turnOf = (e: typeof edge) => {
+        const c = nodes.get(e.to)!;
+        let turn = Math.atan2(c[2] - b[2], c[0] - b[0]) - heading;
+        while (turn <= -Math.PI) turn += 2 * Math.PI;
+        while (turn > Math.PI) turn -= 2 * Math.PI;
+        return turn;
+      };
+      edge = options.reduce((best, e) => turnOf(e) < turnOf(best) ? e : best);
+    }
+    const clean = simplify(loop, eps);
+    if (clean.length >= 3 && Math.abs(planArea(clean)) > eps * eps * 100) result.push(clean);
+  });
+  return result;
+}
+
+// Outline and courtyards of a footprint moved outward by `distance` (inward when negative).
+// An inward offset can split a footprint into several, or leave nothing at all.
+export function offsetFootprint(loops: Point[][], distance: number, join: OffsetJoin): OffsetRegion[] {
+  const valid = loops.filter(loop => loop.length >= 3);
+  if (valid.length === 0) return [];
+  const size = Math.max(...valid.flat().map(p => Math.max(Math.abs(p[0]), Math.abs(p[2]))), Math.abs(distance), 1);
+  const eps = size * 1e-7;
+
+  // Outline counter-clockwise, courtyards clockwise: the footprint is always on the left
+  const oriented = valid.map((loop, i) => {
+    const clean = simplify(loop, eps);
+    return (planArea(clean) > 0) === (i === 0) ? clean : [...clean].reverse();
+  }).filter(loop => loop.length >= 3);
+  if (oriented.length === 0) return [];
+
+  const raw = Math.abs(distance) < eps ? oriented : oriented.map(loop => rawOffset(loop, distance, join));
+  return toRegions(positiveRegion(raw, eps));
+}
+
+// Part of loop `a` outside loop `b`, e.g. the ledge a floor leaves where the one above steps back
+export function subtractLoop(a: Point[], b: Point[]): OffsetRegion[] {
+  const size = Math.max(...[...a, ...b].map(p => Math.max(Math.abs(p[0]), Math.abs(p[2]))), 1);
+  const ccw = (loop: Point[]) => planArea(loop) > 0 ? loop : [...loop].reverse();
+  return toRegions(positiveRegion([ccw(a), [...ccw(b)].reverse()], size * 1e-7));
+}
+
+// Boundary loops grouped into outlines (largest first), each with the holes directly inside it
+function toRegions(boundary: Point[][]): OffsetRegion[] {
+  const contains = (outline: Point[], [x, , z]: Point) =>
+    windingNumber(x, z, outline.map((a, i) => ({ a, b: outline[(i + 1) % outline.length] }))) !== 0;
+  const outlines = boundary.filter(loop => planArea(loop) > 0).sort((a, b) => planArea(b) - planArea(a));
+  const regions = outlines.map(outline => ({ outline, holes: [] as Point[][] }));
+  boundary.filter(loop => planArea(loop) < 0).forEach(hole => {
+    // The smallest outline around the hole owns it (an island in a courtyard has its own)
+    const owner = [...regions].reverse().find(r => contains(r.outline, hole[0]));
+    owner?.holes.push(hole);
+  });
+  return regions;
+}
@@ -0,0 +1,185 @@
+// Native .archmass project file: a single JSON document holding every shape,
+// the scene/snap/sun settings and the bytes of imported images and models.
+import { ShapeData, SceneSettings, SnapSettings, SunSettings } from '../types';
+import { downloadBlob } from './download';
+
+export const PROJECT_FORMAT = 'archmass';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.archmass';
+
+const ASSET_SCHEME = 'asset://';
+
+export interface ProjectAsset {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface ProjectContent {
+  shapes: ShapeData[];
+  scene: SceneSettings;
+  snap: SnapSettings;
+  sunSettings: SunSettings;
+}
+
+export interface ProjectFile extends ProjectContent {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  assets: Record<string, ProjectAsset>;
+}
+
+// --- MIGRATIONS ---
+// MIGRATIONS[n] upgrades a version n document to version n + 1.
+// Add an entry (and bump PROJECT_VERSION) whenever the saved shape of the data changes.
+type RawDocument = Record<string, unknown>;
+type Migration = (project: RawDocument) => RawDocument;
+const MIGRATIONS: Record<number, Migration> = {};
+
+const isRawDocument = (value: unknown): value is RawDocument =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export function migrateProject(raw: unknown): ProjectFile {
+  if (!isRawDocument(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error('Not an ArchMass project file.');
+  }
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Project file has an invalid version.');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version of ArchMass (v${version}).`);
+  }
+
+  let project: RawDocument = raw;
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration from project version ${v}.`);
+    project = { ...migrate(project), version: v + 1 };
+  }
+  // What reading relies on: the shapes are a list and the assets a table
+  if (project.shapes !== undefined && !Array.isArray(project.shapes)) {
+    throw new Error('Project shapes must be a list.');
+  }
+  if (project.assets !== undefined && !isRawDocument(project.assets)) {
+    throw new Error('Project assets must be an object.');
+  }
+  return project as unknown as ProjectFile;
+}
+
+// --- ASSET ENCODING ---
+const isEmbeddableUrl = (url?: string) => !!url && (url.startsWith('blob:') || url.startsWith('data:'));
+
+// Blob URLs are immutable, so an asset only ever needs encoding once per session.
+const encodedAssets = new Map<string, Promise<ProjectAsset>>();
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    const result = reader.result as string;
+    resolve(result.slice(result.indexOf(',') + 1));
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export function encodeAsset(url: string): Promise<ProjectAsset> {
+  let pending = encodedAssets.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then(res => res.blob())
+      .then(async blob => ({ mimeType: blob.type || 'application/octet-stream', data: await blobToBase64(blob) }));
+    encodedAssets.set(url, pending);
+    pending.catch(() => encodedAssets.delete(url));
+  }
+  return pending;
+}
+
+export function decodeAsset(asset: ProjectAsset): string {
+  const binary = atob(asset.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  const url = URL.createObjectURL(new Blob([bytes], { type: asset.mimeType }));
+  // The bytes are already base64 encoded, no need to read them back on the next save.
+  encodedAssets.set(url, Promise.resolve(asset));
+  return url;
+}
+
+// --- SERIALIZE / DESERIALIZE ---
+export async function createProjectFile(content: ProjectContent): Promise<ProjectFile> {
+  const assets: Record<string, ProjectAsset> = {};
+  const assetIds = new Map<string, string>();
+
+  const embed = async (url?: string) => {
+    if (!url || !isEmbeddableUrl(url)) return url;
+    let id = assetIds.get(url);
+    if (!id) {
+      id = `${assetIds.size + 1}`;
+      assetIds.set(url, id);
+      assets[id] = await encodeAsset(url);
+    }
+    return `${ASSET_SCHEME}${id}`;
+  };
+
+  const shapes: ShapeData[] = [];
+  for (const shape of content.shapes) {
+    const imageUrl = await embed(shape.imageUrl);
+    const modelUrl = await embed(shape.modelUrl);
+    shapes.push({ ...shape, imageUrl, modelUrl });
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    shapes,
+    scene: content.scene,
+    snap: content.snap,
+    sunSettings: content.sunSettings,
+    assets
+  };
+}
+
+export function readProjectFile(raw: unknown): ProjectContent {
+  const project = migrateProject(raw);
+  const urls = new Map<string, string>();
+
+  const resolve = (url?: string) => {
+    if (!url || !url.startsWith(ASSET_SCHEME)) return url;
+    const id = url.slice(ASSET_SCHEME.length);
+    if (!urls.has(id)) {
+      const asset = project.assets?.[id];
+      if (!asset) {
+        console.warn(`Missing embedded asset ${id}`);
+        return undefined;
+      }
+      urls.set(id, decodeAsset(asset));
+    }
+    return urls.get(id);
+  };
+
+  return {
+    shapes: (project.shapes || []).map(shape => ({
+      ...shape,
+      imageUrl: resolve(shape.imageUrl),
+      modelUrl: resolve(shape.modelUrl)
+    })),
+    scene: project.scene,
+    snap: project.snap,
+    sunSettings: project.sunSettings
+  };
+}
+
+export async function parseProjectBlob(file: Blob): Promise<ProjectContent> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Project file is not valid JSON.');
+  }
+  return readProjectFile(raw);
+}
+
+export async function downloadProject(content: ProjectContent, fileName = `scene${PROJECT_EXTENSION}`) {
+  const project = await createProjectFile(content);
+  downloadBlob(new Blob([JSON.stringify(project)], { type: 'application/json' }), fileName);
+}
@@ -0,0 +1,159 @@
+// Face push/pull: which face of a solid is under the cursor, where it is, and how a shape changes
+// when that face moves along its normal.
+import * as THREE from 'three';
+import { ShapeData, VertexRef } from '../types';
+import { getFootprintLoops } from './geometry';
+import { planArea } from './drawing';
+
+export type PushPullFace =
+  | { shapeId: string; kind: 'axis'; axis: 0 | 1 | 2; sign: 1 | -1 } // Box faces, cylinder/cone caps
+  | { shapeId: string; kind: 'top' | 'bottom' } // Caps of a custom extrusion
+  | { shapeId: string; kind: 'wall'; edge: VertexRef }; // Wall over a footprint edge (start vertex)
+
+export interface FaceFrame {
+  center: THREE.Vector3;
+  normal: THREE.Vector3; // Outward, unit
+  outline: THREE.Vector3[][]; // Loops for the hover highlight
+}
+
+const MIN_SIZE = 0.01;
+const AXES = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+
+export const isSameFace = (a: PushPullFace | null, b: PushPullFace | null) => JSON.stringify(a) === JSON.stringify(b);
+
+// Outward normal (local x, z) of a footprint edge; courtyard walls face into the courtyard
+function edgeNormal(shape: ShapeData, edge: VertexRef): [number, number] | null {
+  const loop = getFootprintLoops(shape)[edge.loop];
+  if (!loop || loop.length < 3) return null;
+  const a = loop[edge.index];
+  const b = loop[(edge.index + 1) % loop.length];
+  const dx = b[0] - a[0];
+  const dz = b[2] - a[2];
+  const len = Math.hypot(dx, dz);
+  if (len < 1e-9) return null;
+  const sign = (planArea(loop) > 0 ? 1 : -1) * (edge.loop === 0 ? 1 : -1);
+  return [(sign * dz) / len, (-sign * dx) / len];
+}
+
+// Face of `shape` containing a point given in the shape's local space
+export function pickFace(shape: ShapeData, local: THREE.Vector3): PushPullFace | null {
+  const shapeId = shape.id;
+  switch (shape.type) {
+    case 'box': {
+      const coords = [local.x, local.y, local.z];
+      const axis = coords.reduce((best, c, i) => Math.abs(c) > Math.abs(coords[best]) ? i : best, 0) as 0 | 1 | 2;
+      return { shapeId, kind: 'axis', axis, sign: coords[axis] >= 0 ? 1 : -1 };
+    }
+    case 'cylinder':
+    case 'cone':
+      // Only the flat caps; the curved side has no single normal
+      return Math.abs(local.y) > 0.49 ? { shapeId, kind: 'axis', axis: 1, sign: local.y > 0 ? 1 : -1 } : null;
+    case 'custom': {
+      if (!shape.points || shape.points.length < 3) return null;
+      const depth = shape.extrudeDepth || 0;
+      if (depth <= 0.01 || local.y >= depth - 0.01) return { shapeId, kind: 'top' };
+      if (local.y <= 0.02) return { shapeId, kind: 'bottom' };
+
+      // Closest footprint edge in plan
+      const p = new THREE.Vector3(local.x, 0, local.z);
+      const onEdge = new THREE.Vector3();
+      let best: VertexRef | null = null;
+      let bestDist = Infinity;
+      getFootprintLoops(shape).forEach((loop, li) => loop.forEach((a, i) => {
+        const b = loop[(i + 1) % loop.length];
+        new THREE.Line3(new THREE.Vector3(a[0], 0, a[2]), new THREE.Vector3(b[0], 0, b[2])).closestPointToPoint(p, true, onEdge);
+        const dist = onEdge.distanceTo(p);
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = { loop: li, index: i };
+        }
+      }));
+      return best ? { shapeId, kind: 'wall', edge: best } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Center, outward normal and outline of a face, in the shape's local space
+export function getFaceFrame(shape: ShapeData, face: PushPullFace): FaceFrame | null {
+  const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z);
+  switch (face.kind) {
+    case 'axis': {
+      const normal = AXES[face.axis].clone().multiplyScalar(face.sign);
+      const center = normal.clone().multiplyScalar(0.5);
+      // Two in-plane axes span the face square
+      const [u, w] = AXES.filter((_, i) => i !== face.axis).map(a => a.clone().multiplyScalar(0.5));
+      const corners = [[1, 1], [1, -1], [-1, -1], [-1, 1]].map(([a, b]) => center.clone().addScaledVector(u, a).addScaledVector(w, b));
+      return { center, normal, outline: [corners] };
+    }
+    case 'top':
+    case 'bottom': {
+      const y = face.kind === 'top' ? shape.extrudeDepth || 0 : 0;
+      const loops = getFootprintLoops(shape).map(loop => loop.map(p => v(p[0], y, p[2])));
+      if (!loops[0]) return null;
+      const center = loops[0].reduce((c, p) => c.add(p), new THREE.Vector3()).divideScalar(loops[0].length);
+      return { center, normal: v(0, face.kind === 'top' ? 1 : -1, 0), outline: loops };
+    }
+    case 'wall': {
+      const loop = getFootprintLoops(shape)[face.edge.loop];
+      const n = edgeNormal(shape, face.edge);
+      if (!loop || !n) return null;
+      const depth = shape.extrudeDepth || 0;
+      const a = loop[face.edge.index];
+      const b = loop[(face.edge.index + 1) % loop.length];
+      return {
+        center: v((a[0] + b[0]) / 2, depth / 2, (a[2] + b[2]) / 2),
+        normal: v(n[0], 0, n[1]),
+        outline: [[v(a[0], 0, a[2]), v(b[0], 0, b[2]), v(b[0], depth, b[2]), v(a[0], depth, a[2])]]
+      };
+    }
+  }
+}
+
+// Parent-space length of one unit along a local direction (the shape's own scale stretches it)
+const scaledLength = (shape: ShapeData, dir: THREE.Vector3) =>
+  new THREE.Vector3(dir.x * shape.scale[0], dir.y * shape.scale[1], dir.z * shape.scale[2]).length() || 1;
+
+// Updates that move `face` of `start` by `distance` (parent-space units, positive = outward).
+// Faces stop just short of the opposite side instead of turning the solid inside out.
+export function applyPushPull(start: ShapeData, face: PushPullFace, distance: number): Partial<ShapeData> {
+  const rotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(...start.rotation));
+  const shift = (dir: THREE.Vector3, amount: number) => {
+    const p = new THREE.Vector3(...start.position).addScaledVector(dir.clone().applyQuaternion(rotation), amount);
+    return [p.x, p.y, p.z] as [number, number, number];
+  };
+
+  switch (face.kind) {
+    case 'axis': {
+      const size = Math.max(MIN_SIZE, start.scale[face.axis] + distance);
+      const moved = size - start.scale[face.axis];
+      const scale = [...start.scale] as [number, number, number];
+      scale[face.axis] = size;
+      // Primitives are centred, so the centre follows the face by half the change
+      return { scale, position: shift(AXES[face.axis].clone().multiplyScalar(face.sign), moved / 2) };
+    }
+    case 'top': {
+      const depth = Math.max(0, (start.extrudeDepth || 0) + distance / start.scale[1]);
+      return { extrudeDepth: depth };
+    }
+    case 'bottom': {
+      const depth = start.extrudeDepth || 0;
+      const next = Math.max(MIN_SIZE, depth + distance / start.scale[1]);
+      return { extrudeDepth: next, position: shift(AXES[1], -(next - depth) * start.scale[1]) };
+    }
+    case 'wall': {
+      const n = edgeNormal(start, face.edge);
+      const loop = getFootprintLoops(start)[face.edge.loop];
+      if (!n || !loop) return {};
+      const offset = distance / scaledLength(start, new THREE.Vector3(n[0], 0, n[1]));
+      const next = (face.edge.index + 1) % loop.length;
+      const points = loop.map((p, i) => i === face.edge.index || i === next
+        ? [p[0] + n[0] * offset, 0, p[2] + n[1] * offset] as [number, number, number]
+        : p);
+      return face.edge.loop === 0
+        ? { points }
+        : { holes: (start.holes || []).map((h, i) => i === face.edge.loop - 1 ? points : h) };
+    }
+  }
+}
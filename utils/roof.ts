@@ -0,0 +1,492 @@
+// Roofs on extruded custom masses. Hip, gable and mansard roofs come from a straight skeleton of the
+// footprint: every edge moves inward at its own speed while the wavefront rises, so each edge sweeps
+// out one roof plane. Gable ends are edges that stay put, which makes their plane a vertical wall.
+import * as THREE from 'three';
+import { RoofSettings, RoofType, ShapeData } from '../types';
+import { OffsetRegion, offsetFootprint } from './offset';
+
+type Point = [number, number, number];
+
+export const ROOF_TYPE_LABELS: Record<RoofType, string> = {
+  flat: 'Flat',
+  shed: 'Shed',
+  gable: 'Gable',
+  hip: 'Hip',
+  mansard: 'Mansard'
+};
+
+export const DEFAULT_ROOF: RoofSettings = {
+  type: 'flat',
+  pitch: 30,
+  overhang: 0.5,
+  shedEdge: 0,
+  mansardBreak: 2.5,
+  mansardPitch: 15
+};
+
+// Inward unit normal of a footprint edge and how fast it moves inward per metre of rise
+interface SkeletonEdge {
+  nx: number;
+  nz: number;
+  speed: number;
+}
+
+// A wavefront loop: edges[i] runs from points[i] to the next point, with the inside on its left
+interface WaveLoop {
+  points: Point[];
+  edges: SkeletonEdge[];
+}
+
+interface WaveVertex {
+  x: number;
+  z: number;
+  vx: number;
+  vz: number;
+  node: number; // Where the vertex set off
+  face: number; // Face of the edge to `next`
+  prev: WaveVertex;
+  next: WaveVertex;
+  alive: boolean;
+}
+
+// Roof plane swept by one edge, as links between skeleton nodes: its boundary runs from `start`
+// along the edge and back round
+interface SkeletonFace {
+  edge: SkeletonEdge;
+  start: number;
+  links: Map<number, number>;
+}
+
+interface Skeleton {
+  nodes: THREE.Vector3[]; // x, height, z
+  faces: SkeletonFace[];
+  rest: WaveLoop[]; // What is left of the footprint at `until`
+}
+
+const clampPitch = (degrees: number) => THREE.MathUtils.degToRad(Math.min(89, Math.max(1, degrees)));
+
+// Inward speed of an edge for a roof pitch: the plane rises one metre per `speed` metres
+const pitchSpeed = (degrees: number) => 1 / Math.tan(clampPitch(degrees));
+
+const edgeDirection = (edge: SkeletonEdge) => [edge.nz, -edge.nx];
+
+// Straight skeleton of a set of loops, outlines counter-clockwise and holes clockwise, starting at
+// height `start`. The wavefront is shrunk event by event: an edge shrinking to nothing, or a reflex
+// corner running into an edge, which splits a loop in two (or joins a hole to its outline). With
+// `until` the roof stops at that height and the wavefront is handed back. Null where it breaks down.
+function straightSkeleton(loops: WaveLoop[], start: number, until: number, tol: number): Skeleton | null {
+  const nodes: THREE.Vector3[] = [];
+  const faces: SkeletonFace[] = [];
+  const vertices: WaveVertex[] = [];
+  let failed = false;
+
+  const addNode = (x: number, z: number, height: number) => nodes.push(new THREE.Vector3(x, height, z)) - 1;
+  const link = (face: number, from: number, to: number) => {
+    if (from === to) return;
+    if (faces[face].links.has(from)) failed = true;
+    faces[face].links.set(from, to);
+  };
+  const addVertex = (x: number, z: number, node: number, face: number) => {
+    const v = { x, z, vx: 0, vz: 0, node, face, alive: true } as WaveVertex;
+    vertices.push(v);
+    return v;
+  };
+
+  // Velocity that keeps the vertex on both of its edges' moving lines
+  const setVelocity = (v: WaveVertex) => {
+    const a = faces[v.prev.face].edge;
+    const b = faces[v.face].edge;
+    const det = a.nx * b.nz - a.nz * b.nx;
+    if (Math.abs(det) < 1e-9) {
+      // Straight run, or a spike about to collapse
+      const speed = a.nx * b.nx + a.nz * b.nz > 0 ? (a.speed + b.speed) / 2 : 0;
+      v.vx = a.nx * speed;
+      v.vz = a.nz * speed;
+    } else {
+      v.vx = (a.speed * b.nz - b.speed * a.nz) / det;
+      v.vz = (a.nx * b.speed - b.nx * a.speed) / det;
+    }
+  };
+
+  // The vertex stops at a node: the arc it traced bounds the faces on either side of it
+  const retire = (v: WaveVertex, node: number) => {
+    v.alive = false;
+    link(v.prev.face, v.node, node);
+    link(v.face, node, v.node);
+  };
+
+  const ringOf = (first: WaveVertex) => {
+    const ring: WaveVertex[] = [];
+    let v = first;
+    do {
+      ring.push(v);
+      v = v.next;
+    } while (v !== first && ring.length <= vertices.length);
+    return ring;
+  };
+
+  // The wavefront ends where it is: each vertex stops at a node and each edge closes off its face.
+  // Edges of a folded loop overlap, so the nodes lying along one are threaded onto it.
+  const close = (ring: WaveVertex[], ends: Map<WaveVertex, number>, folded: boolean) => {
+    ring.forEach(v => retire(v, ends.get(v)!));
+    const stops = folded ? [...new Set(ring.map(v => ends.get(v)!))] : [];
+    ring.forEach(v => {
+      const from = ends.get(v.next)!;
+      const to = ends.get(v)!;
+      const a = nodes[from], b = nodes[to];
+      const dx = b.x - a.x, dz = b.z - a.z;
+      const length = Math.hypot(dx, dz);
+      const along = stops
+        .filter(n => n !== from && n !== to && length > tol)
+        .map(n => ({ n, t: ((nodes[n].x - a.x) * dx + (nodes[n].z - a.z) * dz) / (length * length) }))
+        .filter(({ n, t }) => t > 0 && t < 1 && Math.abs((nodes[n].x - a.x) * dz - (nodes[n].z - a.z) * dx) / length < tol)
+        .sort((p, q) => p.t - q.t);
+      [from, ...along.map(({ n }) => n), to].forEach((n, i, chain) => i > 0 && link(v.face, chain[i - 1], n));
+    });
+  };
+
+  let time = start;
+  // A loop with no area left (down to two vertices, or folded flat) is a ridge along itself
+  const settle = (v: WaveVertex) => {
+    if (!v.alive) return;
+    const ring = ringOf(v);
+    const area = ring.reduce((sum, a) => sum + a.x * a.next.z - a.next.x * a.z, 0) / 2;
+    const length = ring.reduce((sum, a) => sum + Math.hypot(a.next.x - a.x, a.next.z - a.z), 0);
+    if (ring.length > 2 && Math.abs(area) > tol * Math.max(length, 1)) return;
+    const ends = new Map<WaveVertex, number>();
+    ring.forEach((a, i) => {
+      const before = ends.get(ring[i - 1]);
+      const same = before !== undefined && Math.hypot(a.x - ring[i - 1].x, a.z - ring[i - 1].z) < tol;
+      ends.set(a, same ? before : addNode(a.x, a.z, time));
+    });
+    close(ring, ends, true);
+  };
+
+  loops.forEach(loop => {
+    const ring = loop.points.map((p, i) => {
+      const node = addNode(p[0], p[2], start);
+      faces.push({ edge: loop.edges[i], start: node, links: new Map() });
+      return addVertex(p[0], p[2], node, faces.length - 1);
+    });
+    ring.forEach((v, i) => {
+      v.next = ring[(i + 1) % ring.length];
+      v.next.prev = v;
+      link(v.face, v.node, v.next.node);
+    });
+  });
+  vertices.forEach(setVelocity);
+
+  const limit = 20 * vertices.length * vertices.length + 100;
+  for (let step = 0; step < limit && !failed; step++) {
+    const alive = vertices.filter(v => v.alive);
+    if (alive.length === 0) break;
+
+    // Earliest event; edges collapsing win ties
+    let best: { dt: number; v: WaveVertex; hit?: WaveVertex } | null = null;
+    alive.forEach(v => {
+      const [dx, dz] = edgeDirection(faces[v.face].edge);
+      const w = v.next;
+      const length = (w.x - v.x) * dx + (w.z - v.z) * dz;
+      const rate = (w.vx - v.vx) * dx + (w.vz - v.vz) * dz;
+      const dt = length <= tol ? 0 : rate < -1e-12 ? length / -rate : Infinity;
+      if (dt < (best?.dt ?? Infinity)) best = { dt, v };
+    });
+    alive.forEach(v => {
+      const [ix, iz] = edgeDirection(faces[v.prev.face].edge);
+      const [ox, oz] = edgeDirection(faces[v.face].edge);
+      if (ix * oz - iz * ox > -1e-9) return;
+      // Reflex corner: where does it run into another edge?
+      alive.forEach(c => {
+        const d = c.next;
+        if (c === v || d === v) return;
+        const edge = faces[c.face].edge;
+        const distance = edge.nx * (v.x - c.x) + edge.nz * (v.z - c.z);
+        const approach = edge.nx * v.vx + edge.nz * v.vz - edge.speed;
+        if (distance < -tol || approach > -1e-12) return;
+        const dt = Math.max(0, distance) / -approach;
+        if (dt >= (best?.dt ?? Infinity) - 1e-12) return;
+        const qx = v.x + v.vx * dt, qz = v.z + v.vz * dt;
+        const cx = c.x + c.vx * dt, cz = c.z + c.vz * dt;
+        const sx = d.x + d.vx * dt - cx, sz = d.z + d.vz * dt - cz;
+        const length = Math.hypot(sx, sz);
+        if (length < tol) return;
+        const along = ((qx - cx) * sx + (qz - cz) * sz) / length;
+        if (along < -tol || along > length + tol) return;
+        best = { dt, v, hit: c };
+      });
+    });
+
+    const event = best as { dt: number; v: WaveVertex; hit?: WaveVertex } | null;
+    if (!event || time + event.dt > until + tol) break;
+    alive.forEach(v => {
+      v.x += v.vx * event.dt;
+      v.z += v.vz * event.dt;
+    });
+    time += event.dt;
+
+    const { v, hit } = event;
+    if (!hit) {
+      // Edge from v to its neighbour shrinks to a point
+      const w = v.next;
+      const node = addNode((v.x + w.x) / 2, (v.z + w.z) / 2, time);
+      retire(v, node);
+      retire(w, node);
+      const merged = addVertex(nodes[node].x, nodes[node].z, node, w.face);
+      merged.prev = v.prev;
+      merged.next = w.next;
+      v.prev.next = merged;
+      w.next.prev = merged;
+      setVelocity(merged);
+      settle(merged);
+    } else {
+      // Reflex corner splits the edge it ran into; the two halves go on with either side of it
+      const after = hit.next;
+      const node = addNode(v.x, v.z, time);
+      retire(v, node);
+      const left = addVertex(v.x, v.z, node, hit.face);
+      const right = addVertex(v.x, v.z, node, v.face);
+      left.prev = v.prev;
+      left.next = after;
+      right.prev = hit;
+      right.next = v.next;
+      v.prev.next = left;
+      after.prev = left;
+      hit.next = right;
+      v.next.prev = right;
+      setVelocity(left);
+      setVelocity(right);
+      settle(left);
+      settle(right);
+    }
+  }
+  if (failed) return null;
+
+  const alive = vertices.filter(v => v.alive);
+  if (alive.length > 0 && !Number.isFinite(until)) return null;
+
+  // Stopped short: the wavefront at `until` closes off the faces and carries on as new loops
+  const rest: WaveLoop[] = [];
+  const ends = new Map<WaveVertex, number>();
+  alive.forEach(v => {
+    const dt = until - time;
+    ends.set(v, addNode(v.x + v.vx * dt, v.z + v.vz * dt, until));
+  });
+  const seen = new Set<WaveVertex>();
+  alive.forEach(first => {
+    if (seen.has(first)) return;
+    const ring = ringOf(first);
+    ring.forEach(v => seen.add(v));
+    rest.push({
+      points: ring.map(v => [nodes[ends.get(v)!].x, 0, nodes[ends.get(v)!].z] as Point),
+      edges: ring.map(v => faces[v.face].edge)
+    });
+  });
+  close(alive, ends, false);
+
+  return failed ? null : { nodes, faces, rest };
+}
+
+// Boundary of a face in order, or null where the links don't close up
+function faceLoop(skeleton: Skeleton, face: SkeletonFace, tol: number): THREE.Vector3[] | null {
+  const loop: THREE.Vector3[] = [];
+  let node: number | undefined = face.start;
+  for (let i = 0; i <= face.links.size; i++) {
+    if (node === undefined) return null;
+    const p = skeleton.nodes[node];
+    if (loop.length === 0 || p.distanceTo(loop[loop.length - 1]) > tol) loop.push(p);
+    node = face.links.get(node);
+    if (node === face.start) {
+      if (loop.length > 1 && loop[loop.length - 1].distanceTo(loop[0]) <= tol) loop.pop();
+      return loop;
+    }
+  }
+  return null;
+}
+
+const toWaveLoop = (points: Point[], speedOf: (i: number) => number): WaveLoop => ({
+  points,
+  edges: points.map((p, i) => {
+    const q = points[(i + 1) % points.length];
+    const length = Math.hypot(q[0] - p[0], q[2] - p[2]) || 1;
+    return { nx: -(q[2] - p[2]) / length, nz: (q[0] - p[0]) / length, speed: speedOf(i) };
+  })
+});
+
+// Outline edge each edge of the overhanging outline came from: parallel, `overhang` further out
+function sourceEdges(outline: Point[], points: Point[], overhang: number): number[] {
+  return outline.map((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    const length = Math.hypot(q[0] - p[0], q[2] - p[2]) || 1;
+    const mx = (p[0] + q[0]) / 2, mz = (p[2] + q[2]) / 2;
+    let best = -1;
+    let score = Infinity;
+    points.forEach((a, j) => {
+      const b = points[(j + 1) % points.length];
+      const span = Math.hypot(b[0] - a[0], b[2] - a[2]) || 1;
+      const parallel = Math.abs(((q[0] - p[0]) * (b[0] - a[0]) + (q[2] - p[2]) * (b[2] - a[2])) / (length * span));
+      if (parallel < 0.999) return;
+      const distance = Math.abs(((mx - a[0]) * (b[2] - a[2]) - (mz - a[2]) * (b[0] - a[0])) / span);
+      if (Math.abs(distance - overhang) < score) {
+        score = Math.abs(distance - overhang);
+        best = j;
+      }
+    });
+    return best;
+  });
+}
+
+// Outline edges whose hip would be a triangle, which is where a gable goes; never two side by side
+function autoGables(region: OffsetRegion, speed: number, tol: number): Set<number> {
+  const gables = new Set<number>();
+  const hip = straightSkeleton([toWaveLoop(region.outline, () => speed), ...region.holes.map(h => toWaveLoop(h, () => speed))], 0, Infinity, tol);
+  if (!hip) return gables;
+  const n = region.outline.length;
+  const length = (i: number) => {
+    const p = region.outline[i], q = region.outline[(i + 1) % n];
+    return Math.hypot(q[0] - p[0], q[2] - p[2]);
+  };
+  region.outline
+    .map((_, i) => i)
+    .filter(i => faceLoop(hip, hip.faces[i], tol)?.length === 3)
+    .sort((a, b) => length(b) - length(a))
+    .forEach(i => {
+      if (!gables.has((i + 1) % n) && !gables.has((i - 1 + n) % n)) gables.add(i);
+    });
+  // Every edge a gable would leave nothing sloping
+  return gables.size === n ? new Set() : gables;
+}
+
+// Footprint the roof covers: the outline and holes pushed out by the overhang
+function getRoofRegions(shape: ShapeData) {
+  const regions = offsetFootprint([shape.points || [], ...(shape.holes || [])], Math.max(0, shape.roof?.overhang || 0), 'miter');
+  const size = Math.max(...regions.flatMap(r => r.outline.map(p => Math.max(Math.abs(p[0]), Math.abs(p[2])))), 1);
+  return { regions, tol: size * 1e-7 };
+}
+
+// Edges of a roof region that end in gables
+function regionGables(shape: ShapeData, region: OffsetRegion, tol: number): Set<number> {
+  const roof = shape.roof || DEFAULT_ROOF;
+  if (!roof.gableEdges) return autoGables(region, pitchSpeed(roof.pitch), tol);
+  const chosen = new Set(roof.gableEdges);
+  const sources = sourceEdges(region.outline, shape.points || [], Math.max(0, roof.overhang));
+  const gables = new Set(region.outline.map((_, i) => i).filter(i => chosen.has(sources[i])));
+  return gables.size === region.outline.length ? new Set() : gables;
+}
+
+// Outline edges (numbered as in the shape's points) that end in gables: the chosen ones, or the ones
+// picked from the footprint
+export function getGableEdges(shape: ShapeData): number[] {
+  if (shape.roof?.gableEdges) return shape.roof.gableEdges;
+  if (!shape.points || shape.points.length < 3) return [];
+  const { regions, tol } = getRoofRegions(shape);
+  const edges = regions.flatMap(region => {
+    const sources = sourceEdges(region.outline, shape.points!, Math.max(0, shape.roof?.overhang || 0));
+    return [...regionGables(shape, region, tol)].map(i => sources[i]);
+  });
+  return [...new Set(edges)].filter(i => i >= 0).sort((a, b) => a - b);
+}
+
+// Closed roof solid sitting on the top of a custom mass, in the mass's local space with its base at
+// y = 0, or null for a flat roof. Plan uvs like the masses, so the mass's solid (booleans, zoning,
+// compliance) can take it in.
+export function buildRoofGeometry(shape: ShapeData): THREE.BufferGeometry | null {
+  const roof = shape.roof;
+  const points = shape.points;
+  if (!roof || roof.type === 'flat' || !points || points.length < 3) return null;
+  const { regions, tol } = getRoofRegions(shape);
+  if (regions.length === 0) return null;
+
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const u = new THREE.Vector3();
+  const w = new THREE.Vector3();
+  // Triangles of one planar face, all turned to face `outward`. They come wound the same way, so
+  // slivers along straight runs keep theirs and stitch the face to its neighbours' nodes there.
+  const triangles = (vertices: THREE.Vector3[], faces: number[][], outward: THREE.Vector3) => {
+    const normal = new THREE.Vector3();
+    faces.forEach(([a, b, c]) => normal.add(u.subVectors(vertices[b], vertices[a]).cross(w.subVectors(vertices[c], vertices[a]))));
+    const flip = normal.dot(outward) < 0;
+    faces.forEach(([a, b, c]) => (flip ? [a, c, b] : [a, b, c]).forEach(i => {
+      positions.push(vertices[i].x, vertices[i].y, vertices[i].z);
+      uvs.push(vertices[i].x, vertices[i].z);
+    }));
+  };
+  const planCap = ({ outline, holes }: OffsetRegion, heightAt: (p: Point) => number, facing: THREE.Vector3) => {
+    const vertices = [outline, ...holes].flat().map(p => new THREE.Vector3(p[0], heightAt(p), p[2]));
+    const plan = (loop: Point[]) => loop.map(p => new THREE.Vector2(p[0], p[2]));
+    triangles(vertices, THREE.ShapeUtils.triangulateShape(plan(outline), holes.map(plan)), facing);
+  };
+  // Planar face, triangulated along its edge and up its slope
+  const face = (loop: THREE.Vector3[], edge: SkeletonEdge) => {
+    const [dx, dz] = edgeDirection(edge);
+    const outward = new THREE.Vector3(-edge.nx, edge.speed, -edge.nz);
+    triangles(loop, THREE.ShapeUtils.triangulateShape(loop.map(p => new THREE.Vector2(p.x * dx + p.z * dz, p.y)), []), outward);
+  };
+  const skeletonFaces = (skeleton: Skeleton) => skeleton.faces.every(f => {
+    const loop = faceLoop(skeleton, f, tol);
+    if (loop && loop.length >= 3) face(loop, f.edge);
+    return loop !== null;
+  });
+
+  const down = new THREE.Vector3(0, -1, 0);
+  const speed = pitchSpeed(roof.pitch);
+  for (const region of regions) {
+    planCap(region, () => 0, down);
+
+    if (roof.type === 'shed') {
+      // One plane rising from the low edge, with walls up to it all round
+      const sources = sourceEdges(region.outline, points, Math.max(0, roof.overhang));
+      const low = Math.max(0, sources.indexOf(roof.shedEdge));
+      const { edges: [edge] } = toWaveLoop([region.outline[low], region.outline[(low + 1) % region.outline.length]], () => 0);
+      const loops = [region.outline, ...region.holes];
+      const base = Math.min(...loops.flat().map(p => edge.nx * p[0] + edge.nz * p[2]));
+      const heightAt = (p: Point) => (edge.nx * p[0] + edge.nz * p[2] - base) / speed;
+      planCap(region, heightAt, new THREE.Vector3(-edge.nx, speed, -edge.nz));
+      loops.forEach(loop => loop.forEach((p, i) => {
+        const q = loop[(i + 1) % loop.length];
+        if (Math.max(heightAt(p), heightAt(q)) < tol) return;
+        const outward = new THREE.Vector3(q[2] - p[2], 0, p[0] - q[0]);
+        const wall = [[p, 0], [q, 0], [q, heightAt(q)], [p, heightAt(p)]] as [Point, number][];
+        triangles(wall.map(([r, y]) => new THREE.Vector3(r[0], y, r[2])), [[0, 1, 2], [0, 2, 3]], outward);
+      }));
+      continue;
+    }
+
+    const gables = roof.type === 'gable' ? regionGables(shape, region, tol) : new Set<number>();
+    const loops = [
+      toWaveLoop(region.outline, i => gables.has(i) ? 0 : speed),
+      ...region.holes.map(hole => toWaveLoop(hole, () => speed))
+    ];
+
+    if (roof.type === 'mansard') {
+      const lower = straightSkeleton(loops, 0, Math.max(0.01, roof.mansardBreak), tol);
+      if (!lower || !skeletonFaces(lower)) return null;
+      if (lower.rest.length === 0) continue;
+      const upperSpeed = pitchSpeed(roof.mansardPitch);
+      const upper = straightSkeleton(
+        lower.rest.map(loop => ({ points: loop.points, edges: loop.edges.map(e => ({ ...e, speed: upperSpeed })) })),
+        Math.max(0.01, roof.mansardBreak), Infinity, tol
+      );
+      if (!upper || !skeletonFaces(upper)) return null;
+    } else {
+      const skeleton = straightSkeleton(loops, 0, Infinity, tol);
+      if (!skeleton || !skeletonFaces(skeleton)) return null;
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+// Height of the ridge above the top of the walls
+export function getRoofHeight(shape: ShapeData): number {
+  const geometry = buildRoofGeometry(shape);
+  if (!geometry) return 0;
+  geometry.computeBoundingBox();
+  const height = geometry.boundingBox!.max.y;
+  geometry.dispose();
+  return height;
+}
@@ -0,0 +1,147 @@
+// Object snapping: collects characteristic points/edges of the scene's shapes in world space
+// and picks the best one near the cursor (in screen pixels).
+import * as THREE from 'three';
+import { ShapeData } from '../types';
+import { indexShapes, getWorldMatrix, getShapeFeatures, getBoxCorners } from './geometry';
+
+export type SnapType = 'vertex' | 'midpoint' | 'face' | 'bbox' | 'edge';
+
+export interface SnapResult {
+  type: SnapType;
+  point: [number, number, number];
+  shapeId: string;
+}
+
+export interface SnapTargets {
+  points: { type: SnapType; point: THREE.Vector3; shapeId: string }[];
+  edges: { a: THREE.Vector3; b: THREE.Vector3; shapeId: string }[];
+}
+
+// Lower wins when several targets are within reach
+const SNAP_PRIORITY: Record<SnapType, number> = { vertex: 0, midpoint: 1, face: 2, bbox: 3, edge: 4 };
+
+export const SNAP_COLORS: Record<SnapType, string> = {
+  vertex: '#16a34a',
+  midpoint: '#06b6d4',
+  face: '#2563eb',
+  bbox: '#c026d3',
+  edge: '#dc2626'
+};
+
+export const SNAP_LABELS: Record<SnapType, string> = {
+  vertex: 'Endpoint',
+  midpoint: 'Midpoint',
+  face: 'Face Center',
+  bbox: 'Bounds Corner',
+  edge: 'On Edge'
+};
+
+export const SNAP_RADIUS_PX = 12;
+
+// World space targets of every visible shape, except the excluded ids
+export function collectSnapTargets(shapes: ShapeData[], excludeIds: Set<string> = new Set()): SnapTargets {
+  const index = indexShapes(shapes);
+  const targets: SnapTargets = { points: [], edges: [] };
+
+  shapes.forEach(shape => {
+    if (!shape.visible || excludeIds.has(shape.id)) return;
+    const features = getShapeFeatures(shape);
+    if (!features) return;
+
+    const matrix = getWorldMatrix(shape, index);
+    const toWorld = (p: THREE.Vector3) => p.clone().applyMatrix4(matrix);
+
+    features.vertices.forEach(p => targets.points.push({ type: 'vertex', point: toWorld(p), shapeId: shape.id }));
+    features.faceCenters.forEach(p => targets.points.push({ type: 'face', point: toWorld(p), shapeId: shape.id }));
+    getBoxCorners(features.bounds).forEach(p => targets.points.push({ type: 'bbox', point: toWorld(p), shapeId: shape.id }));
+    features.edges.forEach(([a, b]) => {
+      const wa = toWorld(a);
+      const wb = toWorld(b);
+      targets.edges.push({ a: wa, b: wb, shapeId: shape.id });
+      targets.points.push({ type: 'midpoint', point: wa.clone().lerp(wb, 0.5), shapeId: shape.id });
+    });
+  });
+
+  return targets;
+}
+
+const toScreen = (p: THREE.Vector3, camera: THREE.Camera, size: { width: number; height: number }) => {
+  const ndc = p.clone().project(camera);
+  return new THREE.Vector2((ndc.x * 0.5 + 0.5) * size.width, (-ndc.y * 0.5 + 0.5) * size.height);
+};
+
+const isBetter = (type: SnapType, dist: number, best: { type: SnapType; dist: number } | null) =>
+  !best || SNAP_PRIORITY[type] < SNAP_PRIORITY[best.type] || (SNAP_PRIORITY[type] === SNAP_PRIORITY[best.type] && dist < best.dist);
+
+// Snap under the cursor, given the picking ray and the cursor position in pixels
+export function findCursorSnap(
+  targets: SnapTargets,
+  ray: THREE.Ray,
+  cursor: THREE.Vector2,
+  camera: THREE.Camera,
+  size: { width: number; height: number },
+  radius = SNAP_RADIUS_PX
+): SnapResult | null {
+  let best: { type: SnapType; dist: number; point: THREE.Vector3; shapeId: string } | null = null;
+
+  for (const t of targets.points) {
+    const dist = toScreen(t.point, camera, size).distanceTo(cursor);
+    if (dist <= radius && isBetter(t.type, dist, best)) best = { type: t.type, dist, point: t.point, shapeId: t.shapeId };
+  }
+
+  // Edges only matter when no point-like target is in reach
+  if (!best) {
+    const onSegment = new THREE.Vector3();
+    for (const e of targets.edges) {
+      ray.distanceSqToSegment(e.a, e.b, undefined, onSegment);
+      const dist = toScreen(onSegment, camera, size).distanceTo(cursor);
+      if (dist <= radius && isBetter('edge', dist, best)) best = { type: 'edge', dist, point: onSegment.clone(), shapeId: e.shapeId };
+    }
+  }
+
+  if (!best) return null;
+  const { type, point, shapeId } = best;
+  return { type, point: [point.x, point.y, point.z], shapeId };
+}
+
+// Snap for a shape being moved: the closest pair (moving reference point, scene target) on screen.
+// Returns the world offset that brings them together.
+export function findMoveSnap(
+  targets: SnapTargets,
+  movingPoints: THREE.Vector3[],
+  camera: THREE.Camera,
+  size: { width: number; height: number },
+  radius = SNAP_RADIUS_PX
+): { snap: SnapResult; offset: THREE.Vector3 } | null {
+  let best: { type: SnapType; dist: number; from: THREE.Vector3; to: THREE.Vector3; shapeId: string } | null = null;
+  const line = new THREE.Line3();
+  const onSegment = new THREE.Vector3();
+
+  const screenTargets = targets.points.map(t => toScreen(t.point, camera, size));
+
+  for (const from of movingPoints) {
+    const screenFrom = toScreen(from, camera, size);
+    targets.points.forEach((t, i) => {
+      const dist = screenTargets[i].distanceTo(screenFrom);
+      if (dist <= radius && isBetter(t.type, dist, best)) best = { type: t.type, dist, from, to: t.point, shapeId: t.shapeId };
+    });
+  }
+
+  if (!best) {
+    for (const from of movingPoints) {
+      const screenFrom = toScreen(from, camera, size);
+      for (const e of targets.edges) {
+        line.set(e.a, e.b).closestPointToPoint(from, true, onSegment);
+        const dist = toScreen(onSegment, camera, size).distanceTo(screenFrom);
+        if (dist <= radius && isBetter('edge', dist, best)) best = { type: 'edge', dist, from, to: onSegment.clone(), shapeId: e.shapeId };
+      }
+    }
+  }
+
+  if (!best) return null;
+  const { type, from, to, shapeId } = best;
+  return {
+    snap: { type, point: [to.x, to.y, to.z], shapeId },
+    offset: to.clone().sub(from)
+  };
+}
@@ -0,0 +1,148 @@
+// Parametric towers: a base footprint stacked floor by floor, tapering, twisting and stepping back at
+// given floors. Everything is generated from the tower's settings, in its local space (base at y = 0).
+import * as THREE from 'three';
+import { TowerBase, TowerSettings } from '../types';
+import { CIRCLE_SEGMENTS, planArea } from './drawing';
+import { OffsetRegion, offsetFootprint, subtractLoop } from './offset';
+
+type Point = [number, number, number];
+
+export const TOWER_BASE_LABELS: Record<TowerBase, string> = {
+  rectangle: 'Rectangle',
+  circle: 'Circle',
+  footprint: 'Footprint'
+};
+
+export const DEFAULT_TOWER: TowerSettings = {
+  base: 'rectangle',
+  width: 20,
+  depth: 20,
+  floorCount: 20,
+  floorHeight: 3.5,
+  taper: 1,
+  twist: 0,
+  setbacks: []
+};
+
+export const MAX_TOWER_FLOORS = 200;
+
+export interface TowerFloor {
+  elevation: number;
+  height: number;
+  loop: Point[]; // Counter-clockwise in plan
+}
+
+// Base outline, counter-clockwise and centred on the origin
+export function getTowerBaseLoop(tower: TowerSettings): Point[] {
+  const w = tower.width / 2;
+  const d = tower.depth / 2;
+  let loop: Point[];
+  if (tower.base === 'footprint' && tower.outline && tower.outline.length >= 3) {
+    loop = tower.outline;
+  } else if (tower.base === 'circle') {
+    loop = Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+      const a = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+      return [Math.cos(a) * w, 0, Math.sin(a) * d] as Point;
+    });
+  } else {
+    loop = [[-w, 0, -d], [w, 0, -d], [w, 0, d], [-w, 0, d]];
+  }
+  return planArea(loop) > 0 ? loop : [...loop].reverse();
+}
+
+// Every floor of the tower, ground first. Floors stop where the setbacks leave nothing to stand on.
+export function getTowerFloors(tower: TowerSettings): TowerFloor[] {
+  const count = Math.min(MAX_TOWER_FLOORS, Math.max(1, Math.round(tower.floorCount) || 1));
+  const base = getTowerBaseLoop(tower);
+  const insets = new Map<number, Point[] | null>();
+  const insetLoop = (inset: number) => {
+    if (!insets.has(inset)) {
+      // The largest piece carries on when a step back splits the footprint
+      const regions = inset > 0 ? offsetFootprint([base], -inset, 'miter') : [{ outline: base, holes: [] }];
+      insets.set(inset, regions[0]?.outline || null);
+    }
+    return insets.get(inset)!;
+  };
+
+  const floors: TowerFloor[] = [];
+  for (let i = 0; i < count; i++) {
+    const inset = tower.setbacks.reduce((sum, s) => s.floor <= i ? sum + Math.max(0, s.inset) : sum, 0);
+    const loop = insetLoop(inset);
+    if (!loop) break;
+    const size = count > 1 ? 1 + (tower.taper - 1) * (i / (count - 1)) : 1;
+    if (size <= 0.001) break;
+    const angle = THREE.MathUtils.degToRad(tower.twist * i);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    floors.push({
+      elevation: i * tower.floorHeight,
+      height: tower.floorHeight,
+      // Turning about y: counter-clockwise seen from above
+      loop: loop.map(([x, , z]) => [(x * cos + z * sin) * size, 0, (z * cos - x * sin) * size] as Point)
+    });
+  }
+  return floors;
+}
+
+export const getTowerHeight = (tower: TowerSettings) =>
+  getTowerFloors(tower).reduce((sum, floor) => sum + floor.height, 0);
+
+// One watertight solid with plan uvs, so it can take part in booleans. Floors share no caps: where
+// two meet only the ledges each leaves past the other are closed.
+export function buildTowerGeometry(tower: TowerSettings): THREE.BufferGeometry {
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const u = new THREE.Vector3();
+  const w = new THREE.Vector3();
+
+  // Triangle turned to face `outward`
+  const triangle = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, outward: THREE.Vector3) => {
+    const normal = u.subVectors(b, a).cross(w.subVectors(c, a));
+    const points = normal.dot(outward) >= 0 ? [a, b, c] : [a, c, b];
+    points.forEach(p => {
+      positions.push(p.x, p.y, p.z);
+      uvs.push(p.x, p.z);
+    });
+  };
+
+  const up = new THREE.Vector3(0, 1, 0);
+  const down = new THREE.Vector3(0, -1, 0);
+  const cap = ({ outline, holes }: OffsetRegion, y: number, facing: THREE.Vector3) => {
+    const vertices = [outline, ...holes].flat().map(p => new THREE.Vector3(p[0], y, p[2]));
+    const plan = (loop: Point[]) => loop.map(p => new THREE.Vector2(p[0], p[2]));
+    THREE.ShapeUtils.triangulateShape(plan(outline), holes.map(plan))
+      .forEach(([a, b, c]) => triangle(vertices[a], vertices[b], vertices[c], facing));
+  };
+
+  const floors = getTowerFloors(tower);
+  floors.forEach(({ elevation, height, loop }, index) => {
+    const above = floors[index + 1];
+    if (index === 0) cap({ outline: loop, holes: [] }, elevation, down);
+    if (!above) {
+      cap({ outline: loop, holes: [] }, elevation + height, up);
+    } else if (!sameLoop(loop, above.loop)) {
+      subtractLoop(loop, above.loop).forEach(region => cap(region, elevation + height, up));
+      subtractLoop(above.loop, loop).forEach(region => cap(region, elevation + height, down));
+    }
+
+    const bottom = loop.map(p => new THREE.Vector3(p[0], elevation, p[2]));
+    const top = loop.map(p => new THREE.Vector3(p[0], elevation + height, p[2]));
+    loop.forEach((p, i) => {
+      const j = (i + 1) % loop.length;
+      const q = loop[j];
+      // Counter-clockwise loop: the outside is on the right of each edge
+      const outward = new THREE.Vector3(q[2] - p[2], 0, p[0] - q[0]);
+      triangle(bottom[i], bottom[j], top[j], outward);
+      triangle(bottom[i], top[j], top[i], outward);
+    });
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+const sameLoop = (a: Point[], b: Point[]) =>
+  a.length === b.length && a.every((p, i) => p[0] === b[i][0] && p[2] === b[i][2]);
@@ -0,0 +1,228 @@
+// Zoning envelopes: the volume a site's setbacks, height limit and sky-exposure planes leave buildable,
+// and how much of each mass standing on the site sticks out of it.
+import * as THREE from 'three';
+import { ShapeData, ZoningSettings } from '../types';
+import { ShapeIndex, getDescendantIds, getWorldMatrix, indexShapes, offsetPolygon, pointInLoop } from './geometry';
+import { buildShapeGeometry, getMeshVolume, isBooleanOperand, subtractGeometry } from './csg';
+import { planArea } from './drawing';
+
+type Point = [number, number, number];
+
+export type EdgeRole = 'front' | 'side' | 'rear';
+
+export interface EnvelopeRing {
+  y: number;
+  loop: Point[];
+}
+
+export interface ZoningViolation {
+  siteId: string;
+  shapeId: string;
+  volume: number; // m³ of the mass outside the envelope
+  geometry: THREE.BufferGeometry; // That part, in world space
+}
+
+export const DEFAULT_ZONING: ZoningSettings = {
+  frontEdge: 0,
+  frontSetback: 3,
+  sideSetback: 1.5,
+  rearSetback: 6,
+  maxHeight: 30,
+  skyPlane: false,
+  skyPlaneBaseHeight: 12,
+  skyPlaneAngle: 70,
+  skyPlaneAllSides: false
+};
+
+// Masses touching the envelope (or the ground under it) are within it
+const TOLERANCE = 0.02;
+const MIN_VIOLATION = 0.01;
+
+const getZoning = (site: ShapeData): ZoningSettings => ({ ...DEFAULT_ZONING, ...site.zoning });
+
+// Edges facing away from the front (within 45°) are rear edges, the others side edges
+export function getEdgeRoles(loop: Point[], frontEdge: number): EdgeRole[] {
+  const direction = (i: number) => {
+    const a = loop[i];
+    const b = loop[(i + 1) % loop.length];
+    const len = Math.hypot(b[0] - a[0], b[2] - a[2]) || 1;
+    return [(b[0] - a[0]) / len, (b[2] - a[2]) / len];
+  };
+  const front = direction(frontEdge);
+  return loop.map((_, i) => {
+    if (i === frontEdge) return 'front';
+    const d = direction(i);
+    return d[0] * front[0] + d[1] * front[1] < -Math.SQRT1_2 ? 'rear' : 'side';
+  });
+}
+
+// Every edge keeps its direction and the loop its orientation: the setbacks have not swallowed it
+function keepsShape(original: Point[], offset: Point[]) {
+  const area = planArea(offset);
+  if (Math.sign(area) !== Math.sign(planArea(original)) || Math.abs(area) < 0.01) return false;
+  return original.every((a, i) => {
+    const j = (i + 1) % original.length;
+    const b = original[j];
+    return (b[0] - a[0]) * (offset[j][0] - offset[i][0]) + (b[2] - a[2]) * (offset[j][2] - offset[i][2]) > 0;
+  });
+}
+
+// Outline of the envelope at each height where it changes, bottom first, in the site's local space.
+// Null when the setbacks leave nothing to build on.
+export function getEnvelopeRings(site: ShapeData, tolerance = 0): EnvelopeRing[] | null {
+  const loop = site.points;
+  if (!loop || loop.length < 3) return null;
+  const zoning = getZoning(site);
+  const frontEdge = Math.min(Math.max(0, Math.round(zoning.frontEdge)), loop.length - 1);
+  const roles = getEdgeRoles(loop, frontEdge);
+  const base = roles.map(role => role === 'front' ? zoning.frontSetback : role === 'rear' ? zoning.rearSetback : zoning.sideSetback);
+  const slope = 1 / Math.tan(THREE.MathUtils.degToRad(THREE.MathUtils.clamp(zoning.skyPlaneAngle, 1, 89)));
+
+  // Setbacks at height y: the sky-exposure plane pushes its edges back as the envelope rises
+  const loopAt = (y: number) => offsetPolygon(loop, roles.map((role, i) => {
+    const lean = zoning.skyPlane && (zoning.skyPlaneAllSides || role === 'front') ? Math.max(0, y - zoning.skyPlaneBaseHeight) * slope : 0;
+    return -(Math.max(0, base[i]) + lean) + tolerance;
+  }));
+
+  const top = Math.max(0, zoning.maxHeight) + tolerance;
+  const ground = loopAt(0);
+  if (top <= 0 || !keepsShape(loop, ground)) return null;
+  if (!zoning.skyPlane || zoning.skyPlaneBaseHeight >= top) {
+    return [{ y: -tolerance, loop: ground }, { y: top, loop: ground }];
+  }
+
+  // The sloped part ends at the height limit, or earlier where the planes meet
+  let roof = top;
+  if (!keepsShape(loop, loopAt(roof))) {
+    let low = zoning.skyPlaneBaseHeight;
+    for (let i = 0; i < 30; i++) {
+      const mid = (low + roof) / 2;
+      if (keepsShape(loop, loopAt(mid))) low = mid;
+      else roof = mid;
+    }
+    roof = low;
+  }
+  const rings = [{ y: -tolerance, loop: ground }, { y: zoning.skyPlaneBaseHeight, loop: ground }];
+  if (roof > zoning.skyPlaneBaseHeight + 1e-3) rings.push({ y: roof, loop: loopAt(roof) });
+  return rings;
+}
+
+// Closed mesh through the rings: walls between consecutive rings, caps at both ends
+export function buildEnvelopeGeometry(rings: EnvelopeRing[]) {
+  const positions: number[] = [];
+  const sign = planArea(rings[0].loop) > 0 ? 1 : -1;
+  const triangle = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, outward: THREE.Vector3) => {
+    const normal = new THREE.Vector3().crossVectors(b.clone().sub(a), c.clone().sub(a));
+    if (normal.lengthSq() < 1e-14) return;
+    positions.push(...(normal.dot(outward) >= 0 ? [a, b, c] : [a, c, b]).flatMap(p => p.toArray()));
+  };
+
+  rings.slice(1).forEach((upper, r) => {
+    const lower = rings[r];
+    lower.loop.forEach((p, i) => {
+      const j = (i + 1) % lower.loop.length;
+      const q = lower.loop[j];
+      const outward = new THREE.Vector3(sign * (q[2] - p[2]), 0, -sign * (q[0] - p[0]));
+      const a0 = new THREE.Vector3(p[0], lower.y, p[2]);
+      const b0 = new THREE.Vector3(q[0], lower.y, q[2]);
+      const a1 = new THREE.Vector3(upper.loop[i][0], upper.y, upper.loop[i][2]);
+      const b1 = new THREE.Vector3(upper.loop[j][0], upper.y, upper.loop[j][2]);
+      triangle(a0, b0, b1, outward);
+      triangle(a0, b1, a1, outward);
+    });
+  });
+
+  [rings[0], rings[rings.length - 1]].forEach((ring, end) => {
+    const contour = ring.loop.map(p => new THREE.Vector2(p[0], p[2]));
+    const up = new THREE.Vector3(0, end === 0 ? -1 : 1, 0);
+    THREE.ShapeUtils.triangulateShape(contour, []).forEach(([a, b, c]) => {
+      const v = (k: number) => new THREE.Vector3(ring.loop[k][0], ring.y, ring.loop[k][2]);
+      triangle(v(a), v(b), v(c), up);
+    });
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  // Same attributes as the masses, so the envelope can be used in booleans with them
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(new Array((positions.length / 3) * 2).fill(0), 2));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+// Site whose boundary the mass's plan centre lies in
+function findSite(sites: ShapeData[], mass: ShapeData, index: ShapeIndex, massGeometry: THREE.BufferGeometry) {
+  massGeometry.computeBoundingBox();
+  const center = massGeometry.boundingBox!.getCenter(new THREE.Vector3());
+  return sites.find(site => {
+    const matrix = getWorldMatrix(site, index);
+    const loop = site.points!.map(p => new THREE.Vector3(p[0], 0, p[2]).applyMatrix4(matrix).toArray() as Point);
+    return pointInLoop(center.x, center.z, loop);
+  });
+}
+
+// Results of recent checks, so moving one mass only re-checks that mass. Least recently used
+// first; evicted results are left to the garbage collector, as the viewport may still draw them.
+const pairCache = new Map<string, ZoningViolation | null>();
+const PAIR_CACHE_SIZE = 200;
+const violationCache = new WeakMap<ShapeData[], ZoningViolation[]>();
+
+function checkMass(site: ShapeData, mass: ShapeData, massGeometry: THREE.BufferGeometry, index: ShapeIndex): ZoningViolation | null {
+  const rings = getEnvelopeRings(site, TOLERANCE);
+  const volume = getMeshVolume(massGeometry);
+  if (!rings) return { siteId: site.id, shapeId: mass.id, volume, geometry: massGeometry };
+
+  const envelope = buildEnvelopeGeometry(rings).applyMatrix4(getWorldMatrix(site, index));
+  const outside = subtractGeometry(massGeometry, envelope);
+  envelope.dispose();
+  massGeometry.dispose();
+  const outsideVolume = getMeshVolume(outside);
+  if (outsideVolume < MIN_VIOLATION) {
+    outside.dispose();
+    return null;
+  }
+  return { siteId: site.id, shapeId: mass.id, volume: outsideVolume, geometry: outside };
+}
+
+// Masses that do not fit the envelope of the site they stand on
+export function getEnvelopeViolations(shapes: ShapeData[]): ZoningViolation[] {
+  const cached = violationCache.get(shapes);
+  if (cached) return cached;
+
+  const index = indexShapes(shapes);
+  const visibleInScene = (s: ShapeData) => {
+    for (let c: ShapeData | undefined = s; c; c = c.parentId ? index.get(c.parentId) : undefined) {
+      if (!c.visible) return false;
+    }
+    return true;
+  };
+  const sites = shapes.filter(s => s.type === 'site' && s.points && s.points.length >= 3 && visibleInScene(s));
+  const violations: ZoningViolation[] = [];
+
+  if (sites.length > 0) {
+    const sitesKey = JSON.stringify(sites.map(site => [site, getWorldMatrix(site, index).elements]));
+    shapes.forEach(mass => {
+      // Boolean operands are checked through their boolean
+      if (!isBooleanOperand(mass) || !visibleInScene(mass) || index.get(mass.parentId || '')?.type === 'boolean') return;
+      const matrix = getWorldMatrix(mass, index);
+      const parts = getDescendantIds(mass.id, shapes);
+      const key = sitesKey + JSON.stringify([matrix.elements, shapes.filter(s => parts.has(s.id))]);
+
+      let result: ZoningViolation | null;
+      if (pairCache.has(key)) {
+        result = pairCache.get(key)!;
+        pairCache.delete(key);
+      } else {
+        const geometry = buildShapeGeometry(mass, shapes)?.applyMatrix4(matrix);
+        const site = geometry && findSite(sites, mass, index, geometry);
+        if (geometry && !site) geometry.dispose();
+        result = geometry && site ? checkMass(site, mass, geometry, index) : null;
+      }
+      pairCache.set(key, result);
+      if (pairCache.size > PAIR_CACHE_SIZE) pairCache.delete(pairCache.keys().next().value!);
+      if (result) violations.push(result);
+    });
+  }
+
+  violationCache.set(shapes, violations);
+  return violations;
+}